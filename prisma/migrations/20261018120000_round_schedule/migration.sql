@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "nextRoundAt" TIMESTAMP(3),
+ADD COLUMN     "roundEndsAt" TIMESTAMP(3),
+ADD COLUMN     "roundStartedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "matches_status_idx" ON "matches"("status");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "round_commitments" (
+    "id" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "roundNumber" INTEGER NOT NULL,
+    "commitment" TEXT NOT NULL,
+    "seed" TEXT NOT NULL,
+    "endTime" INTEGER NOT NULL,
+    "minEndTime" INTEGER NOT NULL,
+    "maxEndTime" INTEGER NOT NULL,
+    "voided" BOOLEAN NOT NULL DEFAULT false,
+    "committedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revealedAt" TIMESTAMP(3),
+
+    CONSTRAINT "round_commitments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "round_commitments_matchId_roundNumber_idx" ON "round_commitments"("matchId", "roundNumber");
+
+-- AddForeignKey
+ALTER TABLE "round_commitments" ADD CONSTRAINT "round_commitments_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "matches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "join_intents" ADD COLUMN     "presetId" TEXT;
+
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "presetId" TEXT;
+
+-- CreateTable
+CREATE TABLE "room_presets" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "entryFee" DECIMAL(18,9) NOT NULL,
+    "maxPlayers" INTEGER NOT NULL,
+    "rounds" INTEGER NOT NULL DEFAULT 3,
+    "platformFee" INTEGER NOT NULL DEFAULT 0,
+    "scoringStrategy" TEXT NOT NULL DEFAULT 'closest',
+    "scoringParams" JSONB,
+    "maxPressCompensationMs" INTEGER NOT NULL DEFAULT 150,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "room_presets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "room_presets_type_enabled_idx" ON "room_presets"("type", "enabled");
+
+-- CreateIndex
+CREATE INDEX "matches_presetId_status_idx" ON "matches"("presetId", "status");
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_presetId_fkey" FOREIGN KEY ("presetId") REFERENCES "room_presets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
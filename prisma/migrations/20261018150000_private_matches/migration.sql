@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "creatorId" TEXT,
+ADD COLUMN     "inviteCode" TEXT,
+ADD COLUMN     "isPrivate" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "minPlayers" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matches_inviteCode_key" ON "matches"("inviteCode");
+
+-- CreateIndex
+CREATE INDEX "matches_presetId_isPrivate_status_idx" ON "matches"("presetId", "isPrivate", "status");
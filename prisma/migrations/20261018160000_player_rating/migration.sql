@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "player_stats" ADD COLUMN     "ratedGames" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rating" INTEGER NOT NULL DEFAULT 1200;
+
+-- AlterTable
+ALTER TABLE "room_presets" ADD COLUMN     "matchmakingMode" TEXT NOT NULL DEFAULT 'fifo';
+
+-- CreateIndex
+CREATE INDEX "player_stats_rating_idx" ON "player_stats"("rating");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "room_presets" ADD COLUMN     "minPlayers" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "startCountdownSec" INTEGER NOT NULL DEFAULT 30;
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "match_rounds" (
+    "id" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "roundNumber" INTEGER NOT NULL,
+    "endTime" INTEGER NOT NULL,
+    "scoringStrategy" TEXT NOT NULL,
+    "scoringParams" JSONB,
+    "results" JSONB NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "match_rounds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "round_presses" (
+    "id" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "roundNumber" INTEGER NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "pressTime" INTEGER NOT NULL,
+    "compensationMs" INTEGER NOT NULL DEFAULT 0,
+    "accepted" BOOLEAN NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "round_presses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "match_rounds_matchId_roundNumber_key" ON "match_rounds"("matchId", "roundNumber");
+
+-- CreateIndex
+CREATE INDEX "round_presses_matchId_roundNumber_idx" ON "round_presses"("matchId", "roundNumber");
+
+-- CreateIndex
+CREATE INDEX "round_presses_playerId_idx" ON "round_presses"("playerId");
+
+-- AddForeignKey
+ALTER TABLE "match_rounds" ADD CONSTRAINT "match_rounds_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "matches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "round_presses" ADD CONSTRAINT "round_presses_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "matches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,76 @@
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "tournamentId" TEXT,
+ADD COLUMN     "tournamentStage" INTEGER;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "tournamentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "tournaments" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "entryFee" DECIMAL(18,9) NOT NULL,
+    "platformFee" INTEGER NOT NULL DEFAULT 0,
+    "prizeTable" JSONB NOT NULL,
+    "presetId" TEXT NOT NULL,
+    "matchSize" INTEGER NOT NULL,
+    "advancePerMatch" INTEGER NOT NULL DEFAULT 1,
+    "swissRounds" INTEGER NOT NULL DEFAULT 3,
+    "minPlayers" INTEGER NOT NULL DEFAULT 2,
+    "maxPlayers" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "currentStage" INTEGER NOT NULL DEFAULT 0,
+    "registrationOpensAt" TIMESTAMP(3) NOT NULL,
+    "registrationClosesAt" TIMESTAMP(3) NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tournaments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tournament_entries" (
+    "id" TEXT NOT NULL,
+    "tournamentId" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "playerName" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "seed" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "points" INTEGER NOT NULL DEFAULT 0,
+    "lastScore" INTEGER NOT NULL DEFAULT 0,
+    "eliminatedStage" INTEGER,
+    "place" INTEGER,
+    "prize" DECIMAL(18,9),
+    "registeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tournament_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tournaments_status_registrationClosesAt_idx" ON "tournaments"("status", "registrationClosesAt");
+
+-- CreateIndex
+CREATE INDEX "tournament_entries_playerId_idx" ON "tournament_entries"("playerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_entries_tournamentId_playerId_key" ON "tournament_entries"("tournamentId", "playerId");
+
+-- CreateIndex
+CREATE INDEX "matches_tournamentId_tournamentStage_idx" ON "matches"("tournamentId", "tournamentStage");
+
+-- CreateIndex
+CREATE INDEX "payments_tournamentId_idx" ON "payments"("tournamentId");
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "tournaments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_entries" ADD CONSTRAINT "tournament_entries_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "tournaments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "tournaments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
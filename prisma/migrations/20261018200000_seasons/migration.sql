@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "seasons" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "seasons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "season_player_stats" (
+    "id" TEXT NOT NULL,
+    "seasonId" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "playerName" TEXT NOT NULL,
+    "totalGames" INTEGER NOT NULL DEFAULT 0,
+    "totalWins" INTEGER NOT NULL DEFAULT 0,
+    "totalScore" INTEGER NOT NULL DEFAULT 0,
+    "bestScore" INTEGER NOT NULL DEFAULT 0,
+    "lastPlayed" TIMESTAMP(3),
+    "finalRank" INTEGER,
+
+    CONSTRAINT "season_player_stats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "seasons_startsAt_endsAt_idx" ON "seasons"("startsAt", "endsAt");
+
+-- CreateIndex
+CREATE INDEX "season_player_stats_seasonId_totalWins_idx" ON "season_player_stats"("seasonId", "totalWins");
+
+-- CreateIndex
+CREATE INDEX "season_player_stats_seasonId_totalScore_idx" ON "season_player_stats"("seasonId", "totalScore");
+
+-- CreateIndex
+CREATE INDEX "season_player_stats_playerId_idx" ON "season_player_stats"("playerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "season_player_stats_seasonId_playerId_key" ON "season_player_stats"("seasonId", "playerId");
+
+-- AddForeignKey
+ALTER TABLE "season_player_stats" ADD CONSTRAINT "season_player_stats_seasonId_fkey" FOREIGN KEY ("seasonId") REFERENCES "seasons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
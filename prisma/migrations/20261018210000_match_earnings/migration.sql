@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "entryFee" DECIMAL(18,9) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "match_players" ADD COLUMN     "payout" DECIMAL(18,9) NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "matches_status_roomType_finishedAt_idx" ON "matches"("status", "roomType", "finishedAt");
+
+-- Backfill entry fees of existing paid matches from their presets
+UPDATE "matches" SET "entryFee" = "room_presets"."entryFee"
+FROM "room_presets"
+WHERE "matches"."presetId" = "room_presets"."id" AND "matches"."roomType" <> 'free';
+
+-- Backfill winnings from payout payments
+UPDATE "match_players" SET "payout" = "payments"."amount"
+FROM "payments"
+WHERE "payments"."matchId" = "match_players"."matchId"
+  AND "payments"."playerId" = "match_players"."playerId"
+  AND "payments"."paymentType" = 'payout';
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "player_stats" ADD COLUMN     "winRateScore" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill Wilson score lower bound (z = 1.96) of existing stats
+UPDATE "player_stats" SET "winRateScore" = (
+    "totalWins"::float8 / "totalGames" + 1.9208 / "totalGames"
+    - 1.96 * SQRT(("totalWins"::float8 / "totalGames") * (1 - "totalWins"::float8 / "totalGames") / "totalGames"
+      + 0.9604 / ("totalGames"::float8 * "totalGames"))
+  ) / (1 + 3.8416 / "totalGames")
+WHERE "totalGames" > 0;
+
+-- CreateIndex
+CREATE INDEX "player_stats_winRateScore_playerId_idx" ON "player_stats"("winRateScore", "playerId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "player_stats" ADD COLUMN     "avatarUrl" TEXT;
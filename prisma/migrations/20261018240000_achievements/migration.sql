@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "player_achievements" (
+    "id" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "achievementId" TEXT NOT NULL,
+    "matchId" TEXT,
+    "unlockedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "player_achievements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "player_achievements_playerId_idx" ON "player_achievements"("playerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "player_achievements_playerId_achievementId_key" ON "player_achievements"("playerId", "achievementId");
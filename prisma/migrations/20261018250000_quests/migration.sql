@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "player_quests" (
+    "id" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "questId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "completedAt" TIMESTAMP(3),
+    "rewardPaymentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "player_quests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "player_quests_playerId_periodStart_idx" ON "player_quests"("playerId", "periodStart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "player_quests_playerId_questId_periodStart_key" ON "player_quests"("playerId", "questId", "periodStart");
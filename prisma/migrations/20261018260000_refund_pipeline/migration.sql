@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "sentAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "refunds_status_nextAttemptAt_idx" ON "refunds"("status", "nextAttemptAt");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "escrow_operations" (
+    "id" TEXT NOT NULL,
+    "opType" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "value" DECIMAL(18,9) NOT NULL,
+    "idempotencyKey" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "seqno" INTEGER,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+    "validUntil" TIMESTAMP(3),
+    "confirmedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "escrow_operations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "escrow_operations_idempotencyKey_key" ON "escrow_operations"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "escrow_operations_status_createdAt_idx" ON "escrow_operations"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "escrow_operations_roomId_idx" ON "escrow_operations"("roomId");
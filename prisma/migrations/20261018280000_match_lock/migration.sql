@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "lockOperationId" TEXT,
+ADD COLUMN     "lockedAt" TIMESTAMP(3);
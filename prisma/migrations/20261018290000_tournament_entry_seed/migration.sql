@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_entries_tournamentId_seed_key" ON "tournament_entries"("tournamentId", "seed");
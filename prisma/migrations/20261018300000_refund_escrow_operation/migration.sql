@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN     "escrowOperationId" TEXT;
+
+-- Refunds queued before this column stored the escrow operation ID in "txHash"
+UPDATE "refunds" SET "escrowOperationId" = "txHash", "txHash" = NULL
+WHERE "txHash" IN (SELECT "id" FROM "escrow_operations");
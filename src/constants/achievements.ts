@@ -0,0 +1,54 @@
+import { AchievementDefinition } from '../types/game';
+
+// Achievement catalogue
+// Ids are persisted with unlocks (player_achievements), never rename or reuse them
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first_match',
+    name: 'First Press',
+    description: 'Finish your first match',
+    rule: { type: 'matches_played', count: 1 },
+  },
+  {
+    id: 'first_win',
+    name: 'Last One Standing',
+    description: 'Win a match',
+    rule: { type: 'wins', count: 1 },
+  },
+  {
+    id: 'perfect_press',
+    name: 'Razor Edge',
+    description: 'Press within 50 ms of the round end',
+    rule: { type: 'press_within', ms: 50 },
+  },
+  {
+    id: 'win_streak_5',
+    name: 'On Fire',
+    description: 'Win 5 matches in a row',
+    rule: { type: 'win_streak', count: 5 },
+  },
+  {
+    id: 'matches_100',
+    name: 'Regular',
+    description: 'Play 100 matches',
+    rule: { type: 'matches_played', count: 100 },
+  },
+  {
+    id: 'stars_wins_10',
+    name: 'Star Collector',
+    description: 'Win 10 Stars matches',
+    rule: { type: 'wins', count: 10, roomType: 'stars' },
+  },
+  {
+    id: 'ton_matches_100',
+    name: 'High Roller',
+    description: 'Play 100 TON matches',
+    rule: { type: 'matches_played', count: 100, roomType: 'ton' },
+  },
+  {
+    id: 'match_score_30',
+    name: 'Sharpshooter',
+    description: 'Score 30 points in one match',
+    rule: { type: 'match_score', score: 30 },
+  },
+];
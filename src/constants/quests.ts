@@ -0,0 +1,51 @@
+import { QuestDefinition } from '../types/game';
+
+// Quest catalogue
+// Ids are persisted with progress (player_quests), never rename or reuse them
+export const QUESTS: QuestDefinition[] = [
+  {
+    id: 'daily_play_3',
+    name: 'Warm Up',
+    description: 'Play 3 matches',
+    period: 'daily',
+    goal: { type: 'play_matches' },
+    target: 3,
+    reward: { type: 'bonus', amount: 50 },
+  },
+  {
+    id: 'daily_score_rounds_5',
+    name: 'On Target',
+    description: 'Score points in 5 rounds',
+    period: 'daily',
+    goal: { type: 'score_rounds' },
+    target: 5,
+    reward: { type: 'bonus', amount: 30 },
+  },
+  {
+    id: 'daily_score_every_round',
+    name: 'Flawless',
+    description: 'Score points in every round of a match',
+    period: 'daily',
+    goal: { type: 'score_every_round' },
+    target: 1,
+    reward: { type: 'bonus', amount: 75 },
+  },
+  {
+    id: 'weekly_win_stars',
+    name: 'Starstruck',
+    description: 'Win a Stars room',
+    period: 'weekly',
+    goal: { type: 'win_matches', roomType: 'stars' },
+    target: 1,
+    reward: { type: 'stars', amount: 5 },
+  },
+  {
+    id: 'weekly_play_20',
+    name: 'Dedicated',
+    description: 'Play 20 matches',
+    period: 'weekly',
+    goal: { type: 'play_matches' },
+    target: 20,
+    reward: { type: 'bonus', amount: 300 },
+  },
+];
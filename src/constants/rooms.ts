@@ -22,30 +22,50 @@ const getMaxPlayers = (roomType: 'free' | 'stars' | 'ton'): number => {
 };
 
 // Keep constants in sync with shared/constants/rooms.ts
-export const ROOM_PRESETS: RoomPreset[] = [
+// Default room catalogue, seeded into the room_presets table on first start
+// (the catalogue is then managed via /api/admin/rooms, see RoomPresetService)
+export const DEFAULT_ROOM_PRESETS: RoomPreset[] = [
   {
     id: 'free_0',
     type: 'free',
     entryFee: 0,
     maxPlayers: getMaxPlayers('free'),
+    minPlayers: 2,
+    startCountdownSec: 30,
     rounds: 3,
     platformFee: 0, // No platform fee for free room
+    scoring: { strategy: 'closest', params: { maxScore: 10, minScore: 1 } },
+    maxPressCompensationMs: 150,
+    enabled: true,
+    matchmaking: 'fifo',
   },
   {
     id: 'stars_25',
     type: 'stars',
     entryFee: 25,
     maxPlayers: getMaxPlayers('stars'),
+    minPlayers: 2,
+    startCountdownSec: 30,
     rounds: 3,
     platformFee: 10,
+    scoring: { strategy: 'closest', params: { maxScore: 10, minScore: 1 } },
+    maxPressCompensationMs: 150,
+    enabled: true,
+    matchmaking: 'fifo',
   },
   {
     id: 'ton_0_1',
     type: 'ton',
     entryFee: 0.1,
     maxPlayers: getMaxPlayers('ton'),
+    minPlayers: 2,
+    startCountdownSec: 30,
     rounds: 3,
     platformFee: 10,
+    scoring: { strategy: 'closest', params: { maxScore: 10, minScore: 1 } },
+    maxPressCompensationMs: 150,
+    enabled: true,
+    matchmaking: 'fifo',
   },
 ];
 
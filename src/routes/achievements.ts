@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { achievementService } from '../services/AchievementService.js';
+
+const router = Router();
+
+/**
+ * GET /api/achievements
+ * Get the achievement catalogue (unlocks are part of /api/players/:playerId/profile)
+ */
+router.get('/', (_req, res) => {
+  res.json({ achievements: achievementService.getDefinitions() });
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router, Response } from 'express';
+import { escrowReconciliationService, ReconciliationValidationError } from '../services/EscrowReconciliationService.js';
+import { requireAdmin } from '../utils/adminAuth.js';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+/**
+ * GET /api/admin/reconcile
+ * Compare escrow contract rooms with the database for every waiting or playing TON match
+ */
+router.get('/', async (req, res) => {
+  try {
+    const reports = await escrowReconciliationService.reconcileOpenMatches();
+    res.json({ reports });
+  } catch (error) {
+    console.error('Admin reconcile error:', error);
+    res.status(500).json({ error: 'Failed to reconcile escrow rooms' });
+  }
+});
+
+/**
+ * GET /api/admin/reconcile/:matchId
+ * Compare the match's escrow contract room with the database
+ */
+router.get('/:matchId', async (req, res) => {
+  await reconcile(req.params.matchId, false, res);
+});
+
+/**
+ * POST /api/admin/reconcile/:matchId
+ * Compare and repair: intents of deposits found on-chain but not recorded are marked PAID
+ * (expired intents are refunded)
+ */
+router.post('/:matchId', async (req, res) => {
+  await reconcile(req.params.matchId, true, res);
+});
+
+async function reconcile(matchId: string, repair: boolean, res: Response): Promise<void> {
+  try {
+    const report = await escrowReconciliationService.reconcileMatch(matchId, repair);
+    if (!report) {
+      res.status(404).json({ error: 'Match not found' });
+      return;
+    }
+    res.json({ report });
+  } catch (error) {
+    console.error('Admin reconcile match error:', error);
+
+    if (error instanceof ReconciliationValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to reconcile match' });
+  }
+}
+
+export default router;
@@ -0,0 +1,98 @@
+import { Router } from 'express';
+import { RoomPresetConflictError, RoomPresetValidationError, roomPresetService } from '../services/RoomPresetService.js';
+import { requireAdmin } from '../utils/adminAuth.js';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+/**
+ * GET /api/admin/rooms
+ * Get all room presets, including disabled ones
+ */
+router.get('/', (req, res) => {
+  try {
+    res.json({ rooms: roomPresetService.getAllPresets() });
+  } catch (error) {
+    console.error('Admin get rooms error:', error);
+    res.status(500).json({ error: 'Failed to get rooms' });
+  }
+});
+
+/**
+ * POST /api/admin/rooms
+ * Create room preset
+ * Body: { id, type, entryFee, maxPlayers, minPlayers?, startCountdownSec?, rounds?, platformFee?, scoring?, maxPressCompensationMs?, matchmaking?, enabled? }
+ */
+router.post('/', async (req, res) => {
+  try {
+    const room = await roomPresetService.createPreset(req.body || {});
+    res.status(201).json({ room });
+  } catch (error) {
+    console.error('Admin create room error:', error);
+
+    if (error instanceof RoomPresetValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to create room' });
+  }
+});
+
+/**
+ * PATCH /api/admin/rooms/:id
+ * Update room preset (type cannot be changed; entryFee, maxPlayers and rounds only without active matches)
+ * Body: any of { entryFee, maxPlayers, minPlayers, startCountdownSec, rounds, platformFee, scoring, maxPressCompensationMs, matchmaking, enabled }
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const room = await roomPresetService.updatePreset(req.params.id, req.body || {});
+    if (!room) {
+      res.status(404).json({ error: 'Room preset not found' });
+      return;
+    }
+
+    res.json({ room });
+  } catch (error) {
+    console.error('Admin update room error:', error);
+
+    if (error instanceof RoomPresetValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    if (error instanceof RoomPresetConflictError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to update room' });
+  }
+});
+
+/**
+ * DELETE /api/admin/rooms/:id
+ * Delete room preset (only if it has no active matches)
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await roomPresetService.deletePreset(req.params.id);
+    if (!deleted) {
+      res.status(404).json({ error: 'Room preset not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Admin delete room error:', error);
+
+    if (error instanceof RoomPresetConflictError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to delete room' });
+  }
+});
+
+export default router;
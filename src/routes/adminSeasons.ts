@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { seasonService } from '../services/SeasonService.js';
+import { requireAdmin } from '../utils/adminAuth.js';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+/**
+ * POST /api/admin/seasons
+ * Create leaderboard season (must not overlap existing seasons)
+ * Body: { name, startsAt, endsAt }
+ */
+router.post('/', async (req, res) => {
+  try {
+    const season = await seasonService.createSeason(req.body || {});
+    res.status(201).json({ season });
+  } catch (error) {
+    console.error('Admin create season error:', error);
+
+    if (error instanceof Error) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to create season' });
+  }
+});
+
+export default router;
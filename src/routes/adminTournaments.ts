@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { tournamentService } from '../services/TournamentService.js';
+import { requireAdmin } from '../utils/adminAuth.js';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+/**
+ * POST /api/admin/tournaments
+ * Create tournament
+ * Body: { name, format, currency, entryFee, presetId, matchSize, maxPlayers, registrationClosesAt,
+ *         registrationOpensAt?, minPlayers?, advancePerMatch?, swissRounds?, prizeTable?, platformFee? }
+ */
+router.post('/', async (req, res) => {
+  try {
+    const tournament = await tournamentService.createTournament(req.body || {});
+    res.status(201).json({ tournament });
+  } catch (error) {
+    console.error('Admin create tournament error:', error);
+
+    if (error instanceof Error) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to create tournament' });
+  }
+});
+
+export default router;
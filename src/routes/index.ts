@@ -4,6 +4,15 @@ import leaderboardRouter from './leaderboard.js';
 import paymentsRouter from './payments.js';
 import walletRouter from './wallet.js';
 import joinIntentRouter from './joinIntent.js';
+import matchesRouter from './matches.js';
+import adminRoomsRouter from './adminRooms.js';
+import playersRouter from './players.js';
+import tournamentsRouter from './tournaments.js';
+import achievementsRouter from './achievements.js';
+import questsRouter from './quests.js';
+import adminTournamentsRouter from './adminTournaments.js';
+import adminSeasonsRouter from './adminSeasons.js';
+import adminReconcileRouter from './adminReconcile.js';
 
 const router = Router();
 
@@ -12,6 +21,15 @@ router.use('/rooms', roomsRouter);
 router.use('/leaderboard', leaderboardRouter);
 router.use('/payments', paymentsRouter);
 router.use('/wallet', walletRouter);
+router.use('/matches', matchesRouter);
+router.use('/players', playersRouter);
+router.use('/tournaments', tournamentsRouter);
+router.use('/achievements', achievementsRouter);
+router.use('/quests', questsRouter);
+router.use('/admin/rooms', adminRoomsRouter);
+router.use('/admin/tournaments', adminTournamentsRouter);
+router.use('/admin/seasons', adminSeasonsRouter);
+router.use('/admin/reconcile', adminReconcileRouter);
 router.use('/', joinIntentRouter); // Join intent routes are at root level (e.g., /api/rooms/ton/join-intent)
 // router.use('/match', matchRouter);
 
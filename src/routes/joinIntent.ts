@@ -1,25 +1,36 @@
 import { Router } from 'express';
 import { joinIntentService } from '../services/JoinIntentService.js';
-import { parseTelegramUser } from '../utils/telegram.js';
+import { parseTelegramUser, buildInviteLink } from '../utils/telegram.js';
+import { roomPresetService } from '../services/RoomPresetService.js';
 
 const router = Router();
 
 /**
  * POST /api/rooms/:roomType/join-intent
  * Create join intent for TON room
- * Body: { initData?, userId?, userName?, walletAddress, walletNetwork }
+ * Body: { presetId?, inviteCode?, private?, minPlayers?, initData?, userId?, userName?, walletAddress, walletNetwork }
+ * Without presetId the default TON preset is used.
+ * inviteCode joins a private match (its preset is used), private: true creates one.
  * Wallet from frontend (TON Connect) - no backend verification needed.
+ * With a managed contract room paymentParams is null until the room is open (poll GET /api/join-intent/:id).
  */
 router.post('/rooms/:roomType/join-intent', async (req, res) => {
   try {
     const { roomType } = req.params;
-    const { initData, userId, userName, walletAddress, walletNetwork } = req.body;
+    const { presetId, inviteCode, minPlayers, initData, userId, userName, walletAddress, walletNetwork } = req.body;
+    const createPrivate = req.body.private === true;
 
     if (roomType !== 'ton') {
       res.status(400).json({ error: 'Join intent is only available for TON rooms' });
       return;
     }
 
+    const preset = presetId ? roomPresetService.getPreset(presetId) : roomPresetService.getDefaultPreset('ton');
+    if (!preset || preset.type !== 'ton') {
+      res.status(404).json({ error: `TON room preset not found: ${presetId}` });
+      return;
+    }
+
     if (!walletAddress || !walletNetwork) {
       res.status(400).json({ error: 'Wallet address and network required. Connect your TON wallet first.' });
       return;
@@ -51,23 +62,29 @@ router.post('/rooms/:roomType/join-intent', async (req, res) => {
       return;
     }
 
-    const { intent, paymentParams } = await joinIntentService.createJoinIntent(
+    const result = await joinIntentService.createJoinIntent(
       playerId,
       playerName,
-      'ton',
+      preset.id,
       walletAddress,
-      walletNetwork
+      walletNetwork,
+      { inviteCode, createPrivate, minPlayers }
     );
+    const { intent, room, paymentParams } = result;
 
     res.json({
       intent: {
         id: intent.id,
         status: intent.status,
         expiresAt: intent.expiresAt.toISOString(),
+        presetId: intent.presetId,
         stake: intent.stake,
         nonce: intent.nonce,
       },
+      room,
       paymentParams,
+      inviteCode: result.inviteCode || null,
+      inviteLink: result.inviteCode ? buildInviteLink(result.inviteCode) : null,
     });
   } catch (error) {
     console.error('Create join intent error:', error);
@@ -83,8 +100,8 @@ router.post('/rooms/:roomType/join-intent', async (req, res) => {
 
 /**
  * GET /api/join-intent/:id
- * Get join intent status
- * Response: { intent: { id, status, expiresAt, paidAt, ... } }
+ * Get join intent status with the on-chain status of its room
+ * Response: { intent: { id, status, expiresAt, paidAt, ... }, room: { onChainRoomId, status, ... } | null, paymentParams }
  */
 router.get('/join-intent/:id', async (req, res) => {
   try {
@@ -97,15 +114,20 @@ router.get('/join-intent/:id', async (req, res) => {
       return;
     }
 
+    const room = await joinIntentService.getEscrowRoom(intent);
+
     res.json({
       intent: {
         id: intent.id,
         status: intent.status,
         expiresAt: intent.expiresAt.toISOString(),
+        presetId: intent.presetId,
         stake: intent.stake,
         paidAt: intent.paidAt?.toISOString() || null,
         roomId: intent.roomId,
       },
+      room,
+      paymentParams: joinIntentService.getPaymentParamsForRoom(intent, room),
     });
   } catch (error) {
     console.error('Get join intent error:', error);
@@ -1,27 +1,99 @@
 import { Router } from 'express';
-import { playerStatsService } from '../services/PlayerStats.js';
+import { LeaderboardWindow, MatchLeaderboardType, playerStatsService } from '../services/PlayerStats.js';
+import { seasonService } from '../services/SeasonService.js';
+import { RoomType } from '../types/game';
 
 const router = Router();
 
+const ROOM_TYPES: RoomType[] = ['free', 'stars', 'ton'];
+const WINDOWS: LeaderboardWindow[] = ['day', 'week', 'month', 'all'];
+
 /**
  * GET /api/leaderboard
  * Get leaderboard
  * Query params:
- * - type: 'wins' | 'score' | 'winrate' (default: 'wins')
+ * - type: 'wins' | 'score' | 'winrate' | 'rating' | 'earnings' (default: 'wins')
  * - limit: number (default: 100)
+ * - cursor: nextCursor of the previous page (lifetime winrate only)
+ * - season: season ID or 'current' (optional, lifetime stats by default; rating is not seasonal)
+ * - roomType: 'free' | 'stars' | 'ton', window: 'day' | 'week' | 'month' | 'all' (optional)
+ *   Either one switches to stats aggregated from finished matches; earnings needs roomType stars or ton
  */
 router.get('/', async (req, res) => {
   try {
     const type = (req.query.type as string) || 'wins';
     const limit = parseInt(req.query.limit as string) || 100;
+    const seasonId = req.query.season as string | undefined;
+    const roomType = req.query.roomType as RoomType | undefined;
+    const window = req.query.window as LeaderboardWindow | undefined;
+
+    if (seasonId) {
+      if (roomType || window) {
+        res.status(400).json({ error: 'Season leaderboard cannot be filtered by roomType or window' });
+        return;
+      }
+      if (type === 'rating') {
+        res.status(400).json({ error: 'Rating leaderboard is not seasonal' });
+        return;
+      }
+
+      const season = await seasonService.getSeason(seasonId);
+      if (!season) {
+        res.status(404).json({ error: 'Season not found' });
+        return;
+      }
+
+      const seasonType = type === 'score' || type === 'winrate' ? type : 'wins';
+      const leaderboard = await playerStatsService.getSeasonLeaderboard(season.id, seasonType, limit);
+      res.json({ leaderboard, type: seasonType, limit, season });
+      return;
+    }
+
+    if (roomType || window || type === 'earnings') {
+      if (roomType && !ROOM_TYPES.includes(roomType)) {
+        res.status(400).json({ error: `roomType must be one of: ${ROOM_TYPES.join(', ')}` });
+        return;
+      }
+      if (window && !WINDOWS.includes(window)) {
+        res.status(400).json({ error: `window must be one of: ${WINDOWS.join(', ')}` });
+        return;
+      }
+      if (type === 'rating') {
+        res.status(400).json({ error: 'Rating leaderboard cannot be filtered by roomType or window' });
+        return;
+      }
+      if (type === 'earnings' && roomType !== 'stars' && roomType !== 'ton') {
+        res.status(400).json({ error: 'Earnings leaderboard requires roomType stars or ton' });
+        return;
+      }
+
+      const matchLimit = Math.max(1, Math.min(limit, 100)); // Aggregated on every request
+      const matchType: MatchLeaderboardType =
+        type === 'score' || type === 'winrate' || type === 'earnings' ? type : 'wins';
+      const leaderboard = await playerStatsService.getMatchLeaderboard({
+        type: matchType,
+        roomType,
+        window: window || 'all',
+        limit: matchLimit,
+      });
+      res.json({ leaderboard, type: matchType, limit: matchLimit, roomType: roomType || null, window: window || 'all' });
+      return;
+    }
 
     let leaderboard;
     switch (type) {
       case 'score':
         leaderboard = await playerStatsService.getLeaderboardByScore(limit);
         break;
-      case 'winrate':
-        leaderboard = await playerStatsService.getLeaderboardByWinRate(limit);
+      case 'winrate': {
+        // Paginated: pass nextCursor back as cursor for the next page
+        const pageLimit = Math.max(1, Math.min(limit, 100));
+        const page = await playerStatsService.getLeaderboardByWinRate(pageLimit, (req.query.cursor as string) || undefined);
+        res.json({ ...page, type, limit: pageLimit });
+        return;
+      }
+      case 'rating':
+        leaderboard = await playerStatsService.getLeaderboardByRating(limit);
         break;
       case 'wins':
       default:
@@ -36,6 +108,39 @@ router.get('/', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/leaderboard/seasons
+ * List leaderboard seasons, newest first
+ */
+router.get('/seasons', async (_req, res) => {
+  try {
+    const seasons = await seasonService.listSeasons();
+    res.json({ seasons });
+  } catch (error) {
+    console.error('List seasons error:', error);
+    res.status(500).json({ error: 'Failed to list seasons' });
+  }
+});
+
+/**
+ * GET /api/leaderboard/:playerId/rank
+ * Player's position on the win rate leaderboard
+ */
+router.get('/:playerId/rank', async (req, res) => {
+  try {
+    const rank = await playerStatsService.getWinRateRank(req.params.playerId);
+    if (!rank) {
+      res.status(404).json({ error: 'Player not found' });
+      return;
+    }
+
+    res.json({ ...rank, type: 'winrate' });
+  } catch (error) {
+    console.error('Get player rank error:', error);
+    res.status(500).json({ error: 'Failed to get player rank' });
+  }
+});
+
 /**
  * GET /api/leaderboard/:playerId
  * Get player stats
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { fairnessService } from '../services/FairnessService.js';
+import { matchmaker } from '../services/Matchmaker.js';
+import { matchService } from '../services/MatchService.js';
+import { roomPresetService } from '../services/RoomPresetService.js';
+import { spectatorService } from '../services/SpectatorService.js';
+
+const router = Router();
+
+/**
+ * GET /api/matches/live
+ * List public matches currently being played, with spectator counts
+ * Response: { matches: [{ id, presetId, roomType, players, currentRound, rounds, startedAt, spectators }] }
+ */
+router.get('/live', (req, res) => {
+  try {
+    const matches = matchmaker.getLiveMatches().map((match) => ({
+      id: match.id,
+      presetId: match.presetId,
+      roomType: match.roomType,
+      players: match.players.length,
+      currentRound: match.currentRound,
+      rounds: roomPresetService.getPresetForMatch(match)?.rounds,
+      startedAt: match.startedAt,
+      spectators: spectatorService.getSpectatorCount(match.id),
+    }));
+
+    res.json({ matches });
+  } catch (error) {
+    console.error('Get live matches error:', error);
+    res.status(500).json({ error: 'Failed to get live matches' });
+  }
+});
+
+/**
+ * GET /api/matches/:id
+ * Get match with round-by-round replay (results and press events of finished rounds)
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const match = await matchService.getMatchReplay(req.params.id);
+    if (!match) {
+      res.status(404).json({ error: 'Match not found' });
+      return;
+    }
+
+    res.json({ match });
+  } catch (error) {
+    console.error('Get match error:', error);
+    res.status(500).json({ error: 'Failed to get match' });
+  }
+});
+
+/**
+ * GET /api/matches/:id/fairness
+ * Get round end time commitments and reveals for a match
+ * Unrevealed rounds only include the commitment
+ * Response: { matchId, rounds: [{ roundNumber, commitment, revealed, seed?, endTime?, verified?, ... }] }
+ */
+router.get('/:id/fairness', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const rounds = await fairnessService.getMatchFairness(id);
+
+    if (rounds.length === 0 && !matchmaker.getMatch(id)) {
+      res.status(404).json({ error: 'Match not found' });
+      return;
+    }
+
+    res.json({
+      matchId: id,
+      algorithm: {
+        commitment: 'sha256(`${seed}:${endTime}`)',
+        endTime: 'minEndTime + uint32be(sha256(seed)[0..4]) mod (maxEndTime - minEndTime + 1)',
+      },
+      rounds,
+    });
+  } catch (error) {
+    console.error('Get match fairness error:', error);
+    res.status(500).json({ error: 'Failed to get match fairness data' });
+  }
+});
+
+export default router;
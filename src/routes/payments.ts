@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import { paymentService } from '../services/PaymentService.js';
 import { matchmaker } from '../services/Matchmaker.js';
-import { ROOM_PRESETS } from '../constants/rooms.js';
+import { roomPresetService } from '../services/RoomPresetService.js';
+import { tournamentService } from '../services/TournamentService.js';
 
 const router = Router();
 
@@ -109,27 +110,48 @@ router.get('/player/:playerId', async (req, res) => {
 
 /**
  * POST /api/payments/create-entry
- * Create entry payment for joining paid room
- * Body: { playerId, playerName, roomType }
+ * Create entry payment for joining paid room or registering for a tournament
+ * Body: { playerId, playerName, presetId } or { playerId, playerName, tournamentId }
+ * (legacy: roomType instead of presetId)
  */
 router.post('/create-entry', async (req, res) => {
   try {
-    const { playerId, playerName, roomType } = req.body;
+    const { playerId, playerName, presetId, tournamentId } = req.body;
 
-    if (!playerId || !playerName || !roomType) {
-      res.status(400).json({ error: 'Missing required fields: playerId, playerName, roomType' });
+    if (!playerId || !playerName || (!presetId && !tournamentId && !req.body.roomType)) {
+      res.status(400).json({ error: 'Missing required fields: playerId, playerName, presetId' });
       return;
     }
 
-    if (roomType !== 'stars' && roomType !== 'ton') {
-      res.status(400).json({ error: 'Invalid roomType. Must be "stars" or "ton"' });
-      return;
+    let roomType;
+    let entryFee: number;
+    let description: string;
+    if (tournamentId) {
+      // Tournament entry fee
+      const details = await tournamentService.getTournament(tournamentId);
+      if (!details || details.tournament.status !== 'registration') {
+        res.status(404).json({ error: `Tournament not found or registration closed: ${tournamentId}` });
+        return;
+      }
+      roomType = details.tournament.currency;
+      entryFee = details.tournament.entryFee;
+      description = `Register for ${details.tournament.name} in LAST Game`;
+    } else {
+      // Find room preset
+      const preset = presetId
+        ? roomPresetService.getPreset(presetId)
+        : roomPresetService.getDefaultPreset(req.body.roomType);
+      if (!preset || !preset.enabled) {
+        res.status(404).json({ error: `Room preset not found: ${presetId || req.body.roomType}` });
+        return;
+      }
+      roomType = preset.type;
+      entryFee = preset.entryFee;
+      description = `Join ${roomType} room in LAST Game`;
     }
 
-    // Find room preset
-    const preset = ROOM_PRESETS.find((p) => p.type === roomType);
-    if (!preset) {
-      res.status(404).json({ error: `Room preset not found for type: ${roomType}` });
+    if (roomType !== 'stars' && roomType !== 'ton') {
+      res.status(400).json({ error: 'Invalid room. Entry payments are only for "stars" or "ton" rooms' });
       return;
     }
 
@@ -138,7 +160,7 @@ router.post('/create-entry', async (req, res) => {
       playerId,
       playerName,
       roomType,
-      preset.entryFee
+      entryFee
     );
 
     // For Telegram Stars: Create invoice link via Bot API
@@ -153,12 +175,12 @@ router.post('/create-entry', async (req, res) => {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
-              title: `Entry fee: ${preset.entryFee} Stars`,
-              description: `Join ${roomType} room in LAST Game`,
+              title: `Entry fee: ${entryFee} Stars`,
+              description,
               payload: paymentId, // Use paymentId as payload for verification
               provider_token: '', // Not needed for Stars
               currency: 'XTR', // Telegram Stars currency code
-              prices: [{ label: 'Entry fee', amount: preset.entryFee * 100 }], // Amount in cents/units
+              prices: [{ label: 'Entry fee', amount: entryFee * 100 }], // Amount in cents/units
             }),
           });
 
@@ -178,7 +200,7 @@ router.post('/create-entry', async (req, res) => {
     res.json({
       paymentId,
       signature,
-      amount: preset.entryFee,
+      amount: entryFee,
       currency: roomType,
       invoiceUrl, // For Stars: URL to open invoice, for TON: null (use wallet)
     });
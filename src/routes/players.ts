@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { matchService } from '../services/MatchService.js';
+import { playerProfileService } from '../services/PlayerProfileService.js';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * GET /api/players/:playerId/matches
+ * Get finished matches of a player (newest first) with round-by-round replays
+ * Query params:
+ * - limit: number (default: 10, max: 50)
+ * - offset: number (default: 0)
+ */
+router.get('/:playerId/matches', async (req, res) => {
+  try {
+    const { playerId } = req.params;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const { matches, total } = await matchService.getPlayerMatches(playerId, limit, offset);
+
+    res.json({ matches, total, limit, offset });
+  } catch (error) {
+    console.error('Get player matches error:', error);
+    res.status(500).json({ error: 'Failed to get player matches' });
+  }
+});
+
+/**
+ * GET /api/players/:playerId/profile
+ * Get player profile: lifetime stats, press accuracy, round positions, win streaks,
+ * favourite room type, wagered and won amounts per currency, avatar
+ */
+router.get('/:playerId/profile', async (req, res) => {
+  try {
+    const profile = await playerProfileService.getProfile(req.params.playerId);
+    if (!profile) {
+      res.status(404).json({ error: 'Player not found' });
+      return;
+    }
+
+    res.json({ profile });
+  } catch (error) {
+    console.error('Get player profile error:', error);
+    res.status(500).json({ error: 'Failed to get player profile' });
+  }
+});
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { questService } from '../services/QuestService.js';
+import { paymentService } from '../services/PaymentService.js';
+
+const router = Router();
+
+/**
+ * GET /api/quests?playerId=
+ * Get daily and weekly quests of the current periods with the player's progress
+ * and free-room bonus currency balance
+ */
+router.get('/', async (req, res) => {
+  try {
+    const playerId = req.query.playerId as string | undefined;
+    if (!playerId) {
+      res.status(400).json({ error: 'playerId is required' });
+      return;
+    }
+
+    const [quests, bonusBalance] = await Promise.all([
+      questService.getQuests(playerId),
+      paymentService.getBonusBalance(playerId),
+    ]);
+
+    res.json({ quests, bonusBalance });
+  } catch (error) {
+    console.error('Get quests error:', error);
+    res.status(500).json({ error: 'Failed to get quests' });
+  }
+});
+
+export default router;
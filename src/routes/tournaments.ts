@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { tournamentService } from '../services/TournamentService.js';
+
+const router = Router();
+
+/**
+ * GET /api/tournaments
+ * List tournaments (newest registration deadline first)
+ * Query params:
+ * - status: 'registration' | 'running' | 'finished' | 'cancelled' (optional)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    const tournaments = await tournamentService.listTournaments(status);
+    res.json({ tournaments });
+  } catch (error) {
+    console.error('Get tournaments error:', error);
+    res.status(500).json({ error: 'Failed to get tournaments' });
+  }
+});
+
+/**
+ * GET /api/tournaments/:id
+ * Get tournament with entries (standings), stage matches and prize pool
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const details = await tournamentService.getTournament(req.params.id);
+    if (!details) {
+      res.status(404).json({ error: 'Tournament not found' });
+      return;
+    }
+
+    res.json(details);
+  } catch (error) {
+    console.error('Get tournament error:', error);
+    res.status(500).json({ error: 'Failed to get tournament' });
+  }
+});
+
+/**
+ * POST /api/tournaments/:id/register
+ * Register for a tournament with a paid entry payment
+ * (created via POST /api/payments/create-entry { tournamentId })
+ * Body: { playerId, playerName, paymentId, paymentSignature }
+ */
+router.post('/:id/register', async (req, res) => {
+  try {
+    const { playerId, playerName, paymentId, paymentSignature } = req.body;
+
+    if (!playerId || !playerName || !paymentId || !paymentSignature) {
+      res.status(400).json({ error: 'Missing required fields: playerId, playerName, paymentId, paymentSignature' });
+      return;
+    }
+
+    const entry = await tournamentService.register(req.params.id, playerId, playerName, paymentId, paymentSignature);
+    res.status(201).json({ entry });
+  } catch (error) {
+    console.error('Tournament register error:', error);
+
+    if (error instanceof Error) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to register for tournament' });
+  }
+});
+
+export default router;
@@ -8,6 +8,14 @@ import { dirname, join } from 'path';
 import routes from './routes/index.js';
 import { setupSocketHandlers } from './sockets/index.js';
 import { blockchainWorker } from './workers/blockchainWorker.js';
+import { refundWorker } from './workers/refundWorker.js';
+import { escrowOutboxWorker } from './workers/escrowOutboxWorker.js';
+import { roundScheduler } from './services/RoundScheduler.js';
+import { roomPresetService } from './services/RoomPresetService.js';
+import { matchmaker } from './services/Matchmaker.js';
+import { tournamentService } from './services/TournamentService.js';
+import { seasonService } from './services/SeasonService.js';
+import { escrowReconciliationService } from './services/EscrowReconciliationService.js';
 
 // Load .env from backend directory or root directory
 const __filename = fileURLToPath(import.meta.url);
@@ -54,14 +62,47 @@ httpServer.listen(PORT, async () => {
   console.log(`📡 WebSocket server ready`);
   console.log(`🌐 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:3000'}`);
   
+  // Load room catalogue (matches look presets up by id)
+  await roomPresetService.load();
+
+  // Resume matches that were playing when the process stopped
+  await roundScheduler.recover();
+
+  // Resume TON matches that were waiting for their escrow room lock
+  await matchmaker.restoreLockingMatches();
+
+  // Start matchmaking queue (status updates and timeouts of waiting matches, room locks of TON matches)
+  matchmaker.startQueue();
+
+  // Start tournament checks (registration deadlines, stage progress)
+  tournamentService.start();
+
+  // Start archiving standings of ended leaderboard seasons
+  seasonService.start();
+
   // Start blockchain worker (async to load lastCheckedLt from DB)
   await blockchainWorker.start(io);
+
+  // Start sending queued escrow contract operations (the only user of the admin wallet)
+  escrowOutboxWorker.start();
+
+  // Start sending refunds created for TON deposits
+  refundWorker.start(io);
+
+  // Start reconciling escrow contract rooms with the database
+  escrowReconciliationService.start();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully...');
   blockchainWorker.stop();
+  refundWorker.stop();
+  escrowOutboxWorker.stop();
+  escrowReconciliationService.stop();
+  matchmaker.stopQueue();
+  tournamentService.stop();
+  seasonService.stop();
   httpServer.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -71,6 +112,12 @@ process.on('SIGTERM', () => {
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully...');
   blockchainWorker.stop();
+  refundWorker.stop();
+  escrowOutboxWorker.stop();
+  escrowReconciliationService.stop();
+  matchmaker.stopQueue();
+  tournamentService.stop();
+  seasonService.stop();
   httpServer.close(() => {
     console.log('Server closed');
     process.exit(0);
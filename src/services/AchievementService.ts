@@ -0,0 +1,145 @@
+import { AchievementDefinition, Match, Player, RoomType, UnlockedAchievement } from '../types/game';
+import { prisma } from '../db/prisma.js';
+import { ACHIEVEMENTS } from '../constants/achievements.js';
+import { AchievementContext, MatchCounters, findUnlocked, maxStreakRequired } from '../utils/achievements.js';
+
+/**
+ * Service for player achievements
+ * Evaluated once per finished match, after the match is saved (counters include it)
+ */
+export class AchievementService {
+  /**
+   * Get the achievement catalogue
+   */
+  getDefinitions(): AchievementDefinition[] {
+    return ACHIEVEMENTS;
+  }
+
+  /**
+   * Get achievements unlocked by a player, oldest first
+   * Unlocks of achievements removed from the catalogue are skipped
+   */
+  async getPlayerAchievements(playerId: string): Promise<UnlockedAchievement[]> {
+    const unlocks = await prisma.playerAchievement.findMany({
+      where: { playerId },
+      orderBy: { unlockedAt: 'asc' },
+    });
+
+    const definitions = new Map(ACHIEVEMENTS.map((definition) => [definition.id, definition]));
+    return unlocks
+      .filter((unlock: any) => definitions.has(unlock.achievementId))
+      .map((unlock: any) => ({
+        ...definitions.get(unlock.achievementId)!,
+        matchId: unlock.matchId || undefined,
+        unlockedAt: unlock.unlockedAt,
+      }));
+  }
+
+  /**
+   * Evaluate achievements of all players of a finished match and persist new unlocks
+   * @returns playerId -> newly unlocked achievements (players without unlocks are omitted)
+   */
+  async evaluateMatch(match: Match, players: Player[]): Promise<Map<string, UnlockedAchievement[]>> {
+    const unlockedByPlayer = new Map<string, UnlockedAchievement[]>();
+
+    for (const player of players) {
+      try {
+        const unlocked = await this.evaluatePlayer(match, player);
+        if (unlocked.length > 0) {
+          unlockedByPlayer.set(player.id, unlocked);
+        }
+      } catch (error) {
+        console.error(`❌ Error evaluating achievements of player ${player.id} in match ${match.id}:`, error);
+      }
+    }
+
+    return unlockedByPlayer;
+  }
+
+  private async evaluatePlayer(match: Match, player: Player): Promise<UnlockedAchievement[]> {
+    const existing = await prisma.playerAchievement.findMany({
+      where: { playerId: player.id },
+      select: { achievementId: true },
+    });
+    const unlockedIds = new Set<string>(existing.map((unlock: any) => unlock.achievementId));
+    if (ACHIEVEMENTS.every((definition) => unlockedIds.has(definition.id))) {
+      return [];
+    }
+
+    const context = await this.buildContext(match, player);
+    const newlyUnlocked = findUnlocked(ACHIEVEMENTS, unlockedIds, context);
+    if (newlyUnlocked.length === 0) {
+      return [];
+    }
+
+    // skipDuplicates keeps concurrent evaluations from failing on the unique key
+    const unlockedAt = new Date();
+    await prisma.playerAchievement.createMany({
+      data: newlyUnlocked.map((definition) => ({
+        playerId: player.id,
+        achievementId: definition.id,
+        matchId: match.id,
+        unlockedAt,
+      })),
+      skipDuplicates: true,
+    });
+
+    console.log(`🏅 Player ${player.id} unlocked ${newlyUnlocked.map((definition) => definition.id).join(', ')} in match ${match.id}`);
+    return newlyUnlocked.map((definition) => ({ ...definition, matchId: match.id, unlockedAt }));
+  }
+
+  /**
+   * Build rule context from the finished match and the player's match history
+   */
+  private async buildContext(match: Match, player: Player): Promise<AchievementContext> {
+    const streakLength = maxStreakRequired(ACHIEVEMENTS);
+    const [counterRows, recent] = await Promise.all([
+      prisma.$queryRawUnsafe(
+        `SELECT m."roomType", COUNT(*)::int AS "played", COUNT(*) FILTER (WHERE mp."isWinner")::int AS "wins"
+        FROM "match_players" mp
+        JOIN "matches" m ON m."id" = mp."matchId"
+        WHERE mp."playerId" = $1 AND m."status" = 'finished'
+        GROUP BY m."roomType"`,
+        player.id
+      ),
+      streakLength > 0
+        ? prisma.matchPlayer.findMany({
+          where: { playerId: player.id, match: { status: 'finished' } },
+          select: { isWinner: true },
+          orderBy: { match: { finishedAt: 'desc' } },
+          take: streakLength,
+        })
+        : Promise.resolve([]),
+    ]);
+
+    const total: MatchCounters = { played: 0, wins: 0 };
+    const byRoomType: AchievementContext['byRoomType'] = {};
+    for (const row of counterRows as any[]) {
+      byRoomType[row.roomType as RoomType] = { played: row.played, wins: row.wins };
+      total.played += row.played;
+      total.wins += row.wins;
+    }
+
+    let currentStreak = 0;
+    for (const matchPlayer of recent as any[]) {
+      if (!matchPlayer.isWinner) break;
+      currentStreak++;
+    }
+
+    const presses = match.roundResults.map((round) => ({
+      endTime: round.endTime,
+      pressTime: round.players.find((p) => p.id === player.id)?.pressTime,
+    }));
+
+    return {
+      presses,
+      matchScore: player.score || 0,
+      currentStreak,
+      total,
+      byRoomType,
+    };
+  }
+}
+
+// Singleton instance
+export const achievementService = new AchievementService();
@@ -0,0 +1,178 @@
+export interface ClockSample {
+  offset: number; // client clock - server clock (ms)
+  rtt: number; // round-trip time (ms)
+  at: number; // server time when sample was taken
+}
+
+export interface ClockEstimate {
+  offset: number;
+  rtt: number;
+  samples: number;
+}
+
+export interface ResolvedPress {
+  pressedAt: number; // server timestamp used for the press
+  compensationMs: number; // how much earlier than arrival the press was placed
+  compensated: boolean;
+  reason?: string; // why client timestamp was not used
+}
+
+const MAX_SAMPLES = 8; // Keep last N samples per socket
+const PING_TIMEOUT_MS = 10000; // Drop pings without pong after this time
+const CLOCK_TOLERANCE_MS = 15; // Allowed error of the offset estimate
+
+/**
+ * NTP-style clock synchronization per socket
+ * Server sends clock:ping { id, serverTime }, client replies clock:pong { id, clientTime }
+ * offset = clientTime - (serverSendTime + rtt / 2)
+ * The sample with the lowest RTT is used as the estimate (least affected by queuing)
+ */
+export class ClockSyncService {
+  private samples: Map<string, ClockSample[]> = new Map(); // socketId -> samples
+  private pendingPings: Map<string, Map<number, number>> = new Map(); // socketId -> pingId -> sentAt
+  private nextPingId = 1;
+
+  /**
+   * Create a ping for a socket
+   */
+  createPing(socketId: string, now: number = Date.now()): { id: number; serverTime: number } {
+    const id = this.nextPingId++;
+    let pending = this.pendingPings.get(socketId);
+    if (!pending) {
+      pending = new Map();
+      this.pendingPings.set(socketId, pending);
+    }
+
+    // Drop stale pings
+    for (const [pingId, sentAt] of pending) {
+      if (now - sentAt > PING_TIMEOUT_MS) {
+        pending.delete(pingId);
+      }
+    }
+
+    pending.set(id, now);
+    return { id, serverTime: now };
+  }
+
+  /**
+   * Handle pong from client and record a clock sample
+   * @returns recorded sample, or null if ping is unknown or reply is invalid
+   */
+  handlePong(socketId: string, pingId: number, clientTime: number, receivedAt: number = Date.now()): ClockSample | null {
+    const pending = this.pendingPings.get(socketId);
+    const sentAt = pending?.get(pingId);
+    if (!pending || sentAt === undefined || !Number.isFinite(clientTime)) {
+      return null;
+    }
+    pending.delete(pingId);
+
+    const rtt = receivedAt - sentAt;
+    if (rtt < 0 || rtt > PING_TIMEOUT_MS) {
+      return null;
+    }
+
+    const sample: ClockSample = {
+      offset: clientTime - (sentAt + rtt / 2),
+      rtt,
+      at: receivedAt,
+    };
+
+    const samples = this.samples.get(socketId) || [];
+    samples.push(sample);
+    if (samples.length > MAX_SAMPLES) {
+      samples.shift();
+    }
+    this.samples.set(socketId, samples);
+
+    return sample;
+  }
+
+  /**
+   * Get current clock estimate for a socket
+   */
+  getEstimate(socketId: string): ClockEstimate | null {
+    const samples = this.samples.get(socketId);
+    if (!samples || samples.length === 0) {
+      return null;
+    }
+
+    const best = samples.reduce((min, sample) => (sample.rtt < min.rtt ? sample : min));
+    return {
+      offset: best.offset,
+      rtt: best.rtt,
+      samples: samples.length,
+    };
+  }
+
+  /**
+   * Resolve press time from client timestamp
+   * Client timestamp is accepted only if, converted to server time, it lies between
+   * arrival time and arrival time minus the measured RTT (plus tolerance), capped by
+   * maxCompensationMs and not before notBefore. Otherwise arrival time is used.
+   * @param clientTime - press timestamp in client clock (ms)
+   * @param receivedAt - server time when press arrived
+   * @param maxCompensationMs - maximum compensation allowed for the room (0 disables)
+   * @param notBefore - earliest allowed server timestamp (e.g. round start)
+   */
+  resolvePressTime(
+    socketId: string,
+    clientTime: number | undefined,
+    receivedAt: number,
+    maxCompensationMs: number,
+    notBefore?: number
+  ): ResolvedPress {
+    const uncompensated = (reason: string): ResolvedPress => ({
+      pressedAt: receivedAt,
+      compensationMs: 0,
+      compensated: false,
+      reason,
+    });
+
+    if (maxCompensationMs <= 0) {
+      return uncompensated('compensation_disabled');
+    }
+
+    if (clientTime === undefined || !Number.isFinite(clientTime)) {
+      return uncompensated('no_client_time');
+    }
+
+    const estimate = this.getEstimate(socketId);
+    if (!estimate) {
+      return uncompensated('not_synced');
+    }
+
+    const estimatedPressAt = clientTime - estimate.offset;
+    const compensationMs = receivedAt - estimatedPressAt;
+
+    if (compensationMs < -CLOCK_TOLERANCE_MS) {
+      return uncompensated('client_time_in_future');
+    }
+
+    const maxAllowed = Math.min(maxCompensationMs, estimate.rtt + CLOCK_TOLERANCE_MS);
+    if (compensationMs > maxAllowed) {
+      return uncompensated('exceeds_rtt_bounds');
+    }
+
+    const pressedAt = receivedAt - Math.max(0, Math.round(compensationMs));
+    if (notBefore !== undefined && pressedAt < notBefore) {
+      return uncompensated('before_round_start');
+    }
+
+    return {
+      pressedAt,
+      compensationMs: receivedAt - pressedAt,
+      compensated: true,
+    };
+  }
+
+  /**
+   * Forget socket state (on disconnect)
+   */
+  removeSocket(socketId: string): void {
+    this.samples.delete(socketId);
+    this.pendingPings.delete(socketId);
+  }
+}
+
+// Singleton instance
+export const clockSyncService = new ClockSyncService();
@@ -11,6 +11,8 @@ import {
   bodyPayout,
   bodyRefund,
 } from './escrowOps.js';
+import type { EscrowOperation as EscrowOperationRow } from '../../generated/prisma/client.js';
+import { prisma } from '../db/prisma.js';
 
 export interface RoomState {
   status: number; // 0=OPEN, 1=LOCKED, 2=FINISHED, 3=CANCELED
@@ -26,6 +28,28 @@ export interface PayoutItem {
   amountNano: bigint;
 }
 
+export type EscrowOpType = 'create_room' | 'lock' | 'payout' | 'refund';
+
+// PENDING -> SENT (signed with seqno) -> CONFIRMED (wallet seqno advanced) | FAILED (out of attempts)
+export type EscrowOpStatus = 'PENDING' | 'SENT' | 'CONFIRMED' | 'FAILED';
+
+export interface EscrowOperation {
+  id: string;
+  opType: EscrowOpType;
+  roomId: bigint;
+  body: Cell;
+  value: bigint; // Gas attached to the message (nanotons)
+  idempotencyKey: string;
+  status: EscrowOpStatus;
+  seqno: number | null;
+  attempts: number;
+  lastError: string | null;
+  createdAt: Date;
+  sentAt: Date | null;
+  validUntil: Date | null;
+  confirmedAt: Date | null;
+}
+
 export class EscrowContractService {
   private client: TonClient;
   private escrowAddress: Address;
@@ -232,143 +256,65 @@ export class EscrowContractService {
 
   /**
    * Create a room in the escrow contract
-   * Requires admin wallet
+   * Requires admin wallet; queued in the escrow operations outbox
+   * @returns escrow operation ID
    */
   async createRoom(params: {
     roomId: bigint;
     entryNano: bigint;
     minPlayers: number;
     maxPlayers: number;
+    key?: string;
   }): Promise<string> {
-    if (!this.adminWallet) {
-      throw new Error('Admin wallet not initialized');
-    }
-
-    try {
-      const body = bodyCreateRoom({
-        roomId: params.roomId,
-        entryNano: params.entryNano,
-        minPlayers: params.minPlayers,
-        maxPlayers: params.maxPlayers,
-      });
-
-      // Send transaction
-      if (!this.adminSecretKey || !this.adminWallet) {
-        throw new Error('Admin wallet not initialized');
-      }
-      
-      // Open wallet with provider
-      const openedWallet = this.client.open(this.adminWallet);
-      const seqno = await openedWallet.getSeqno();
-      
-      const transfer = openedWallet.createTransfer({
-        secretKey: this.adminSecretKey,
-        seqno,
-        messages: [
-          internal({
-            to: this.escrowAddress,
-            value: toNano('0.05'), // Gas for contract call
-            body,
-            bounce: false,
-          }),
-        ],
-        sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-      });
-
-      await openedWallet.send(transfer);
-
-      // Wait for transaction to be processed
-      let currentSeqno = await openedWallet.getSeqno();
-      let attempts = 0;
-      while (currentSeqno === seqno && attempts < 30) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        currentSeqno = await openedWallet.getSeqno();
-        attempts++;
-      }
-
-      if (currentSeqno === seqno) {
-        throw new Error('Transaction timeout');
-      }
+    const body = bodyCreateRoom({
+      roomId: params.roomId,
+      entryNano: params.entryNano,
+      minPlayers: params.minPlayers,
+      maxPlayers: params.maxPlayers,
+    });
 
-      console.log(
-        `✅ Room ${params.roomId} created in contract (entry: ${fromNano(params.entryNano)} TON, min: ${params.minPlayers}, max: ${params.maxPlayers})`
-      );
+    const operationId = await this.enqueue({
+      opType: 'create_room',
+      roomId: params.roomId,
+      body,
+      value: toNano('0.05'), // Gas for contract call
+      key: params.key ?? `create_room:${params.roomId}`,
+    });
 
-      // Return transaction hash (we'll use seqno as identifier for now)
-      return `create_${params.roomId}_${seqno}`;
-    } catch (error) {
-      console.error(`❌ Error creating room ${params.roomId}:`, error);
-      throw error;
-    }
+    console.log(
+      `📝 Queued room ${params.roomId} creation (entry: ${fromNano(params.entryNano)} TON, min: ${params.minPlayers}, max: ${params.maxPlayers})`
+    );
+    return operationId;
   }
 
   /**
    * Lock a room in the escrow contract
-   * Requires admin wallet
+   * Requires admin wallet; queued in the escrow operations outbox
+   * @returns escrow operation ID
    */
-  async lockRoom(roomId: bigint): Promise<string> {
-    if (!this.adminWallet) {
-      throw new Error('Admin wallet not initialized');
-    }
-
-    try {
-      const body = bodyLock({ roomId });
-
-      if (!this.adminSecretKey || !this.adminWallet) {
-        throw new Error('Admin wallet not initialized');
-      }
-      
-      const openedWallet = this.client.open(this.adminWallet);
-      const seqno = await openedWallet.getSeqno();
-      const transfer = openedWallet.createTransfer({
-        secretKey: this.adminSecretKey,
-        seqno,
-        messages: [
-          internal({
-            to: this.escrowAddress,
-            value: toNano('0.05'), // Gas for contract call
-            body,
-            bounce: false,
-          }),
-        ],
-        sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-      });
-
-      await openedWallet.send(transfer);
-
-      // Wait for transaction
-      let currentSeqno = await openedWallet.getSeqno();
-      let attempts = 0;
-      while (currentSeqno === seqno && attempts < 30) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        currentSeqno = await openedWallet.getSeqno();
-        attempts++;
-      }
-
-      if (currentSeqno === seqno) {
-        throw new Error('Transaction timeout');
-      }
+  async lockRoom(roomId: bigint, key?: string): Promise<string> {
+    const operationId = await this.enqueue({
+      opType: 'lock',
+      roomId,
+      body: bodyLock({ roomId }),
+      value: toNano('0.05'), // Gas for contract call
+      key: key ?? `lock:${roomId}`,
+    });
 
-      console.log(`✅ Room ${roomId} locked in contract`);
-      return `lock_${roomId}_${seqno}`;
-    } catch (error) {
-      console.error(`❌ Error locking room ${roomId}:`, error);
-      throw error;
-    }
+    console.log(`📝 Queued room ${roomId} lock`);
+    return operationId;
   }
 
   /**
    * Send payout to winners
-   * Requires admin wallet
+   * Requires admin wallet; queued in the escrow operations outbox (one payout per room)
+   * @returns escrow operation ID
    */
   async payout(params: {
     roomId: bigint;
     payouts: PayoutItem[];
+    key?: string;
   }): Promise<string> {
-    if (!this.adminWallet) {
-      throw new Error('Admin wallet not initialized');
-    }
-
     if (params.payouts.length === 0) {
       throw new Error('Payouts list cannot be empty');
     }
@@ -377,128 +323,209 @@ export class EscrowContractService {
       throw new Error('Too many payouts (max 50)');
     }
 
-    try {
-      const body = bodyPayout({
+    const operationId = await this.enqueue({
+      opType: 'payout',
+      roomId: params.roomId,
+      body: bodyPayout({
         roomId: params.roomId,
         payouts: params.payouts,
-      });
-
-      if (!this.adminSecretKey || !this.adminWallet) {
-        throw new Error('Admin wallet not initialized');
-      }
-      
-      const openedWallet = this.client.open(this.adminWallet);
-      const seqno = await openedWallet.getSeqno();
-      const transfer = openedWallet.createTransfer({
-        secretKey: this.adminSecretKey,
-        seqno,
-        messages: [
-          internal({
-            to: this.escrowAddress,
-            value: toNano('0.08'), // Gas for contract call
-            body,
-            bounce: false,
-          }),
-        ],
-        sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-      });
-
-      await openedWallet.send(transfer);
-
-      // Wait for transaction
-      let currentSeqno = await openedWallet.getSeqno();
-      let attempts = 0;
-      while (currentSeqno === seqno && attempts < 30) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        currentSeqno = await openedWallet.getSeqno();
-        attempts++;
-      }
-
-      if (currentSeqno === seqno) {
-        throw new Error('Transaction timeout');
-      }
+      }),
+      value: toNano('0.08'), // Gas for contract call
+      key: params.key ?? `payout:${params.roomId}`,
+    });
 
-      const totalAmount = params.payouts.reduce(
-        (sum, p) => sum + p.amountNano,
-        0n
-      );
-      console.log(
-        `✅ Payout sent for room ${params.roomId} (${params.payouts.length} recipients, total: ${fromNano(totalAmount)} TON)`
-      );
-      return `payout_${params.roomId}_${seqno}`;
-    } catch (error) {
-      console.error(`❌ Error sending payout for room ${params.roomId}:`, error);
-      throw error;
-    }
+    const totalAmount = params.payouts.reduce(
+      (sum, p) => sum + p.amountNano,
+      0n
+    );
+    console.log(
+      `📝 Queued payout for room ${params.roomId} (${params.payouts.length} recipients, total: ${fromNano(totalAmount)} TON)`
+    );
+    return operationId;
   }
 
   /**
    * Send refund to a player
-   * Requires admin wallet
+   * Requires admin wallet; queued in the escrow operations outbox
+   * @returns escrow operation ID
    */
   async refund(params: {
     roomId: bigint;
     player: Address;
+    key?: string;
   }): Promise<string> {
+    const operationId = await this.enqueue({
+      opType: 'refund',
+      roomId: params.roomId,
+      body: bodyRefund({
+        roomId: params.roomId,
+        player: params.player,
+      }),
+      value: toNano('0.05'), // Gas for contract call
+      key: params.key ?? `refund:${params.roomId}:${params.player.toString()}`,
+    });
+
+    console.log(`📝 Queued refund for room ${params.roomId} to ${params.player.toString()}`);
+    return operationId;
+  }
+
+  /**
+   * Get an escrow operation by ID
+   */
+  async getOperation(operationId: string): Promise<EscrowOperation | null> {
+    const operation = await prisma.escrowOperation.findUnique({
+      where: { id: operationId },
+    });
+    return operation ? this.dbOperationToOperation(operation) : null;
+  }
+
+  /**
+   * Withdraw a queued operation before the outbox sends it
+   * @returns false if the operation is no longer PENDING (already sent or settled)
+   */
+  async cancelOperation(operationId: string, reason: string): Promise<boolean> {
+    const cancelled = await prisma.escrowOperation.updateMany({
+      where: { id: operationId, status: 'PENDING' },
+      data: { status: 'FAILED', lastError: reason },
+    });
+    return cancelled.count > 0;
+  }
+
+  /**
+   * Get the operation creating a room (queued with the default key)
+   */
+  async getRoomCreation(roomId: bigint): Promise<EscrowOperation | null> {
+    const operation = await prisma.escrowOperation.findUnique({
+      where: { idempotencyKey: `create_room:${roomId}` },
+    });
+    return operation ? this.dbOperationToOperation(operation) : null;
+  }
+
+  /**
+   * Get current seqno of the admin wallet
+   */
+  async getAdminSeqno(): Promise<number> {
     if (!this.adminWallet) {
       throw new Error('Admin wallet not initialized');
     }
+    return this.client.open(this.adminWallet).getSeqno();
+  }
 
-    try {
-      const body = bodyRefund({
-        roomId: params.roomId,
-        player: params.player,
-      });
+  /**
+   * Sign and send a transfer to the escrow contract from the admin wallet
+   * Only the escrow outbox worker sends transfers (it owns the wallet seqno)
+   * @param validUntil - Unix time (seconds) after which the wallet rejects the transfer
+   */
+  async sendTransfer(params: {
+    seqno: number;
+    body: Cell;
+    value: bigint;
+    validUntil: number;
+  }): Promise<void> {
+    if (!this.adminSecretKey || !this.adminWallet) {
+      throw new Error('Admin wallet not initialized');
+    }
 
-      if (!this.adminSecretKey || !this.adminWallet) {
-        throw new Error('Admin wallet not initialized');
-      }
-      
-      const openedWallet = this.client.open(this.adminWallet);
-      const seqno = await openedWallet.getSeqno();
-      const transfer = openedWallet.createTransfer({
-        secretKey: this.adminSecretKey,
-        seqno,
-        messages: [
-          internal({
-            to: this.escrowAddress,
-            value: toNano('0.05'), // Gas for contract call
-            body,
-            bounce: false,
-          }),
-        ],
-        sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
-      });
+    const openedWallet = this.client.open(this.adminWallet);
+    const transfer = openedWallet.createTransfer({
+      secretKey: this.adminSecretKey,
+      seqno: params.seqno,
+      timeout: params.validUntil,
+      messages: [
+        internal({
+          to: this.escrowAddress,
+          value: params.value,
+          body: params.body,
+          bounce: false,
+        }),
+      ],
+      sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS,
+    });
 
-      await openedWallet.send(transfer);
+    await openedWallet.send(transfer);
+  }
 
-      // Wait for transaction
-      let currentSeqno = await openedWallet.getSeqno();
-      let attempts = 0;
-      while (currentSeqno === seqno && attempts < 30) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        currentSeqno = await openedWallet.getSeqno();
-        attempts++;
-      }
+  /**
+   * Add an operation to the outbox (sent by workers/escrowOutboxWorker.ts)
+   * Idempotent by key: an existing operation is returned instead of queueing another one,
+   * a FAILED one (never accepted by the wallet) is queued again with the new body and value
+   */
+  private async enqueue(params: {
+    opType: EscrowOpType;
+    roomId: bigint;
+    body: Cell;
+    value: bigint;
+    key: string;
+  }): Promise<string> {
+    if (!this.adminWallet) {
+      throw new Error('Admin wallet not initialized');
+    }
+
+    const body = params.body.toBoc().toString('base64');
+    const value = fromNano(params.value);
 
-      if (currentSeqno === seqno) {
-        throw new Error('Transaction timeout');
+    const existing = await prisma.escrowOperation.findUnique({
+      where: { idempotencyKey: params.key },
+    });
+    if (existing) {
+      if (existing.status === 'FAILED') {
+        // A retry may carry different params (e.g. recomputed payouts) - never resend the stale transfer
+        await prisma.escrowOperation.updateMany({
+          where: { id: existing.id, status: 'FAILED' },
+          data: { status: 'PENDING', body, value, attempts: 0, seqno: null, validUntil: null, lastError: null },
+        });
       }
+      return existing.id;
+    }
 
-      console.log(
-        `✅ Refund sent for room ${params.roomId} to ${params.player.toString()}`
-      );
-      return `refund_${params.roomId}_${seqno}`;
-    } catch (error) {
-      console.error(
-        `❌ Error sending refund for room ${params.roomId}:`,
-        error
-      );
+    try {
+      const operation = await prisma.escrowOperation.create({
+        data: {
+          opType: params.opType,
+          roomId: params.roomId.toString(),
+          body,
+          value,
+          idempotencyKey: params.key,
+          status: 'PENDING',
+        },
+      });
+      return operation.id;
+    } catch (error: any) {
+      // Queued concurrently with the same key
+      if (error?.code === 'P2002') {
+        const operation = await prisma.escrowOperation.findUnique({
+          where: { idempotencyKey: params.key },
+        });
+        if (operation) {
+          return operation.id;
+        }
+      }
       throw error;
     }
   }
+
+  /**
+   * Convert DB operation to EscrowOperation
+   */
+  private dbOperationToOperation(dbOperation: EscrowOperationRow): EscrowOperation {
+    return {
+      id: dbOperation.id,
+      opType: dbOperation.opType as EscrowOpType,
+      roomId: BigInt(dbOperation.roomId),
+      body: Cell.fromBase64(dbOperation.body),
+      value: toNano(dbOperation.value.toString()),
+      idempotencyKey: dbOperation.idempotencyKey,
+      status: dbOperation.status as EscrowOpStatus,
+      seqno: dbOperation.seqno ?? null,
+      attempts: dbOperation.attempts,
+      lastError: dbOperation.lastError || null,
+      createdAt: dbOperation.createdAt,
+      sentAt: dbOperation.sentAt || null,
+      validUntil: dbOperation.validUntil || null,
+      confirmedAt: dbOperation.confirmedAt || null,
+    };
+  }
 }
 
 // Singleton instance
 export const escrowContractService = new EscrowContractService();
-
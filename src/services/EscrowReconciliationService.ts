@@ -0,0 +1,296 @@
+import { toNano } from '@ton/core';
+import type { Prisma } from '../../generated/prisma/client.js';
+import { prisma } from '../db/prisma.js';
+import { escrowContractService } from './EscrowContractService.js';
+import { escrowService } from './EscrowService.js';
+import { tonBlockchainService } from './TonBlockchainService.js';
+import { joinIntentService } from './JoinIntentService.js';
+import { matchIdToRoomId, roomIdToString, roomStatusName } from '../utils/roomId.js';
+import { Discrepancy, findDiscrepancies } from '../utils/reconciliation.js';
+
+const DEFAULT_RECONCILE_INTERVAL_SEC = 600; // Open TON matches are checked every 10 minutes (0 disables)
+const AMOUNT_TOLERANCE_TON = 0.001; // Same rounding tolerance as deposit processing
+const CLOSED_MATCH_WINDOW_MS = 24 * 60 * 60 * 1000; // Cancelled and finished matches are checked for late deposits for a day
+
+type IntentWithRefund = Prisma.JoinIntentGetPayload<{ include: { refund: { select: { status: true } } } }>;
+
+/**
+ * Reconciliation was requested for a match it does not apply to
+ */
+export class ReconciliationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReconciliationValidationError';
+  }
+}
+
+export interface IntentRepair {
+  intentId: string;
+  playerId: string;
+  from: string; // Intent status before the repair
+  to: 'PAID' | 'REFUNDED';
+  txHash: string; // Deposit transaction found on-chain
+  refundId?: string; // Deposit of an expired intent or of a closed match is refunded
+}
+
+export interface ReconciliationReport {
+  matchId: string;
+  roomId: string;
+  matchStatus: string;
+  checkedAt: Date;
+  contract: {
+    status: string;
+    depositedCount: number;
+    potNano: string;
+  } | null; // null if the room does not exist (or could not be read)
+  database: {
+    paidIntents: number;
+    pendingRefunds: number; // Refunds of deposits still held by the contract
+    entryNano: string;
+  };
+  discrepancies: Discrepancy[];
+  repairs: IntentRepair[];
+}
+
+function getReconcileIntervalMs(): number {
+  const seconds = parseInt(process.env.ESCROW_RECONCILE_INTERVAL_SEC || '', 10);
+  return (Number.isNaN(seconds) ? DEFAULT_RECONCILE_INTERVAL_SEC : Math.max(0, seconds)) * 1000;
+}
+
+/**
+ * Service for reconciling escrow contract rooms with JoinIntent/DepositTx rows
+ * Repairs only add deposits the blockchain worker missed: the deposit transaction is looked up
+ * on-chain by the intent nonce, the intent is marked PAID (expired intents and closed matches are refunded)
+ */
+export class EscrowReconciliationService {
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start periodic reconciliation of open TON matches and of recently closed ones
+   * Repairs of open matches are applied only with ESCROW_RECONCILE_REPAIR=1
+   */
+  start(): void {
+    const intervalMs = getReconcileIntervalMs();
+    if (this.checkTimer || intervalMs === 0) {
+      return;
+    }
+
+    this.checkTimer = setInterval(async () => {
+      try {
+        await this.reconcileOpenMatches(process.env.ESCROW_RECONCILE_REPAIR === '1');
+        await this.reconcileClosedMatches();
+      } catch (error) {
+        console.error('❌ Error reconciling escrow rooms:', error);
+      }
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the reconciliation timer
+   */
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  /**
+   * Reconcile every open (waiting, locking or playing) TON match
+   */
+  async reconcileOpenMatches(repair: boolean = false): Promise<ReconciliationReport[]> {
+    const matches = await prisma.match.findMany({
+      where: { roomType: 'ton', status: { in: ['waiting', 'locking', 'playing'] } },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return this.reconcileMatches(matches.map((match: { id: string }) => match.id), repair);
+  }
+
+  /**
+   * Reconcile TON matches cancelled or finished within the last day
+   * Their rooms may still accept deposits (e.g. from stale payment params); such deposits are
+   * never seated, only refunded, so repairs are always applied
+   */
+  async reconcileClosedMatches(): Promise<ReconciliationReport[]> {
+    const matches = await prisma.match.findMany({
+      where: {
+        roomType: 'ton',
+        status: { in: ['cancelled', 'finished'] },
+        finishedAt: { gte: new Date(Date.now() - CLOSED_MATCH_WINDOW_MS) },
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return this.reconcileMatches(matches.map((match: { id: string }) => match.id), true);
+  }
+
+  private async reconcileMatches(matchIds: string[], repair: boolean): Promise<ReconciliationReport[]> {
+    const reports: ReconciliationReport[] = [];
+    for (const matchId of matchIds) {
+      try {
+        const report = await this.reconcileMatch(matchId, repair);
+        if (report) {
+          reports.push(report);
+        }
+      } catch (error) {
+        console.error(`❌ Error reconciling match ${matchId}:`, error);
+      }
+    }
+
+    const flagged = reports.filter((report) => report.discrepancies.length > 0);
+    if (flagged.length > 0) {
+      console.warn(`⚠️ Escrow reconciliation: ${flagged.length}/${reports.length} match(es) with discrepancies`);
+    }
+    return reports;
+  }
+
+  /**
+   * Compare the match's contract room with its deposits in the database
+   * @param repair - mark intents of deposits found on-chain as PAID (refunded if the match is closed)
+   * @returns report, or null if the match does not exist
+   * @throws ReconciliationValidationError for matches that are not TON matches
+   */
+  async reconcileMatch(matchId: string, repair: boolean = false): Promise<ReconciliationReport | null> {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { id: true, roomId: true, roomType: true, status: true, entryFee: true, createdAt: true },
+    });
+    if (!match) {
+      return null;
+    }
+    if (match.roomType !== 'ton') {
+      throw new ReconciliationValidationError('Reconciliation is only available for TON matches');
+    }
+
+    const roomId: string = match.roomId || roomIdToString(matchIdToRoomId(match.id));
+    const [room, intents] = await Promise.all([
+      escrowContractService.getRoom(BigInt(roomId)),
+      prisma.joinIntent.findMany({
+        where: { roomId: match.id },
+        include: { refund: { select: { status: true } } },
+      }),
+    ]);
+
+    const paidIntents = intents.filter((intent: IntentWithRefund) => intent.status === 'PAID').length;
+    const pendingRefunds = intents.filter(
+      (intent: IntentWithRefund) => intent.status === 'REFUNDED' && intent.refund?.status !== 'CONFIRMED'
+    ).length;
+    const entryNano = toNano(match.entryFee.toString());
+
+    const discrepancies = findDiscrepancies(room, {
+      matchStatus: match.status,
+      deposits: paidIntents + pendingRefunds,
+      entryNano,
+    });
+
+    let repairs: IntentRepair[] = [];
+    if (repair && discrepancies.some((d) => d.type === 'untracked_deposits')) {
+      repairs = await this.repairIntents(roomId, match.createdAt, intents, match.status);
+    }
+
+    for (const discrepancy of discrepancies) {
+      console.warn(`⚠️ Match ${match.id} (room ${roomId}): ${discrepancy.type} - ${discrepancy.message}`);
+    }
+
+    return {
+      matchId: match.id,
+      roomId,
+      matchStatus: match.status,
+      checkedAt: new Date(),
+      contract: room
+        ? {
+            status: roomStatusName(room.status) ?? String(room.status),
+            depositedCount: room.depositedCount,
+            potNano: room.potNano.toString(),
+          }
+        : null,
+      database: {
+        paidIntents,
+        pendingRefunds,
+        entryNano: entryNano.toString(),
+      },
+      discrepancies,
+      repairs,
+    };
+  }
+
+  /**
+   * Record deposits found on-chain for intents still CREATED or already CANCELLED
+   * @param since - escrow transactions are searched back to this time (match creation)
+   * @param matchStatus - deposits of cancelled or finished matches are refunded
+   */
+  private async repairIntents(
+    roomId: string,
+    since: Date,
+    intents: IntentWithRefund[],
+    matchStatus: string
+  ): Promise<IntentRepair[]> {
+    const escrowAddress = escrowService.getEscrowAddress();
+    const deposits = await tonBlockchainService.findRoomDeposits(escrowAddress, roomId, since);
+
+    const repairs: IntentRepair[] = [];
+    for (const deposit of deposits) {
+      const intent = intents.find((i) => i.nonce === deposit.nonce);
+      if (!intent || (intent.status !== 'CREATED' && intent.status !== 'CANCELLED')) {
+        continue;
+      }
+
+      const amountTon = escrowService.nanotonsToTon(deposit.amount);
+      if (amountTon < Number(intent.stake) - AMOUNT_TOLERANCE_TON) {
+        console.warn(`⚠️ Deposit ${deposit.txHash} for intent ${intent.id} is below the stake, not repaired`);
+        continue;
+      }
+
+      const existing = await prisma.depositTx.findUnique({ where: { txHash: deposit.txHash } });
+      if (!existing) {
+        await prisma.depositTx.create({
+          data: {
+            joinIntentId: intent.id,
+            txHash: deposit.txHash,
+            fromAddress: deposit.fromAddress,
+            toAddress: escrowAddress,
+            amount: amountTon,
+            status: 'CONFIRMED',
+            confirmedAt: new Date(deposit.blockTime * 1000),
+          },
+        });
+      }
+
+      const updated = await prisma.joinIntent.updateMany({
+        where: { id: intent.id, status: intent.status },
+        data: { status: 'PAID', paidAt: new Date(deposit.blockTime * 1000), cancelledAt: null },
+      });
+      if (updated.count === 0) {
+        continue;
+      }
+
+      const repaired: IntentRepair = {
+        intentId: intent.id,
+        playerId: intent.playerId,
+        from: intent.status,
+        to: 'PAID',
+        txHash: deposit.txHash,
+      };
+
+      // The seat of an expired intent or of a closed match is gone: refund the late deposit
+      const matchClosed = matchStatus === 'cancelled' || matchStatus === 'finished';
+      if (intent.status === 'CANCELLED' || matchClosed) {
+        const paidIntent = await joinIntentService.getIntent(intent.id);
+        if (paidIntent) {
+          const reason = matchStatus === 'cancelled' ? 'match_cancelled' : 'timeout';
+          repaired.refundId = await joinIntentService.createRefundForIntent(paidIntent, reason);
+          repaired.to = 'REFUNDED';
+        }
+      }
+
+      console.log(`🔧 Repaired intent ${intent.id} (${repaired.from} -> ${repaired.to}, tx ${deposit.txHash})`);
+      repairs.push(repaired);
+    }
+
+    return repairs;
+  }
+}
+
+// Singleton instance
+export const escrowReconciliationService = new EscrowReconciliationService();
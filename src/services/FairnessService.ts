@@ -0,0 +1,170 @@
+import { RoundReveal } from '../types/game';
+import { prisma } from '../db/prisma.js';
+import { createRoundCommitment, verifyRoundReveal } from '../utils/fairness.js';
+
+export interface RoundFairness {
+  roundNumber: number;
+  commitment: string;
+  committedAt: Date;
+  revealed: boolean;
+  voided: boolean;
+  revealedAt?: Date;
+  // Only present once revealed
+  seed?: string;
+  endTime?: number;
+  minEndTime?: number;
+  maxEndTime?: number;
+  verified?: boolean;
+}
+
+const COMMITMENT_SAVE_ATTEMPTS = 3;
+const COMMITMENT_RETRY_DELAY_MS = 200;
+
+/**
+ * Thrown when a round commitment could not be stored and the round must not start
+ */
+export class RoundCommitmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoundCommitmentError';
+  }
+}
+
+/**
+ * Service for commit-reveal of round end times
+ * Seeds of in-progress rounds are kept in memory (and persisted, but never
+ * exposed) until the round ends
+ */
+export class FairnessService {
+  private pendingRounds: Map<string, RoundReveal> = new Map(); // matchId -> current round commitment
+
+  /**
+   * Commit to a new round end time
+   * The commitment is stored before it is returned, so every published round can be verified later
+   * @returns commitment with secret seed and endTime (must not be sent to clients)
+   * @throws RoundCommitmentError if the commitment could not be stored
+   */
+  async commitRound(matchId: string, roundNumber: number, minSeconds: number = 5, maxSeconds: number = 15): Promise<RoundReveal> {
+    const round = createRoundCommitment(minSeconds, maxSeconds);
+
+    for (let attempt = 1; attempt <= COMMITMENT_SAVE_ATTEMPTS; attempt++) {
+      try {
+        await prisma.roundCommitment.create({
+          data: {
+            matchId,
+            roundNumber,
+            commitment: round.commitment,
+            seed: round.seed,
+            endTime: round.endTime,
+            minEndTime: round.minEndTime,
+            maxEndTime: round.maxEndTime,
+          },
+        });
+        this.pendingRounds.set(matchId, round);
+        return round;
+      } catch (error) {
+        console.error(`❌ Error saving round commitment for match ${matchId}, round ${roundNumber} (attempt ${attempt}):`, error);
+        if (attempt < COMMITMENT_SAVE_ATTEMPTS) {
+          await new Promise((resolve) => setTimeout(resolve, COMMITMENT_RETRY_DELAY_MS));
+        }
+      }
+    }
+
+    throw new RoundCommitmentError(`Round commitment for match ${matchId}, round ${roundNumber} could not be saved`);
+  }
+
+  /**
+   * Reveal commitment of the current round (called when round ends)
+   */
+  revealRound(matchId: string, roundNumber: number): RoundReveal | undefined {
+    const round = this.pendingRounds.get(matchId);
+    if (!round) {
+      console.warn(`⚠️ No pending commitment for match ${matchId}, round ${roundNumber}`);
+      return undefined;
+    }
+    this.pendingRounds.delete(matchId);
+
+    prisma.roundCommitment.updateMany({
+      where: {
+        matchId,
+        roundNumber,
+        commitment: round.commitment,
+      },
+      data: { revealedAt: new Date() },
+    }).catch((error: any) => {
+      console.error(`❌ Error saving round reveal for match ${matchId}, round ${roundNumber}:`, error);
+    });
+
+    return round;
+  }
+
+  /**
+   * Void unrevealed commitments of a round that was interrupted and will be replayed
+   * The seed is revealed so the voided round can still be verified
+   */
+  async voidRound(matchId: string, roundNumber: number): Promise<void> {
+    this.pendingRounds.delete(matchId);
+
+    try {
+      await prisma.roundCommitment.updateMany({
+        where: {
+          matchId,
+          roundNumber,
+          revealedAt: null,
+        },
+        data: {
+          voided: true,
+          revealedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      console.error(`❌ Error voiding round commitment for match ${matchId}, round ${roundNumber}:`, error);
+    }
+  }
+
+  /**
+   * Get all commitments and reveals for a match
+   * Seeds and end times of unrevealed rounds are never returned
+   */
+  async getMatchFairness(matchId: string): Promise<RoundFairness[]> {
+    const rounds = await prisma.roundCommitment.findMany({
+      where: { matchId },
+      orderBy: [
+        { roundNumber: 'asc' },
+        { committedAt: 'asc' },
+      ],
+    });
+
+    return rounds.map((round: any) => {
+      const base: RoundFairness = {
+        roundNumber: round.roundNumber,
+        commitment: round.commitment,
+        committedAt: round.committedAt,
+        revealed: !!round.revealedAt,
+        voided: round.voided,
+      };
+
+      if (!round.revealedAt) {
+        return base;
+      }
+
+      const reveal: RoundReveal = {
+        commitment: round.commitment,
+        seed: round.seed,
+        endTime: round.endTime,
+        minEndTime: round.minEndTime,
+        maxEndTime: round.maxEndTime,
+      };
+
+      return {
+        ...base,
+        ...reveal,
+        revealedAt: round.revealedAt,
+        verified: verifyRoundReveal(reveal),
+      };
+    });
+  }
+}
+
+// Singleton instance
+export const fairnessService = new FairnessService();
@@ -1,15 +1,17 @@
 import { Match, Player, RoundResult, RoomPreset } from '../types/game';
-import { ROOM_PRESETS } from '../constants/rooms.js';
-import { calculateRoundScores, generateEndTime } from '../utils/gameLogic.js';
+import { roomPresetService } from './RoomPresetService.js';
+import { scoreRound } from '../utils/scoring.js';
+import { fairnessService } from './FairnessService.js';
 
 export class GameService {
   /**
    * Start a new round in a match
+   * @throws RoundCommitmentError if the round end time commitment could not be stored
    */
-  startRound(match: Match): Match {
-    const preset = ROOM_PRESETS.find((p) => p.type === match.roomType);
+  async startRound(match: Match): Promise<Match> {
+    const preset = roomPresetService.getPresetForMatch(match);
     if (!preset) {
-      throw new Error(`Room preset not found for type: ${match.roomType}`);
+      throw new Error(`Room preset not found: ${match.presetId}`);
     }
 
     if (match.status !== 'playing') {
@@ -21,8 +23,10 @@ export class GameService {
       throw new Error('All rounds completed');
     }
 
+    // Commit to a hidden end time (5-15 seconds), revealed when round ends
+    const round = await fairnessService.commitRound(match.id, nextRound, 5, 15);
+    // The round starts once its commitment is stored
     const roundStartTime = Date.now();
-    const roundEndTime = generateEndTime(5, 15); // 5-15 seconds
 
     // Reset pressTime for all players
     match.players = match.players.map((player) => ({
@@ -33,15 +37,17 @@ export class GameService {
 
     match.currentRound = nextRound;
     match.roundStartTime = roundStartTime;
-    match.roundEndTime = roundEndTime;
+    match.roundEndTime = round.endTime;
+    match.roundCommitment = round.commitment;
 
     return match;
   }
 
   /**
    * Record a button press for a player
+   * @param pressedAt - server timestamp of the press (latency-compensated if available)
    */
-  recordPress(match: Match, playerId: string): Match {
+  recordPress(match: Match, playerId: string, pressedAt: number = Date.now()): Match {
     if (!match.roundStartTime || !match.roundEndTime) {
       throw new Error('Round not started');
     }
@@ -56,7 +62,8 @@ export class GameService {
       return match;
     }
 
-    const pressTime = Date.now() - match.roundStartTime;
+    // At least 1ms - pressTime 0 is treated as "not pressed"
+    const pressTime = Math.max(1, pressedAt - match.roundStartTime);
     player.pressTime = pressTime;
 
     return match;
@@ -70,10 +77,15 @@ export class GameService {
       throw new Error('Round not started');
     }
 
+    const preset = roomPresetService.getPresetForMatch(match);
+    if (!preset) {
+      throw new Error(`Room preset not found: ${match.presetId}`);
+    }
+
     const endTime = match.roundEndTime; // milliseconds from round start
 
-    // Calculate scores for current round
-    const roundPlayers = calculateRoundScores(match.players, endTime);
+    // Calculate scores for current round using the preset's scoring strategy
+    const roundPlayers = scoreRound(match.players, endTime, preset.scoring);
 
     // Update total player scores
     match.players = match.players.map((player) => {
@@ -113,6 +125,8 @@ export class GameService {
         score: roundPlayers.find((rp) => rp.id === p.id)?.score || 0, // Score only for this round
       })),
       endTime,
+      scoring: preset.scoring,
+      fairness: fairnessService.revealRound(match.id, match.currentRound),
     };
 
     match.roundResults.push(roundResult);
@@ -120,10 +134,10 @@ export class GameService {
     // Clear round timing
     match.roundStartTime = undefined;
     match.roundEndTime = undefined;
+    match.roundCommitment = undefined;
 
     // Check if game is finished
-    const preset = ROOM_PRESETS.find((p) => p.type === match.roomType);
-    if (preset && match.currentRound >= preset.rounds) {
+    if (match.currentRound >= preset.rounds) {
       match.status = 'finished';
       match.finishedAt = new Date();
     }
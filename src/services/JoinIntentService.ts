@@ -2,9 +2,10 @@ import { prisma } from '../db/prisma.js';
 import { walletService } from './WalletService.js';
 import { matchmaker } from './Matchmaker.js';
 import { matchService } from './MatchService.js';
-import { matchIdToRoomId, roomIdToString } from '../utils/roomId.js';
-import { ROOM_PRESETS } from '../constants/rooms.js';
-import { Player } from '../types/game.js';
+import { escrowContractService } from './EscrowContractService.js';
+import { RoomStatusName, matchIdToRoomId, roomIdFromString, roomIdToString, roomStatusName } from '../utils/roomId.js';
+import { roomPresetService } from './RoomPresetService.js';
+import { Match, Player } from '../types/game.js';
 import crypto from 'crypto';
 
 export interface JoinIntent {
@@ -14,6 +15,7 @@ export interface JoinIntent {
   playerId: string;
   walletId: string;
   roomType: 'ton';
+  presetId: string | null; // Room preset (null for intents created before the room catalogue)
   stake: number;
   nonce: string;
   status: 'CREATED' | 'PAID' | 'CANCELLED' | 'REFUNDED';
@@ -28,6 +30,26 @@ export interface PaymentParams {
   comment: string; // Nonce for transaction matching
 }
 
+// missing - no room and no creation queued, creating - creation queued, failed - creation operation failed,
+// unknown - room status could not be read, open/locked/finished/cancelled - contract room status
+export type EscrowRoomStatus = 'missing' | 'creating' | 'failed' | 'unknown' | RoomStatusName;
+
+export interface EscrowRoomInfo {
+  onChainRoomId: string;
+  status: EscrowRoomStatus;
+  depositedCount: number | null; // Deposits held by the room (null until the room exists)
+  maxPlayers: number | null;
+  error: string | null; // failed/unknown: last error of the creation operation or of the status check
+}
+
+export interface PrivateMatchOptions {
+  inviteCode?: string; // Join private match by invite code
+  createPrivate?: boolean; // Create a new private match
+  minPlayers?: number; // For createPrivate: players required before the creator can start early
+}
+
+export type RefundReason = 'player_left' | 'timeout' | 'match_cancelled';
+
 const INTENT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 
 /**
@@ -37,32 +59,59 @@ export class JoinIntentService {
   /**
    * Create join intent for TON room entry
    * Wallet is from frontend (TON Connect) - no verification step needed
+   * @param privateMatch - join a private match by invite code or create a new one
+   *                       (the preset of an invited match overrides presetId)
    */
   async createJoinIntent(
     playerId: string,
     playerName: string = 'Player',
-    roomType: 'ton',
+    presetId: string,
     walletAddress: string,
-    walletNetwork: 'mainnet' | 'testnet'
-  ): Promise<{ intent: JoinIntent; paymentParams: PaymentParams }> {
-    // Link wallet from frontend (creates or updates)
-    const wallet = await walletService.linkWalletWithoutProof(playerId, walletAddress, walletNetwork);
+    walletNetwork: 'mainnet' | 'testnet',
+    privateMatch: PrivateMatchOptions = {}
+  ): Promise<{ intent: JoinIntent; room: EscrowRoomInfo | null; paymentParams: PaymentParams | null; inviteCode?: string }> {
+    // Resolve target match for private flows
+    let targetMatch: Match | undefined;
+    if (privateMatch.inviteCode) {
+      targetMatch = await matchmaker.findPrivateMatch(privateMatch.inviteCode);
+      if (!targetMatch) {
+        throw new Error('Invite code is invalid or expired');
+      }
+      presetId = targetMatch.presetId;
+    } else if (privateMatch.createPrivate) {
+      // Reuse own waiting private match (e.g. repeated request)
+      const ownMatch = matchmaker.getMatchByPlayerId(playerId);
+      if (ownMatch?.isPrivate && ownMatch.creatorId === playerId && ownMatch.status === 'waiting' && ownMatch.presetId === presetId) {
+        targetMatch = ownMatch;
+      }
+    }
 
     // Get room preset
-    const preset = ROOM_PRESETS.find((p) => p.type === roomType);
-    if (!preset) {
-      throw new Error(`Room preset not found for type: ${roomType}`);
+    const preset = roomPresetService.getPreset(presetId);
+    if (!preset || (!preset.enabled && !privateMatch.inviteCode)) {
+      throw new Error(`Room preset not found: ${presetId}`);
+    }
+    if (preset.type !== 'ton') {
+      throw new Error('Join intent is only available for TON rooms');
     }
+    const roomType = preset.type;
+
+    // Link wallet from frontend (creates or updates)
+    const wallet = await walletService.linkWalletWithoutProof(playerId, walletAddress, walletNetwork);
 
     // Check for existing active intent (not expired, not paid, not cancelled)
-    const existingIntent = await prisma.joinIntent.findFirst({
+    // for the same match (private) or any public match of the preset
+    const isPrivateFlow = !!(privateMatch.inviteCode || privateMatch.createPrivate);
+    const existingIntent = isPrivateFlow && !targetMatch ? null : await prisma.joinIntent.findFirst({
       where: {
         playerId,
         roomType,
+        presetId,
         status: 'CREATED',
         expiresAt: {
           gt: new Date(),
         },
+        ...(targetMatch ? { roomId: targetMatch.id } : { match: { isPrivate: false } }),
       },
       orderBy: {
         createdAt: 'desc',
@@ -71,12 +120,14 @@ export class JoinIntentService {
 
     if (existingIntent) {
       console.log(`⚠️ Player ${playerId} already has active intent ${existingIntent.id}`);
-      // Return existing intent with payment params
+      // Return existing intent with payment params (once its room exists)
       const intent = this.dbIntentToIntent(existingIntent);
-      const paymentParams = this.getPaymentParams(intent);
+      const room = await this.getEscrowRoom(intent);
       return {
         intent,
-        paymentParams,
+        room,
+        paymentParams: this.getPaymentParamsForRoom(intent, room),
+        inviteCode: targetMatch?.inviteCode,
       };
     }
 
@@ -87,7 +138,14 @@ export class JoinIntentService {
       score: 0,
     };
 
-    const match = await matchmaker.findOrCreateMatch(roomType, player);
+    let match: Match;
+    if (privateMatch.inviteCode) {
+      match = await matchmaker.joinPrivateMatch(privateMatch.inviteCode, player);
+    } else if (privateMatch.createPrivate) {
+      match = targetMatch || await matchmaker.createPrivateMatch(presetId, player, privateMatch.minPlayers);
+    } else {
+      match = await matchmaker.findOrCreateMatch(presetId, player);
+    }
     
     // Compute on-chain roomId from matchId
     const onChainRoomId = matchIdToRoomId(match.id);
@@ -96,6 +154,9 @@ export class JoinIntentService {
     // Save match to database (roomId will be computed and saved by matchService.saveMatch)
     await matchService.saveMatch(match);
 
+    // Provision the contract room (no-op if it exists or its creation is already queued)
+    await matchmaker.ensureEscrowRoom(match);
+
     // Calculate stake (entryFee in TON)
     const stake = preset.entryFee;
 
@@ -113,6 +174,7 @@ export class JoinIntentService {
         roomId: match.id, // Match ID (string)
         onChainRoomId: onChainRoomIdStr, // On-chain room ID (uint64 as decimal string)
         roomType,
+        presetId,
         stake,
         nonce,
         status: 'CREATED',
@@ -123,9 +185,74 @@ export class JoinIntentService {
     console.log(`✅ Created join intent ${dbIntent.id} for player ${playerId}, matchId: ${match.id}, roomId: ${onChainRoomIdStr}, nonce: ${nonce}`);
 
     const intent = this.dbIntentToIntent(dbIntent);
-    const paymentParams = this.getPaymentParams(intent);
+    const room = await this.getEscrowRoom(intent);
 
-    return { intent, paymentParams };
+    return { intent, room, paymentParams: this.getPaymentParamsForRoom(intent, room), inviteCode: match.inviteCode };
+  }
+
+  /**
+   * On-chain status of the intent's contract room
+   * A room whose creation failed (or was never queued) is queued again while the intent awaits payment.
+   * Returns null for intents without a room and when rooms are not managed (admin wallet not configured)
+   */
+  async getEscrowRoom(intent: JoinIntent): Promise<EscrowRoomInfo | null> {
+    if (!intent.onChainRoomId || !escrowContractService.isAdminWalletReady()) {
+      return null;
+    }
+
+    const info: EscrowRoomInfo = {
+      onChainRoomId: intent.onChainRoomId,
+      status: 'missing',
+      depositedCount: null,
+      maxPlayers: null,
+      error: null,
+    };
+
+    try {
+      const roomId = roomIdFromString(intent.onChainRoomId);
+      const room = await escrowContractService.getRoom(roomId);
+      if (room) {
+        return {
+          ...info,
+          status: roomStatusName(room.status) ?? 'unknown',
+          depositedCount: room.depositedCount,
+          maxPlayers: room.maxPlayers,
+        };
+      }
+
+      const creation = await escrowContractService.getRoomCreation(roomId);
+      if (creation && creation.status !== 'FAILED') {
+        return { ...info, status: 'creating' };
+      }
+
+      const match = intent.status === 'CREATED' && intent.roomId ? matchmaker.getMatch(intent.roomId) : undefined;
+      if (match) {
+        await matchmaker.ensureEscrowRoom(match);
+        return { ...info, status: 'creating', error: creation?.lastError ?? null };
+      }
+
+      return creation
+        ? { ...info, status: 'failed', error: creation.lastError || 'Room creation failed' }
+        : info;
+    } catch (error) {
+      console.error(`❌ Error getting escrow room ${intent.onChainRoomId} of intent ${intent.id}:`, error);
+      return { ...info, status: 'unknown', error: 'Room status unavailable' };
+    }
+  }
+
+  /**
+   * Payment parameters of a CREATED intent
+   * With a managed contract room they are issued only once the room is open for deposits
+   * (a deposit to a room that does not exist yet would bounce); without one the escrow address is paid directly
+   */
+  getPaymentParamsForRoom(intent: JoinIntent, room: EscrowRoomInfo | null): PaymentParams | null {
+    if (intent.status !== 'CREATED' || !intent.onChainRoomId) {
+      return null;
+    }
+    if (room && room.status !== 'open') {
+      return null;
+    }
+    return this.getPaymentParams(intent);
   }
 
   /**
@@ -305,6 +432,29 @@ export class JoinIntentService {
     return result.count;
   }
 
+  /**
+   * Cancel every unpaid intent of a cancelled match
+   * A deposit that still lands for one of them is refunded by escrow reconciliation
+   */
+  async cancelMatchIntents(matchId: string): Promise<number> {
+    const result = await prisma.joinIntent.updateMany({
+      where: {
+        roomId: matchId,
+        status: 'CREATED',
+      },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      console.log(`✅ Cancelled ${result.count} unpaid intent(s) of match ${matchId}`);
+    }
+
+    return result.count;
+  }
+
   /**
    * Get paid intent for player that can be used to join a room
    * Now intent is created with roomId immediately, so we find by matchId
@@ -367,7 +517,7 @@ export class JoinIntentService {
    * Create refund for a player leaving a match before it starts
    * Returns refund ID if created, null if refund already exists or intent not found
    */
-  async createRefundForPlayer(playerId: string, matchId: string, reason: 'player_left' | 'match_cancelled' = 'player_left'): Promise<string | null> {
+  async createRefundForPlayer(playerId: string, matchId: string, reason: RefundReason = 'player_left'): Promise<string | null> {
     // Find PAID intent for this player and match
     const intent = await this.getIntentForMatch(playerId, matchId);
     
@@ -376,6 +526,16 @@ export class JoinIntentService {
       return null;
     }
 
+    return this.createRefundForIntent(intent, reason);
+  }
+
+  /**
+   * Create refund for a PAID intent and mark the intent REFUNDED
+   * Returns refund ID (existing refund ID if the intent was already refunded)
+   */
+  async createRefundForIntent(intent: JoinIntent, reason: RefundReason): Promise<string> {
+    const playerId = intent.playerId;
+
     // Check if refund already exists
     const existingRefund = await prisma.refund.findUnique({
       where: { joinIntentId: intent.id },
@@ -437,6 +597,7 @@ export class JoinIntentService {
       playerId: dbIntent.playerId,
       walletId: dbIntent.walletId,
       roomType: dbIntent.roomType as 'ton',
+      presetId: dbIntent.presetId ?? null,
       stake: Number(dbIntent.stake),
       nonce: dbIntent.nonce,
       status: dbIntent.status as 'CREATED' | 'PAID' | 'CANCELLED' | 'REFUNDED',
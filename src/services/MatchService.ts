@@ -1,6 +1,69 @@
-import { Match, Player } from '../types/game';
+import { Match, Player, RoundResult, ScoringConfig } from '../types/game';
 import { prisma } from '../db/prisma.js';
 import { matchIdToRoomId, roomIdToString } from '../utils/roomId.js';
+import { roomPresetService } from './RoomPresetService.js';
+
+export interface RoundSchedule {
+  roundStartedAt: Date | null; // Current round start (null between rounds)
+  roundEndsAt: Date | null; // Current round hidden end deadline
+  nextRoundAt: Date | null; // Next round start deadline
+}
+
+export interface InFlightMatch extends RoundSchedule {
+  id: string;
+  currentRound: number;
+}
+
+export interface PressEvent {
+  matchId: string;
+  roundNumber: number;
+  playerId: string;
+  pressTime: number; // ms from round start (latency-compensated)
+  compensationMs: number;
+  accepted: boolean; // false for repeated presses in the same round
+  receivedAt: Date;
+}
+
+export interface RoundReplay {
+  roundNumber: number;
+  endTime: number;
+  scoring: ScoringConfig;
+  startedAt: Date;
+  endedAt: Date;
+  results: Player[]; // Round results (round score, press time, position)
+  presses: Omit<PressEvent, 'matchId' | 'roundNumber'>[];
+}
+
+export interface MatchReplay {
+  id: string;
+  presetId: string | null;
+  roomType: string;
+  status: string;
+  isPrivate: boolean;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  players: {
+    playerId: string;
+    playerName: string;
+    score: number;
+    isWinner: boolean;
+    leftEarly: boolean;
+  }[];
+  rounds: RoundReplay[];
+}
+
+const REPLAY_INCLUDE = {
+  players: {
+    orderBy: { joinedAt: 'asc' as const },
+  },
+  rounds: {
+    orderBy: { roundNumber: 'asc' as const },
+  },
+  presses: {
+    orderBy: { receivedAt: 'asc' as const },
+  },
+};
 
 /**
  * Service for managing matches in the database
@@ -19,18 +82,30 @@ export class MatchService {
       const matchData = {
         id: match.id,
         roomId: onChainRoomIdStr, // On-chain room ID (uint64 as decimal string, always computed from matchId)
+        presetId: match.presetId || null,
         roomType: match.roomType,
         status: match.status,
         currentRound: match.currentRound,
         rounds: match.allPlayers?.length || match.players.length, // Use as rounds count placeholder
         startedAt: match.startedAt,
         finishedAt: match.finishedAt,
+        isPrivate: match.isPrivate || false,
+        inviteCode: match.inviteCode || null,
+        creatorId: match.creatorId || null,
+        minPlayers: match.minPlayers || null,
+        tournamentId: match.tournamentId || null,
+        tournamentStage: match.tournamentStage || null,
+        lockOperationId: match.lockOperationId || null,
+        lockedAt: match.lockedAt || null,
       };
 
+      // Entry fee is snapshotted once, later preset edits do not change past matches
+      const entryFee = match.roomType === 'free' ? 0 : roomPresetService.getPresetForMatch(match)?.entryFee ?? 0;
+
       const result = await prisma.match.upsert({
         where: { id: match.id },
         update: matchData,
-        create: matchData,
+        create: { ...matchData, entryFee },
       });
       
       console.log(`💾 Match ${match.id} saved to database: ${result.status}, roomId: ${onChainRoomIdStr} (${match.players.length} players)`);
@@ -76,10 +151,191 @@ export class MatchService {
     }
   }
 
+  /**
+   * Persist round schedule (deadlines) for a match
+   */
+  async saveRoundSchedule(matchId: string, schedule: RoundSchedule): Promise<void> {
+    try {
+      await prisma.match.update({
+        where: { id: matchId },
+        data: schedule,
+      });
+    } catch (error) {
+      console.error(`❌ Error saving round schedule for match ${matchId}:`, error);
+      // Don't throw - timers still run in memory
+    }
+  }
+
+  /**
+   * Persist round progress (current round and scores) after a round ends
+   * Status is left untouched, so a match whose final round ended but which
+   * was not finalized yet is still recoverable as 'playing'
+   */
+  async saveRoundProgress(match: Match): Promise<void> {
+    try {
+      await prisma.match.update({
+        where: { id: match.id },
+        data: {
+          currentRound: match.currentRound,
+          roundStartedAt: null,
+          roundEndsAt: null,
+        },
+      });
+
+      const playersToSave = match.allPlayers && match.allPlayers.length > 0
+        ? match.allPlayers
+        : match.players;
+
+      for (const player of playersToSave) {
+        await prisma.matchPlayer.updateMany({
+          where: {
+            matchId: match.id,
+            playerId: player.id,
+          },
+          data: {
+            score: player.score || 0,
+          },
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Error saving round progress for match ${match.id}:`, error);
+      // Don't throw - match can continue without DB save
+    }
+  }
+
+  /**
+   * Persist a finished round (results of every player) for replays
+   */
+  async saveRoundResult(matchId: string, roundResult: RoundResult, startedAt: Date): Promise<void> {
+    try {
+      const data = {
+        endTime: roundResult.endTime,
+        scoringStrategy: roundResult.scoring?.strategy || 'closest',
+        scoringParams: roundResult.scoring?.params ?? undefined,
+        results: roundResult.players.map((p) => ({
+          id: p.id,
+          name: p.name,
+          pressTime: p.pressTime ?? null,
+          position: p.position ?? null,
+          score: p.score || 0,
+        })),
+        startedAt,
+      };
+
+      await prisma.matchRound.upsert({
+        where: { matchId_roundNumber: { matchId, roundNumber: roundResult.roundNumber } },
+        update: data,
+        create: { matchId, roundNumber: roundResult.roundNumber, ...data },
+      });
+    } catch (error) {
+      console.error(`❌ Error saving round ${roundResult.roundNumber} of match ${matchId}:`, error);
+      // Don't throw - match can continue without DB save
+    }
+  }
+
+  /**
+   * Persist a press event
+   */
+  async saveRoundPress(event: PressEvent): Promise<void> {
+    try {
+      await prisma.roundPress.create({ data: event });
+    } catch (error) {
+      console.error(`❌ Error saving press of player ${event.playerId} in match ${event.matchId}:`, error);
+      // Don't throw - press is already recorded in memory
+    }
+  }
+
+  /**
+   * Get match with round-by-round replay
+   * Presses of a round in progress are not included
+   */
+  async getMatchReplay(matchId: string): Promise<MatchReplay | null> {
+    const dbMatch = await prisma.match.findUnique({
+      where: { id: matchId },
+      include: REPLAY_INCLUDE,
+    });
+
+    return dbMatch ? this.dbMatchToReplay(dbMatch) : null;
+  }
+
+  /**
+   * Get finished matches of a player (newest first) with replays
+   */
+  async getPlayerMatches(
+    playerId: string,
+    limit: number,
+    offset: number
+  ): Promise<{ matches: MatchReplay[]; total: number }> {
+    const where = {
+      status: 'finished',
+      players: { some: { playerId } },
+    };
+
+    const [dbMatches, total] = await Promise.all([
+      prisma.match.findMany({
+        where,
+        include: REPLAY_INCLUDE,
+        orderBy: { finishedAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.match.count({ where }),
+    ]);
+
+    return {
+      matches: dbMatches.map((dbMatch: any) => this.dbMatchToReplay(dbMatch)),
+      total,
+    };
+  }
+
+  /**
+   * Get matches that were playing when the process stopped
+   */
+  async getInFlightMatches(): Promise<InFlightMatch[]> {
+    const matches = await prisma.match.findMany({
+      where: { status: 'playing' },
+      select: {
+        id: true,
+        currentRound: true,
+        roundStartedAt: true,
+        roundEndsAt: true,
+        nextRoundAt: true,
+      },
+    });
+
+    return matches.map((m: any) => ({
+      id: m.id,
+      currentRound: m.currentRound,
+      roundStartedAt: m.roundStartedAt,
+      roundEndsAt: m.roundEndsAt,
+      nextRoundAt: m.nextRoundAt,
+    }));
+  }
+
+  /**
+   * Mark a waiting or locking match as cancelled (did not fill in time or its room lock failed)
+   */
+  async cancelMatch(match: Match): Promise<void> {
+    try {
+      await prisma.match.update({
+        where: { id: match.id },
+        data: {
+          status: 'cancelled',
+          finishedAt: match.finishedAt || new Date(),
+        },
+      });
+      console.log(`🚫 Match ${match.id} cancelled in database`);
+    } catch (error) {
+      console.error(`❌ Error cancelling match ${match.id} in database:`, error);
+      // Don't throw - match is already removed from memory
+    }
+  }
+
   /**
    * Update match status and winners when match finishes
+   * @param payout - amount paid to each winner (paid rooms)
    */
-  async finishMatch(match: Match, winners: Player[]): Promise<void> {
+  async finishMatch(match: Match, winners: Player[], payout: number = 0): Promise<void> {
     try {
       // Update match status
       const updated = await prisma.match.update({
@@ -87,6 +343,9 @@ export class MatchService {
         data: {
           status: 'finished',
           finishedAt: match.finishedAt || new Date(),
+          roundStartedAt: null,
+          roundEndsAt: null,
+          nextRoundAt: null,
         },
       });
       
@@ -112,6 +371,7 @@ export class MatchService {
             data: {
               score: player.score || 0,
               isWinner: winnerIds.has(player.id),
+              payout: winnerIds.has(player.id) ? payout : 0,
               leftEarly: !match.players.some((p) => p.id === player.id), // Player left if not in current players
               leftAt: !match.players.some((p) => p.id === player.id) ? new Date() : undefined,
             },
@@ -123,6 +383,48 @@ export class MatchService {
       // Don't throw - match can continue without DB save
     }
   }
+
+  private dbMatchToReplay(dbMatch: any): MatchReplay {
+    return {
+      id: dbMatch.id,
+      presetId: dbMatch.presetId,
+      roomType: dbMatch.roomType,
+      status: dbMatch.status,
+      isPrivate: dbMatch.isPrivate,
+      createdAt: dbMatch.createdAt,
+      startedAt: dbMatch.startedAt,
+      finishedAt: dbMatch.finishedAt,
+      players: dbMatch.players.map((p: any) => ({
+        playerId: p.playerId,
+        playerName: p.playerName,
+        score: p.score,
+        isWinner: p.isWinner,
+        leftEarly: p.leftEarly,
+      })),
+      // Only finished rounds have a MatchRound row, so presses of the current round stay hidden
+      // (presses before the round start belong to a voided attempt of the same round)
+      rounds: dbMatch.rounds.map((round: any) => ({
+        roundNumber: round.roundNumber,
+        endTime: round.endTime,
+        scoring: {
+          strategy: round.scoringStrategy,
+          params: round.scoringParams ?? undefined,
+        },
+        startedAt: round.startedAt,
+        endedAt: round.endedAt,
+        results: round.results,
+        presses: dbMatch.presses
+          .filter((press: any) => press.roundNumber === round.roundNumber && press.receivedAt >= round.startedAt)
+          .map((press: any) => ({
+            playerId: press.playerId,
+            pressTime: press.pressTime,
+            compensationMs: press.compensationMs,
+            accepted: press.accepted,
+            receivedAt: press.receivedAt,
+          })),
+      })),
+    };
+  }
 }
 
 // Singleton instance
@@ -1,9 +1,68 @@
 import { Match, Player, RoomType, RoomPreset } from '../types/game';
-import { ROOM_PRESETS } from '../constants/rooms.js';
+import { roomPresetService } from './RoomPresetService.js';
 import { prisma } from '../db/prisma.js';
 import { escrowContractService } from './EscrowContractService.js';
+import { playerStatsService } from './PlayerStats.js';
+import { DEFAULT_RATING, ratingWindow } from '../utils/rating.js';
 import { matchIdToRoomId } from '../utils/roomId.js';
 import { toNano } from '@ton/core';
+import crypto from 'crypto';
+
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No ambiguous 0/O, 1/I
+const INVITE_CODE_LENGTH = 6;
+const RESUMABLE_STATUSES: Match['status'][] = ['waiting', 'locking', 'playing']; // Finished and cancelled matches are never resumed
+const MIN_PLAYERS_TO_START = 2;
+const RATING_WINDOW_BASE = 100; // Max rating difference right after a match is created
+const RATING_WINDOW_GROWTH_PER_SEC = 10; // Window widens while the match keeps waiting
+const QUEUE_STATUS_INTERVAL_MS = 5000; // How often waiting players get match:queueStatus
+const FILL_RATE_WINDOW_MS = 10 * 60 * 1000; // Joins considered for wait estimates
+const DEFAULT_QUEUE_TIMEOUT_SEC = 300; // Waiting matches are cancelled after this (MATCH_QUEUE_TIMEOUT_SEC, 0 disables)
+const DEFAULT_LOCK_TIMEOUT_SEC = 300; // Locking matches are cancelled if the room is not locked in time (MATCH_LOCK_TIMEOUT_SEC, 0 disables)
+const LOCK_CONFIRM_GRACE_MS = 60000; // A sent lock not reflected in the room by then was rejected by the contract
+const ROOM_STATUS_LOCKED = 1; // Escrow contract room status (0=OPEN, 1=LOCKED, 2=FINISHED, 3=CANCELED)
+
+/**
+ * Queue status of a player in a waiting match
+ */
+export interface QueueStatus {
+  matchId: string;
+  position: number; // 1-based join order in the match
+  players: number;
+  maxPlayers: number;
+  playersNeeded: number;
+  waitedMs: number;
+  estimatedWaitMs: number | null; // null when there are not enough recent joins to estimate
+  cancelsAt: number | null; // Timestamp when the match is cancelled if not full (null if timeout disabled)
+  countdownEndsAt: number | null; // Timestamp when the match starts without being full (null if no countdown)
+}
+
+/**
+ * Why a match was cancelled before it started
+ * timeout - did not fill in time, lock_failed - escrow room could not be locked
+ */
+export type MatchCancelReason = 'timeout' | 'lock_failed';
+
+/**
+ * Callbacks invoked by the matchmaking queue
+ * (implemented by the matchmaking socket handlers)
+ */
+export interface MatchQueueHandlers {
+  queueStatus(socketId: string, status: QueueStatus): void;
+  matchCancelled(match: Match, socketIds: string[], reason: MatchCancelReason): Promise<void>;
+  matchLocked(match: Match): Promise<void>; // Escrow room locked, match is now playing
+  countdownChanged(match: Match): void; // Countdown started (countdownEndsAt set) or reset
+  countdownExpired(matchId: string): Promise<void>;
+}
+
+function getQueueTimeoutMs(): number {
+  const seconds = parseInt(process.env.MATCH_QUEUE_TIMEOUT_SEC || '', 10);
+  return (Number.isNaN(seconds) ? DEFAULT_QUEUE_TIMEOUT_SEC : Math.max(0, seconds)) * 1000;
+}
+
+function getLockTimeoutMs(): number {
+  const seconds = parseInt(process.env.MATCH_LOCK_TIMEOUT_SEC || '', 10);
+  return (Number.isNaN(seconds) ? DEFAULT_LOCK_TIMEOUT_SEC : Math.max(0, seconds)) * 1000;
+}
 
 interface ActiveMatch {
   match: Match;
@@ -14,26 +73,44 @@ export class Matchmaker {
   private activeMatches: Map<string, ActiveMatch> = new Map();
   private playerToMatch: Map<string, string> = new Map(); // playerId -> matchId
   private socketToPlayer: Map<string, string> = new Map(); // socketId -> playerId
+  private recentJoins: Map<string, number[]> = new Map(); // presetId -> join timestamps (public matches)
+  private queueHandlers: MatchQueueHandlers | null = null;
+  private queueTimer: NodeJS.Timeout | null = null;
+  private queueTimeoutMs = 0;
+  private lockCheckRunning = false;
+  private countdownTimers: Map<string, NodeJS.Timeout> = new Map(); // matchId -> start countdown
+  private disconnectTimers: Map<string, NodeJS.Timeout> = new Map(); // playerId -> reconnect grace period
 
   /**
-   * Find or create a match for a player
+   * Find or create a match for a player in a room preset
    */
-  async findOrCreateMatch(roomType: RoomType, player: Player): Promise<Match> {
-    const preset = ROOM_PRESETS.find((p) => p.type === roomType);
+  async findOrCreateMatch(presetId: string, player: Player): Promise<Match> {
+    const preset = roomPresetService.getPreset(presetId);
     if (!preset) {
-      throw new Error(`Room preset not found for type: ${roomType}`);
+      throw new Error(`Room preset not found: ${presetId}`);
+    }
+    if (!preset.enabled) {
+      throw new Error(`Room preset ${presetId} is disabled`);
+    }
+    const roomType = preset.type;
+    const ratingMode = preset.matchmaking === 'rating';
+
+    if (ratingMode && player.rating === undefined) {
+      player.rating = await playerStatsService.getRating(player.id);
     }
 
     // First, try to find in active matches
     const waitingMatches = Array.from(this.activeMatches.values()).filter(
       (activeMatch) =>
-        activeMatch.match.roomType === roomType &&
+        activeMatch.match.presetId === presetId &&
+        !activeMatch.match.isPrivate &&
         activeMatch.match.status === 'waiting' &&
         activeMatch.match.players.length > 0 &&
-        activeMatch.match.players.length < preset.maxPlayers
+        activeMatch.match.players.length < preset.maxPlayers &&
+        (!ratingMode || this.fitsRatingWindow(activeMatch.match, player.rating!))
     );
 
-    // Use the first available waiting match from memory
+    // Use the first (oldest) available waiting match from memory
     let waitingMatch: ActiveMatch | undefined = waitingMatches[0];
 
     // If not found in memory, try to restore from database
@@ -41,7 +118,8 @@ export class Matchmaker {
       try {
         const dbMatch = await prisma.match.findFirst({
           where: {
-            roomType,
+            presetId,
+            isPrivate: false,
             status: 'waiting',
           },
           include: {
@@ -60,10 +138,11 @@ export class Matchmaker {
           },
         });
 
-        if (dbMatch && dbMatch.players.length < preset.maxPlayers) {
+        if (dbMatch && dbMatch.players.length < preset.maxPlayers && !this.activeMatches.has(dbMatch.id)) {
           // Restore match from database
           const restoredMatch: Match = {
             id: dbMatch.id,
+            presetId,
             roomType: dbMatch.roomType as RoomType,
             status: dbMatch.status as 'waiting' | 'playing' | 'finished',
             players: dbMatch.players.map(p => ({
@@ -83,6 +162,12 @@ export class Matchmaker {
             finishedAt: dbMatch.finishedAt || undefined,
           };
 
+          if (ratingMode) {
+            for (const restoredPlayer of restoredMatch.players) {
+              restoredPlayer.rating = await playerStatsService.getRating(restoredPlayer.id);
+            }
+          }
+
           // Add to active matches
           this.activeMatches.set(dbMatch.id, {
             match: restoredMatch,
@@ -96,7 +181,7 @@ export class Matchmaker {
 
           console.log(`♻️ Restored match ${dbMatch.id} from database (${restoredMatch.players.length} players)`);
           const restoredActiveMatch = this.activeMatches.get(dbMatch.id);
-          if (restoredActiveMatch) {
+          if (restoredActiveMatch && (!ratingMode || this.fitsRatingWindow(restoredMatch, player.rating!))) {
             waitingMatch = restoredActiveMatch;
           }
         }
@@ -154,14 +239,16 @@ export class Matchmaker {
         }
       }
       this.playerToMatch.set(player.id, waitingMatch.match.id);
+      this.recordJoin(presetId);
       return waitingMatch.match;
     }
 
     // Create new match
-    console.log(`🆕 Creating new match for player ${player.id} (roomType: ${roomType}). Available waiting matches: ${waitingMatches.length}`);
+    console.log(`🆕 Creating new match for player ${player.id} (preset: ${presetId}). Available waiting matches: ${waitingMatches.length}`);
 
     const match: Match = {
       id: this.generateMatchId(),
+      presetId,
       roomType,
       status: 'waiting',
       players: [player],
@@ -170,6 +257,7 @@ export class Matchmaker {
       roundResults: [],
       createdAt: new Date(),
       statsUpdated: false,
+      minPlayers: preset.minPlayers,
     };
 
     this.activeMatches.set(match.id, {
@@ -178,9 +266,200 @@ export class Matchmaker {
     });
 
     this.playerToMatch.set(player.id, match.id);
+    this.recordJoin(presetId);
+
+    return match;
+  }
+
+  /**
+   * Create a private match that is never offered to public matchmaking
+   * Other players join it by invite code
+   * @param minPlayers - players required before the creator can start early
+   */
+  async createPrivateMatch(presetId: string, player: Player, minPlayers: number = MIN_PLAYERS_TO_START): Promise<Match> {
+    const preset = roomPresetService.getPreset(presetId);
+    if (!preset) {
+      throw new Error(`Room preset not found: ${presetId}`);
+    }
+    if (!preset.enabled) {
+      throw new Error(`Room preset ${presetId} is disabled`);
+    }
+    if (!Number.isInteger(minPlayers) || minPlayers < MIN_PLAYERS_TO_START || minPlayers > preset.maxPlayers) {
+      throw new Error(`minPlayers must be between ${MIN_PLAYERS_TO_START} and ${preset.maxPlayers}`);
+    }
+
+    const match: Match = {
+      id: this.generateMatchId(),
+      presetId,
+      roomType: preset.type,
+      status: 'waiting',
+      players: [player],
+      allPlayers: [player],
+      currentRound: 0,
+      roundResults: [],
+      createdAt: new Date(),
+      statsUpdated: false,
+      isPrivate: true,
+      inviteCode: await this.generateInviteCode(),
+      creatorId: player.id,
+      minPlayers,
+    };
+
+    this.activeMatches.set(match.id, {
+      match,
+      sockets: new Set(),
+    });
+    this.playerToMatch.set(player.id, match.id);
+
+    console.log(`🔒 Created private match ${match.id} (preset: ${presetId}, code: ${match.inviteCode}) for player ${player.id}`);
+
+    return match;
+  }
+
+  /**
+   * Create a tournament stage match with its players already seated
+   * Stage matches are private and carry no stake of their own (the tournament pays out),
+   * players attach their sockets with match:resume
+   */
+  createTournamentMatch(tournamentId: string, stage: number, presetId: string, players: Player[]): Match {
+    const preset = roomPresetService.getPreset(presetId);
+    if (!preset) {
+      throw new Error(`Room preset not found: ${presetId}`);
+    }
+    if (players.length < MIN_PLAYERS_TO_START) {
+      throw new Error(`At least ${MIN_PLAYERS_TO_START} players required for a stage match`);
+    }
+
+    const match: Match = {
+      id: this.generateMatchId(),
+      presetId,
+      roomType: 'free',
+      status: 'waiting',
+      players: [...players],
+      allPlayers: [...players],
+      currentRound: 0,
+      roundResults: [],
+      createdAt: new Date(),
+      statsUpdated: false,
+      isPrivate: true,
+      minPlayers: MIN_PLAYERS_TO_START,
+      tournamentId,
+      tournamentStage: stage,
+    };
+
+    this.activeMatches.set(match.id, {
+      match,
+      sockets: new Set(),
+    });
+    for (const player of players) {
+      this.clearDisconnectTimer(player.id);
+      this.playerToMatch.set(player.id, match.id);
+    }
+
+    console.log(`🏆 Created stage ${stage} match ${match.id} of tournament ${tournamentId} (${players.length} players)`);
+    return match;
+  }
+
+  /**
+   * Find private match by invite code (restores it from database if needed)
+   */
+  async findPrivateMatch(inviteCode: string): Promise<Match | undefined> {
+    const code = normalizeInviteCode(inviteCode);
+    if (!code) return undefined;
+
+    const activeMatch = Array.from(this.activeMatches.values()).find(
+      (am) => am.match.isPrivate && am.match.inviteCode === code
+    );
+    if (activeMatch) {
+      return activeMatch.match;
+    }
+
+    try {
+      const dbMatch = await prisma.match.findUnique({
+        where: { inviteCode: code },
+        select: { id: true },
+      });
+      if (dbMatch) {
+        return (await this.restoreMatchById(dbMatch.id)) || undefined;
+      }
+    } catch (error) {
+      console.error(`Error finding private match by invite code ${code}:`, error);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Join a private match by invite code
+   */
+  async joinPrivateMatch(inviteCode: string, player: Player): Promise<Match> {
+    const match = await this.findPrivateMatch(inviteCode);
+    if (!match) {
+      throw new Error('Invite code is invalid or expired');
+    }
+
+    const preset = roomPresetService.getPresetForMatch(match);
+    if (!preset) {
+      throw new Error(`Room preset not found: ${match.presetId}`);
+    }
+
+    if (match.players.some((p) => p.id === player.id)) {
+      this.playerToMatch.set(player.id, match.id);
+      return match;
+    }
+
+    if (match.status !== 'waiting') {
+      throw new Error('Match has already started');
+    }
+    if (match.players.length >= preset.maxPlayers) {
+      throw new Error('Match is full');
+    }
+
+    match.players.push(player);
+    if (!match.allPlayers) {
+      match.allPlayers = [...match.players];
+    } else if (!match.allPlayers.some((p) => p.id === player.id)) {
+      match.allPlayers.push(player);
+    }
+    this.playerToMatch.set(player.id, match.id);
+
+    console.log(`🔑 Player ${player.id} joined private match ${match.id} (${match.players.length}/${preset.maxPlayers} players)`);
+    return match;
+  }
+
+  /**
+   * Check if the creator can start a private match before it is full
+   */
+  canStartEarly(matchId: string, playerId: string): { ok: boolean; reason?: string } {
+    const match = this.getMatch(matchId);
+    if (!match) {
+      return { ok: false, reason: 'Match not found' };
+    }
+    if (!match.isPrivate) {
+      return { ok: false, reason: 'Only private matches can be started early' };
+    }
+    if (match.creatorId !== playerId) {
+      return { ok: false, reason: 'Only the match creator can start the match' };
+    }
+    if (match.status !== 'waiting') {
+      return { ok: false, reason: 'Match has already started' };
+    }
+    const minPlayers = match.minPlayers || MIN_PLAYERS_TO_START;
+    if (match.players.length < minPlayers) {
+      return { ok: false, reason: `At least ${minPlayers} players required to start` };
+    }
+    return { ok: true };
+  }
 
-    // For TON rooms, create room in escrow contract (if not already exists)
-    if (roomType === 'ton' && escrowContractService.isAdminWalletReady()) {
+  /**
+   * Create room in escrow contract for TON matches (if not already exists)
+   * Entry fee and max players come from the preset, min players from the match (preset minPlayers
+   * or the creator's choice for private matches). Queueing again is a no-op (same idempotency key),
+   * a failed creation is retried
+   */
+  async ensureEscrowRoom(match: Match): Promise<void> {
+    const preset = roomPresetService.getPresetForMatch(match);
+    if (preset && match.roomType === 'ton' && escrowContractService.isAdminWalletReady()) {
       try {
         const roomId = matchIdToRoomId(match.id);
         
@@ -194,19 +473,17 @@ export class Matchmaker {
           await escrowContractService.createRoom({
             roomId,
             entryNano,
-            minPlayers: 2, // Minimum 2 players to start
+            minPlayers: match.minPlayers ?? preset.minPlayers,
             maxPlayers: preset.maxPlayers,
           });
           
-          console.log(`✅ Created room ${roomId} in escrow contract for match ${match.id}`);
+          console.log(`✅ Queued room ${roomId} creation in escrow contract for match ${match.id}`);
         }
       } catch (error) {
         console.error(`❌ Failed to create room in escrow contract for match ${match.id}:`, error);
         // Don't throw - match can continue without contract room (for development/testing)
       }
     }
-
-    return match;
   }
 
   /**
@@ -247,6 +524,60 @@ export class Matchmaker {
     }
   }
 
+  /**
+   * Keep a disconnected player in their match for a reconnect grace period
+   * @param onExpired - called if the player has not resumed in time (caller removes the player)
+   * @returns grace period end timestamp, or undefined if the player is not in a match
+   */
+  markDisconnected(playerId: string, graceMs: number, onExpired: () => void): number | undefined {
+    const match = this.getMatchByPlayerId(playerId);
+    const player = match?.players.find((p) => p.id === playerId);
+    if (!match || !player) {
+      return undefined;
+    }
+
+    this.clearDisconnectTimer(playerId);
+    player.disconnected = true;
+    this.disconnectTimers.set(
+      playerId,
+      setTimeout(() => {
+        this.disconnectTimers.delete(playerId);
+        onExpired();
+      }, graceMs)
+    );
+
+    return Date.now() + graceMs;
+  }
+
+  /**
+   * Rebind a player to their match from a new socket (session resumption)
+   * @returns the match, or undefined if the player is no longer in it or the match is over
+   */
+  resumePlayer(playerId: string, matchId: string, socketId: string): Match | undefined {
+    const match = this.getMatch(matchId);
+    const player = match?.players.find((p) => p.id === playerId);
+    if (!match || !player || !RESUMABLE_STATUSES.includes(match.status)) {
+      return undefined;
+    }
+
+    this.clearDisconnectTimer(playerId);
+    delete player.disconnected;
+    this.playerToMatch.set(playerId, matchId);
+    this.addSocketToMatch(matchId, socketId, playerId);
+
+    console.log(`🔌 Player ${playerId} resumed match ${matchId} on socket ${socketId}`);
+    return match;
+  }
+
+  /**
+   * Check if a player has another socket connected to the match
+   */
+  hasOtherSocket(matchId: string, playerId: string, socketId: string): boolean {
+    return this.getMatchSockets(matchId).some(
+      (id) => id !== socketId && this.socketToPlayer.get(id) === playerId
+    );
+  }
+
   /**
    * Get player ID by socket ID
    */
@@ -264,8 +595,9 @@ export class Matchmaker {
 
   /**
    * Start match (when full)
+   * @param early - start a private match before it is full (caller checks canStartEarly)
    */
-  async startMatch(matchId: string): Promise<Match | undefined> {
+  async startMatch(matchId: string, early: boolean = false): Promise<Match | undefined> {
     const activeMatch = this.activeMatches.get(matchId);
     if (!activeMatch) {
       console.warn(`⚠️ Cannot start match ${matchId}: not found in active matches`);
@@ -273,9 +605,9 @@ export class Matchmaker {
     }
 
     const match = activeMatch.match;
-    const preset = ROOM_PRESETS.find((p) => p.type === match.roomType);
+    const preset = roomPresetService.getPresetForMatch(match);
     if (!preset) {
-      console.warn(`⚠️ Cannot start match ${matchId}: preset not found for type ${match.roomType}`);
+      console.warn(`⚠️ Cannot start match ${matchId}: preset ${match.presetId} not found`);
       return undefined;
     }
 
@@ -284,29 +616,31 @@ export class Matchmaker {
       return undefined;
     }
 
-    if (match.players.length < preset.maxPlayers) {
+    if (!early && match.players.length < preset.maxPlayers) {
       console.warn(`⚠️ Cannot start match ${matchId}: only ${match.players.length}/${preset.maxPlayers} players`);
       return undefined;
     }
 
-    if (match.players.length < 2) {
+    if (match.players.length < MIN_PLAYERS_TO_START) {
       console.error(`❌ Cannot start match ${matchId}: at least 2 players required, but only ${match.players.length} player(s)`);
       return undefined;
     }
 
     console.log(`🚀 Starting match ${matchId} with ${match.players.length} players`);
+    this.clearCountdown(match);
     match.status = 'playing';
     match.startedAt = new Date();
 
-    // For TON rooms, lock room in escrow contract
+    // For TON rooms, the match waits in 'locking' until the escrow room is locked (see checkLocks)
     if (match.roomType === 'ton' && escrowContractService.isAdminWalletReady()) {
+      match.status = 'locking';
+      const roomId = matchIdToRoomId(match.id);
       try {
-        const roomId = matchIdToRoomId(match.id);
-        await escrowContractService.lockRoom(roomId);
-        console.log(`✅ Locked room ${roomId} in escrow contract for match ${matchId}`);
+        match.lockOperationId = await escrowContractService.lockRoom(roomId);
+        console.log(`🔒 Queued room ${roomId} lock in escrow contract for match ${matchId}`);
       } catch (error) {
-        console.error(`❌ Failed to lock room in escrow contract for match ${matchId}:`, error);
-        // Don't throw - match can continue without contract lock (for development/testing)
+        // Without a queued lock the next lock check cancels the match
+        console.error(`❌ Failed to queue room lock in escrow contract for match ${matchId}:`, error);
       }
     }
 
@@ -317,6 +651,8 @@ export class Matchmaker {
    * Remove player from match
    */
   async removePlayer(playerId: string): Promise<void> {
+    this.clearDisconnectTimer(playerId);
+
     const matchId = this.playerToMatch.get(playerId);
     if (!matchId) return;
 
@@ -330,12 +666,14 @@ export class Matchmaker {
     );
 
     // If match is empty, remove it and delete from database if waiting
-    if (activeMatch.match.players.length === 0) {
+    // (locking matches are kept until the lock resolves - deposits are refunded if it fails)
+    if (activeMatch.match.players.length === 0 && activeMatch.match.status !== 'locking') {
       console.log(`🗑️ Removing empty match ${matchId} (status: ${activeMatch.match.status})`);
       this.activeMatches.delete(matchId);
       
       // Delete waiting matches from database to prevent orphaned records
-      if (activeMatch.match.status === 'waiting') {
+      // (tournament stage matches are kept - the tournament still starts them)
+      if (activeMatch.match.status === 'waiting' && !activeMatch.match.tournamentId) {
         // Fire and forget - don't block on database delete
         prisma.match.delete({
           where: { id: matchId },
@@ -345,8 +683,16 @@ export class Matchmaker {
           console.error(`❌ Error deleting empty match ${matchId} from database:`, error);
         });
       }
+      this.clearCountdown(activeMatch.match);
     } else {
       console.log(`👋 Player ${playerId} left match ${matchId}. Remaining players: ${activeMatch.match.players.length}`);
+      this.updateCountdown(matchId);
+
+      // Hand private match over to the longest-waiting player
+      if (activeMatch.match.isPrivate && activeMatch.match.creatorId === playerId && activeMatch.match.players.length > 0) {
+        activeMatch.match.creatorId = activeMatch.match.players[0].id;
+        console.log(`🔑 Private match ${matchId} creator is now ${activeMatch.match.creatorId}`);
+      }
     }
 
     this.playerToMatch.delete(playerId);
@@ -359,7 +705,7 @@ export class Matchmaker {
     const match = this.getMatch(matchId);
     if (!match) return false;
 
-    const preset = ROOM_PRESETS.find((p) => p.type === match.roomType);
+    const preset = roomPresetService.getPresetForMatch(match);
     if (!preset) return false;
 
     const isReady = match.status === 'waiting' && match.players.length >= preset.maxPlayers;
@@ -374,17 +720,377 @@ export class Matchmaker {
   }
 
   /**
-   * Get room presets
+   * Register queue handlers
+   */
+  setQueueHandlers(handlers: MatchQueueHandlers): void {
+    this.queueHandlers = handlers;
+  }
+
+  /**
+   * Start periodic queue status updates and cancellation of matches that do not fill in time
+   * @param timeoutMs - waiting time before a match is cancelled (0 disables cancellation)
+   */
+  startQueue(timeoutMs: number = getQueueTimeoutMs()): void {
+    this.queueTimeoutMs = timeoutMs;
+    if (this.queueTimer) {
+      return;
+    }
+
+    this.queueTimer = setInterval(() => {
+      this.checkQueue().catch((error) => {
+        console.error('❌ Error in matchmaking queue check:', error);
+      });
+      this.checkLocks().catch((error) => {
+        console.error('❌ Error in escrow room lock check:', error);
+      });
+    }, QUEUE_STATUS_INTERVAL_MS);
+    console.log(`⏳ Matchmaking queue started (timeout: ${timeoutMs > 0 ? `${timeoutMs / 1000}s` : 'disabled'})`);
+  }
+
+  /**
+   * Stop the queue timer
+   */
+  stopQueue(): void {
+    if (this.queueTimer) {
+      clearInterval(this.queueTimer);
+      this.queueTimer = null;
+    }
+  }
+
+  /**
+   * Cancel waiting matches past the timeout and send queue status to everyone else still waiting
+   */
+  async checkQueue(): Promise<void> {
+    const now = Date.now();
+    // Tournament stage matches are started by the tournament, not by filling up
+    const waitingMatches = Array.from(this.activeMatches.values()).filter(
+      (am) => am.match.status === 'waiting' && !am.match.tournamentId
+    );
+
+    for (const activeMatch of waitingMatches) {
+      const match = activeMatch.match;
+
+      if (this.queueTimeoutMs > 0 && now - match.createdAt.getTime() >= this.queueTimeoutMs) {
+        const socketIds = Array.from(activeMatch.sockets);
+        const cancelled = this.cancelMatch(match.id);
+        if (cancelled) {
+          console.log(`⌛ Match ${match.id} did not fill in time (${match.players.length} players), cancelling`);
+          await this.queueHandlers?.matchCancelled(cancelled, socketIds, 'timeout');
+        }
+        continue;
+      }
+
+      for (const socketId of activeMatch.sockets) {
+        const playerId = this.socketToPlayer.get(socketId);
+        const status = playerId ? this.getQueueStatus(match.id, playerId) : undefined;
+        if (status) {
+          this.queueHandlers?.queueStatus(socketId, status);
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolve locking matches: a locked room starts the match, a failed
+   * or timed out lock cancels it (deposits are refunded by the caller)
+   */
+  async checkLocks(): Promise<void> {
+    if (this.lockCheckRunning) {
+      return;
+    }
+    this.lockCheckRunning = true;
+
+    try {
+      const lockingMatches = Array.from(this.activeMatches.values()).filter(
+        (am) => am.match.status === 'locking'
+      );
+
+      for (const activeMatch of lockingMatches) {
+        try {
+          await this.checkLock(activeMatch);
+        } catch (error) {
+          console.error(`❌ Error checking room lock of match ${activeMatch.match.id}:`, error);
+        }
+      }
+    } finally {
+      this.lockCheckRunning = false;
+    }
+  }
+
+  private async checkLock(activeMatch: ActiveMatch): Promise<void> {
+    const match = activeMatch.match;
+    const roomId = matchIdToRoomId(match.id);
+
+    const room = await escrowContractService.getRoom(roomId);
+    if (room?.status === ROOM_STATUS_LOCKED) {
+      match.status = 'playing';
+      match.lockedAt = new Date();
+      console.log(`🔒 Room ${roomId} locked, match ${match.id} is playing`);
+      await this.queueHandlers?.matchLocked(match);
+      return;
+    }
+
+    let failure: string | undefined;
+    if (room && room.status > ROOM_STATUS_LOCKED) {
+      failure = `Room is already closed (status ${room.status})`;
+    } else if (!match.lockOperationId) {
+      failure = 'Room lock was not queued';
+    } else {
+      const operation = await escrowContractService.getOperation(match.lockOperationId);
+      const lockTimeoutMs = getLockTimeoutMs();
+      if (!operation) {
+        failure = 'Room lock operation not found';
+      } else if (operation.status === 'FAILED') {
+        failure = operation.lastError || 'Room lock operation failed';
+      } else if (lockTimeoutMs > 0 && Date.now() - (match.startedAt ?? match.createdAt).getTime() >= lockTimeoutMs) {
+        // A lock already sent may still land and keep the deposits from being refunded, so only a lock
+        // still in the outbox is withdrawn; a sent one waits until it is confirmed or expires (FAILED)
+        if (operation.status === 'PENDING') {
+          if (await escrowContractService.cancelOperation(operation.id, 'Room was not locked in time')) {
+            failure = 'Room was not locked in time';
+          }
+        } else if (
+          operation.status === 'CONFIRMED' &&
+          Date.now() - (operation.confirmedAt ?? operation.createdAt).getTime() >= LOCK_CONFIRM_GRACE_MS
+        ) {
+          failure = 'Room lock was not accepted by the contract';
+        }
+      }
+    }
+    if (!failure) {
+      return;
+    }
+
+    const socketIds = Array.from(activeMatch.sockets);
+    const cancelled = this.cancelMatch(match.id);
+    if (cancelled) {
+      console.error(`❌ Room ${roomId} lock failed for match ${match.id} (${failure}), cancelling`);
+      await this.queueHandlers?.matchCancelled(cancelled, socketIds, 'lock_failed');
+    }
+  }
+
+  /**
+   * Restore matches that were locking their room when the process stopped
+   * (the lock check resumes them)
+   * @returns number of restored matches
+   */
+  async restoreLockingMatches(): Promise<number> {
+    let dbMatches;
+    try {
+      dbMatches = await prisma.match.findMany({
+        where: { status: 'locking' },
+        select: { id: true },
+      });
+    } catch (error: any) {
+      if (error?.code === 'ECONNREFUSED' || error?.code === 'P1001') {
+        console.warn('⚠️ Database not available. Skipping locking match recovery.');
+        return 0;
+      }
+      throw error;
+    }
+
+    let restored = 0;
+    for (const dbMatch of dbMatches) {
+      if (await this.restoreMatchById(dbMatch.id)) {
+        restored++;
+      }
+    }
+
+    if (restored > 0) {
+      console.log(`♻️ Restored ${restored} locking match(es)`);
+    }
+    return restored;
+  }
+
+  /**
+   * Queue status of a player in a waiting match
+   */
+  getQueueStatus(matchId: string, playerId: string): QueueStatus | undefined {
+    const match = this.getMatch(matchId);
+    if (!match || match.status !== 'waiting') return undefined;
+
+    const preset = roomPresetService.getPresetForMatch(match);
+    if (!preset) return undefined;
+
+    const index = match.players.findIndex((p) => p.id === playerId);
+    if (index === -1) return undefined;
+
+    const playersNeeded = Math.max(0, preset.maxPlayers - match.players.length);
+
+    return {
+      matchId,
+      position: index + 1,
+      players: match.players.length,
+      maxPlayers: preset.maxPlayers,
+      playersNeeded,
+      waitedMs: Date.now() - match.createdAt.getTime(),
+      // Private matches fill by invite, public fill rates say nothing about them
+      estimatedWaitMs: match.isPrivate ? null : this.estimateWaitMs(preset.id, playersNeeded),
+      cancelsAt: this.queueTimeoutMs > 0 ? match.createdAt.getTime() + this.queueTimeoutMs : null,
+      countdownEndsAt: match.countdownEndsAt ?? null,
+    };
+  }
+
+  /**
+   * Estimate time until playersNeeded more players join a preset, from recent join rate
+   */
+  estimateWaitMs(presetId: string, playersNeeded: number): number | null {
+    if (playersNeeded === 0) return 0;
+
+    const joins = this.pruneJoins(presetId);
+    if (joins.length < 2) return null;
+
+    const averageIntervalMs = (joins[joins.length - 1] - joins[0]) / (joins.length - 1);
+    return Math.round(averageIntervalMs * playersNeeded);
+  }
+
+  /**
+   * Cancel a waiting or locking match and forget it (refunds are handled by the caller)
+   */
+  cancelMatch(matchId: string): Match | undefined {
+    const activeMatch = this.activeMatches.get(matchId);
+    if (!activeMatch || (activeMatch.match.status !== 'waiting' && activeMatch.match.status !== 'locking')) {
+      return undefined;
+    }
+
+    const match = activeMatch.match;
+    this.clearCountdown(match);
+    match.status = 'cancelled';
+    match.finishedAt = new Date();
+
+    this.activeMatches.delete(matchId);
+    for (const player of match.players) {
+      if (this.playerToMatch.get(player.id) === matchId) {
+        this.playerToMatch.delete(player.id);
+      }
+    }
+    for (const socketId of activeMatch.sockets) {
+      this.socketToPlayer.delete(socketId);
+    }
+
+    return match;
+  }
+
+  /**
+   * Start or reset the start countdown of a public waiting match
+   * The countdown runs while minPlayers <= players < maxPlayers; when it expires the
+   * match starts without being full. Private matches are started by their creator instead.
+   */
+  updateCountdown(matchId: string): void {
+    const match = this.getMatch(matchId);
+    if (!match || match.status !== 'waiting' || match.isPrivate) {
+      return;
+    }
+
+    const preset = roomPresetService.getPresetForMatch(match);
+    if (!preset || preset.startCountdownSec <= 0) {
+      return;
+    }
+
+    const minPlayers = Math.max(match.minPlayers || preset.minPlayers, MIN_PLAYERS_TO_START);
+    const inRange = match.players.length >= minPlayers && match.players.length < preset.maxPlayers;
+
+    if (inRange && !this.countdownTimers.has(matchId)) {
+      const delayMs = preset.startCountdownSec * 1000;
+      match.countdownEndsAt = Date.now() + delayMs;
+      this.countdownTimers.set(
+        matchId,
+        setTimeout(() => {
+          this.countdownTimers.delete(matchId);
+          this.queueHandlers?.countdownExpired(matchId).catch((error) => {
+            console.error(`❌ Error starting match ${matchId} after countdown:`, error);
+          });
+        }, delayMs)
+      );
+      console.log(`⏱️ Match ${matchId} reached ${match.players.length}/${minPlayers} players, starting in ${preset.startCountdownSec}s`);
+      this.queueHandlers?.countdownChanged(match);
+    } else if (!inRange && this.countdownTimers.has(matchId)) {
+      this.clearCountdown(match);
+      // A full match is started by the join handler, only announce resets below the threshold
+      if (match.players.length < minPlayers) {
+        console.log(`⏱️ Match ${matchId} dropped below ${minPlayers} players, countdown reset`);
+        this.queueHandlers?.countdownChanged(match);
+      }
+    }
+  }
+
+  /**
+   * Check if a match whose countdown expired can start (still waiting with minPlayers joined)
+   */
+  canStartAfterCountdown(matchId: string): boolean {
+    const match = this.getMatch(matchId);
+    if (!match || match.status !== 'waiting') return false;
+
+    const preset = roomPresetService.getPresetForMatch(match);
+    if (!preset) return false;
+
+    return match.players.length >= Math.max(match.minPlayers || preset.minPlayers, MIN_PLAYERS_TO_START);
+  }
+
+  /**
+   * Stop the reconnect grace timer of a player
+   */
+  private clearDisconnectTimer(playerId: string): void {
+    const timer = this.disconnectTimers.get(playerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.disconnectTimers.delete(playerId);
+    }
+  }
+
+  /**
+   * Stop the start countdown of a match
+   */
+  private clearCountdown(match: Match): void {
+    const timer = this.countdownTimers.get(match.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.countdownTimers.delete(match.id);
+    }
+    match.countdownEndsAt = undefined;
+  }
+
+  /**
+   * Remember a public matchmaking join (used for wait estimates)
+   */
+  private recordJoin(presetId: string): void {
+    const joins = this.pruneJoins(presetId);
+    joins.push(Date.now());
+    this.recentJoins.set(presetId, joins);
+  }
+
+  /**
+   * Drop joins older than the fill rate window
+   */
+  private pruneJoins(presetId: string): number[] {
+    const cutoff = Date.now() - FILL_RATE_WINDOW_MS;
+    const joins = (this.recentJoins.get(presetId) || []).filter((joinedAt) => joinedAt >= cutoff);
+    this.recentJoins.set(presetId, joins);
+    return joins;
+  }
+
+  /**
+   * Get public matches currently being played (spectatable)
+   */
+  getLiveMatches(): Match[] {
+    return Array.from(this.activeMatches.values())
+      .map((am) => am.match)
+      .filter((match) => match.status === 'playing' && !match.isPrivate);
+  }
+
+  /**
+   * Get room presets available to players
    */
   getRoomPresets(): RoomPreset[] {
-    return ROOM_PRESETS;
+    return roomPresetService.getPresets();
   }
 
   /**
    * Restore match from database by matchId
    * Used when match is not in memory (e.g., after server restart)
+   * @param resumableOnly - only restore waiting, locking or playing matches (session resumption)
    */
-  async restoreMatchById(matchId: string): Promise<Match | null> {
+  async restoreMatchById(matchId: string, resumableOnly: boolean = false): Promise<Match | null> {
     // Check if already in memory
     const existingMatch = this.activeMatches.get(matchId);
     if (existingMatch) {
@@ -407,15 +1113,21 @@ export class Matchmaker {
         },
       });
 
-      if (!dbMatch) {
+      // Cancelled matches are never resumed
+      if (!dbMatch || dbMatch.status === 'cancelled') {
+        return null;
+      }
+      if (resumableOnly && !RESUMABLE_STATUSES.includes(dbMatch.status as Match['status'])) {
         return null;
       }
 
       // Restore match from database
+      // Matches created before the room catalogue fall back to the default preset of their type
       const restoredMatch: Match = {
         id: dbMatch.id,
+        presetId: dbMatch.presetId || roomPresetService.getDefaultPreset(dbMatch.roomType as RoomType)?.id || '',
         roomType: dbMatch.roomType as RoomType,
-        status: dbMatch.status as 'waiting' | 'playing' | 'finished',
+        status: dbMatch.status as Match['status'],
         players: dbMatch.players.map(p => ({
           id: p.playerId,
           name: p.playerName,
@@ -431,6 +1143,14 @@ export class Matchmaker {
         createdAt: dbMatch.createdAt,
         startedAt: dbMatch.startedAt || undefined,
         finishedAt: dbMatch.finishedAt || undefined,
+        isPrivate: dbMatch.isPrivate,
+        inviteCode: dbMatch.inviteCode || undefined,
+        creatorId: dbMatch.creatorId || undefined,
+        minPlayers: dbMatch.minPlayers || undefined,
+        tournamentId: dbMatch.tournamentId || undefined,
+        tournamentStage: dbMatch.tournamentStage || undefined,
+        lockOperationId: dbMatch.lockOperationId || undefined,
+        lockedAt: dbMatch.lockedAt || undefined,
       };
 
       // Add to active matches
@@ -452,6 +1172,54 @@ export class Matchmaker {
     }
   }
 
+  /**
+   * Check if a player's rating is close enough to the average rating of a waiting match
+   * The window widens the longer the match has been waiting
+   */
+  private fitsRatingWindow(match: Match, rating: number): boolean {
+    if (match.players.length === 0) {
+      return true;
+    }
+
+    const averageRating =
+      match.players.reduce((sum, p) => sum + (p.rating ?? DEFAULT_RATING), 0) / match.players.length;
+    const waitedMs = Date.now() - match.createdAt.getTime();
+
+    return Math.abs(rating - averageRating) <= ratingWindow(waitedMs, RATING_WINDOW_BASE, RATING_WINDOW_GROWTH_PER_SEC);
+  }
+
+  /**
+   * Generate invite code not used by any match (codes of finished matches stay in the database)
+   */
+  private async generateInviteCode(): Promise<string> {
+    const inUse = new Set(
+      Array.from(this.activeMatches.values()).map((am) => am.match.inviteCode).filter(Boolean)
+    );
+
+    let code: string;
+    do {
+      code = Array.from(
+        { length: INVITE_CODE_LENGTH },
+        () => INVITE_CODE_ALPHABET[crypto.randomInt(INVITE_CODE_ALPHABET.length)]
+      ).join('');
+    } while (inUse.has(code) || (await this.isInviteCodeStored(code)));
+
+    return code;
+  }
+
+  private async isInviteCodeStored(code: string): Promise<boolean> {
+    try {
+      const existing = await prisma.match.findUnique({
+        where: { inviteCode: code },
+        select: { id: true },
+      });
+      return !!existing;
+    } catch (error) {
+      console.error(`Error checking invite code ${code}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Generate unique match ID
    */
@@ -460,6 +1228,13 @@ export class Matchmaker {
   }
 }
 
+/**
+ * Normalize user-entered invite code (case-insensitive, ignores spaces and dashes)
+ */
+export function normalizeInviteCode(inviteCode: string): string {
+  return inviteCode.toUpperCase().replace(/[\s-]/g, '');
+}
+
 // Singleton instance
 export const matchmaker = new Matchmaker();
 
@@ -1,6 +1,7 @@
-import { Match, Player } from '../types/game';
+import { Match, Player, QuestReward, Tournament } from '../types/game';
 import { determineWinners, calculatePayout } from '../utils/gameLogic.js';
-import { ROOM_PRESETS } from '../constants/rooms.js';
+import { roomPresetService } from './RoomPresetService.js';
+import type { Prisma } from '../../generated/prisma/client.js';
 import { prisma } from '../db/prisma.js';
 import crypto from 'crypto';
 
@@ -168,11 +169,9 @@ export class PaymentService {
     }
 
     // Calculate payout
-    const preset = ROOM_PRESETS.find(
-      (p) => p.type === match.roomType
-    );
+    const preset = roomPresetService.getPresetForMatch(match);
     if (!preset) {
-      throw new Error(`Room preset not found for type: ${match.roomType}`);
+      throw new Error(`Room preset not found: ${match.presetId}`);
     }
 
     const totalBank = preset.entryFee * playersToCheck.length;
@@ -337,7 +336,7 @@ export class PaymentService {
         return null;
       }
 
-      const preset = ROOM_PRESETS.find((p) => p.type === match.roomType);
+      const preset = roomPresetService.getPresetForMatch(match);
       if (!preset) {
         return null;
       }
@@ -435,11 +434,13 @@ export class PaymentService {
 
   /**
    * Verify entry payment before joining room
+   * @param expectedAmount - entry fee of the room being joined (payment must match it)
    */
   async verifyEntryPayment(
     paymentId: string,
     playerId: string,
-    signature: string
+    signature: string,
+    expectedAmount?: number
   ): Promise<boolean> {
     try {
       const payment = await prisma.payment.findUnique({
@@ -456,6 +457,11 @@ export class PaymentService {
         return false;
       }
 
+      if (expectedAmount !== undefined && Number(payment.amount) !== expectedAmount) {
+        console.error(`❌ Entry payment ${paymentId} amount ${payment.amount} does not match room entry fee ${expectedAmount}`);
+        return false;
+      }
+
       // Verify signature
       const paymentData = `${paymentId}:${playerId}:${payment.amount.toString()}:${payment.currency}:${payment.createdAt.getTime()}`;
       if (!this.verifySignature(paymentData, signature)) {
@@ -509,6 +515,165 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Claim a verified entry payment for a tournament registration
+   * Conditional on the payment still being unused, so one payment is never spent twice
+   * @param client - transaction client of the registration
+   * @returns false if the payment was already used
+   */
+  async linkPaymentToTournament(
+    paymentId: string,
+    tournamentId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<boolean> {
+    const claimed = await client.payment.updateMany({
+      where: { id: paymentId, status: 'pending', tournamentId: null },
+      data: {
+        tournamentId,
+        status: 'completed', // Entry payment is completed when player registers
+      },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    console.log(`✅ Linked payment ${paymentId} to tournament ${tournamentId}`);
+    return true;
+  }
+
+  /**
+   * Create payout records for tournament prizes
+   * Idempotent: prizes of a tournament are only created once
+   */
+  async processTournamentCompletion(
+    tournament: Tournament,
+    prizes: Array<{ playerId: string; playerName: string; amount: number }>
+  ): Promise<void> {
+    const existingPayouts = await prisma.payment.count({
+      where: {
+        tournamentId: tournament.id,
+        paymentType: 'payout',
+      },
+    });
+    if (existingPayouts > 0) {
+      console.warn(`⚠️ Tournament ${tournament.id} prizes already processed`);
+      return;
+    }
+
+    await prisma.$transaction(
+      prizes.map((prize) => {
+        const paymentId = crypto.randomUUID();
+        const paymentData = `${tournament.id}:${prize.playerId}:${prize.amount}:${tournament.currency}:${Date.now()}`;
+
+        return prisma.payment.create({
+          data: {
+            id: paymentId,
+            tournamentId: tournament.id,
+            playerId: prize.playerId,
+            playerName: prize.playerName,
+            amount: prize.amount,
+            currency: tournament.currency,
+            paymentType: 'payout',
+            status: 'pending',
+            signature: this.generateSignature(paymentData),
+            verified: true,
+          },
+        });
+      })
+    );
+
+    console.log(`✅ Processed tournament ${tournament.id} completion, ${prizes.length} prizes`);
+  }
+
+  /**
+   * Create refund records for every entry payment of a cancelled tournament
+   * Idempotent: an entry payment is refunded at most once
+   */
+  async refundTournamentEntries(tournament: Tournament): Promise<number> {
+    const [entries, refunds] = await Promise.all([
+      prisma.payment.findMany({
+        where: { tournamentId: tournament.id, paymentType: 'entry' },
+      }),
+      prisma.payment.findMany({
+        where: { tournamentId: tournament.id, paymentType: 'refund' },
+        select: { playerId: true },
+      }),
+    ]);
+    const refundedPlayers = new Set(refunds.map((r: any) => r.playerId));
+    const toRefund = entries.filter((entry: any) => !refundedPlayers.has(entry.playerId));
+
+    for (const entry of toRefund) {
+      const paymentId = crypto.randomUUID();
+      const paymentData = `${tournament.id}:${entry.playerId}:${entry.amount.toString()}:${entry.currency}:${Date.now()}`;
+
+      await prisma.payment.create({
+        data: {
+          id: paymentId,
+          tournamentId: tournament.id,
+          playerId: entry.playerId,
+          playerName: entry.playerName,
+          amount: entry.amount,
+          currency: entry.currency,
+          paymentType: 'refund',
+          status: 'pending',
+          signature: this.generateSignature(paymentData),
+          verified: true,
+        },
+      });
+    }
+
+    if (toRefund.length > 0) {
+      console.log(`💰 Created ${toRefund.length} entry refund(s) for cancelled tournament ${tournament.id}`);
+    }
+    return toRefund.length;
+  }
+
+  /**
+   * Create the reward payment of a completed quest
+   * Bonus currency is credited immediately, Stars credit is pending like match payouts
+   * @returns payment ID
+   */
+  async grantQuestReward(
+    playerId: string,
+    playerName: string,
+    playerQuestId: string,
+    reward: QuestReward
+  ): Promise<string> {
+    const paymentId = crypto.randomUUID();
+    const currency = reward.type === 'stars' ? 'stars' : 'bonus';
+    const paymentData = `${playerQuestId}:${playerId}:${reward.amount}:${currency}:${Date.now()}`;
+    const completed = currency === 'bonus';
+
+    await prisma.payment.create({
+      data: {
+        id: paymentId,
+        playerId,
+        playerName,
+        amount: reward.amount,
+        currency,
+        paymentType: 'reward',
+        status: completed ? 'completed' : 'pending',
+        signature: this.generateSignature(paymentData),
+        verified: true,
+        completedAt: completed ? new Date() : null,
+      },
+    });
+
+    console.log(`🎁 Granted quest reward ${reward.amount} ${currency} to player ${playerId} (${playerQuestId})`);
+    return paymentId;
+  }
+
+  /**
+   * Get free-room bonus currency balance of a player
+   */
+  async getBonusBalance(playerId: string): Promise<number> {
+    const result = await prisma.payment.aggregate({
+      where: { playerId, currency: 'bonus', status: 'completed' },
+      _sum: { amount: true },
+    });
+    return Number(result._sum.amount ?? 0);
+  }
+
   /**
    * Get entry payment by ID
    */
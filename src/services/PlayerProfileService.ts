@@ -0,0 +1,103 @@
+import { RoomType, UnlockedAchievement } from '../types/game';
+import { prisma } from '../db/prisma.js';
+import { PlayerStats, playerStatsService } from './PlayerStats.js';
+import { achievementService } from './AchievementService.js';
+import { PressStats, RoundPress, WinStreaks, favouriteRoomType, summarizePresses, winStreaks } from '../utils/profile.js';
+
+const AMOUNT_PRECISION = 1e9; // TON has 9 decimals
+
+export interface CurrencyTotals {
+  wagered: number; // Entry fees of finished paid matches and tournaments
+  won: number; // Match payouts and tournament prizes
+  net: number;
+}
+
+export interface PlayerProfile {
+  playerId: string;
+  playerName: string;
+  avatarUrl: string | null;
+  stats: PlayerStats;
+  presses: PressStats;
+  streaks: WinStreaks;
+  favouriteRoomType: RoomType | null;
+  currencies: Record<'stars' | 'ton', CurrencyTotals>;
+  achievements: UnlockedAchievement[];
+}
+
+/**
+ * Service for player profiles (lifetime stats plus stats derived from match history)
+ */
+export class PlayerProfileService {
+  /**
+   * Get player profile, null for players without finished games
+   */
+  async getProfile(playerId: string): Promise<PlayerProfile | null> {
+    const stats = await playerStatsService.getPlayerStats(playerId);
+    if (!stats) {
+      return null;
+    }
+
+    const [matches, rounds, tournamentEntries, achievements] = await Promise.all([
+      prisma.matchPlayer.findMany({
+        where: { playerId, match: { status: 'finished' } },
+        select: {
+          isWinner: true,
+          payout: true,
+          match: { select: { roomType: true, entryFee: true } },
+        },
+        orderBy: { match: { finishedAt: 'asc' } },
+      }),
+      // Only the player's own result of every round
+      prisma.$queryRawUnsafe(
+        `SELECT r."endTime", (e->>'pressTime')::int AS "pressTime", (e->>'position')::int AS "position"
+        FROM "match_rounds" r
+        JOIN "matches" m ON m."id" = r."matchId" AND m."status" = 'finished'
+        CROSS JOIN LATERAL jsonb_array_elements(r."results") e
+        WHERE e->>'id' = $1`,
+        playerId
+      ),
+      prisma.tournamentEntry.findMany({
+        where: { playerId, tournament: { status: 'finished' } },
+        select: {
+          prize: true,
+          tournament: { select: { currency: true, entryFee: true } },
+        },
+      }),
+      achievementService.getPlayerAchievements(playerId),
+    ]);
+
+    const currencies: PlayerProfile['currencies'] = {
+      stars: { wagered: 0, won: 0, net: 0 },
+      ton: { wagered: 0, won: 0, net: 0 },
+    };
+    const addTotals = (currency: string, wagered: number, won: number) => {
+      const totals = currencies[currency as 'stars' | 'ton'];
+      if (!totals) return;
+      totals.wagered = Math.round((totals.wagered + wagered) * AMOUNT_PRECISION) / AMOUNT_PRECISION;
+      totals.won = Math.round((totals.won + won) * AMOUNT_PRECISION) / AMOUNT_PRECISION;
+      totals.net = Math.round((totals.won - totals.wagered) * AMOUNT_PRECISION) / AMOUNT_PRECISION;
+    };
+
+    for (const matchPlayer of matches) {
+      addTotals(matchPlayer.match.roomType, Number(matchPlayer.match.entryFee), Number(matchPlayer.payout));
+    }
+    for (const entry of tournamentEntries) {
+      addTotals(entry.tournament.currency, Number(entry.tournament.entryFee), Number(entry.prize ?? 0));
+    }
+
+    return {
+      playerId,
+      playerName: stats.playerName,
+      avatarUrl: stats.avatarUrl || null,
+      stats,
+      presses: summarizePresses(rounds as RoundPress[]),
+      streaks: winStreaks(matches.map((matchPlayer: any) => matchPlayer.isWinner)),
+      favouriteRoomType: favouriteRoomType(matches.map((matchPlayer: any) => matchPlayer.match.roomType as RoomType)),
+      currencies,
+      achievements,
+    };
+  }
+}
+
+// Singleton instance
+export const playerProfileService = new PlayerProfileService();
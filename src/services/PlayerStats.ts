@@ -1,7 +1,50 @@
-import { Player } from '../types/game';
+import { Player, RoomType } from '../types/game';
 import { prisma } from '../db/prisma.js';
+import { DEFAULT_RATING, RatingChange, calculateRatingChanges, placementsFromScores } from '../utils/rating.js';
+import { seasonService } from './SeasonService.js';
+
+const WINRATE_MIN_GAMES = 3; // Games required to appear on win rate leaderboards
+
+/**
+ * SQL expression of the Wilson score lower bound (95% confidence) of a win rate
+ * Few games pull the score down, so 1 win out of 1 game ranks below 30 out of 40
+ */
+function wilsonScoreSql(wins: string, games: string): string {
+  const p = `(${wins}::float8 / ${games})`;
+  return `((${p} + 1.9208 / ${games} - 1.96 * SQRT(${p} * (1 - ${p}) / ${games} + 0.9604 / (${games}::float8 * ${games})))`
+    + ` / (1 + 3.8416 / ${games}))`;
+}
+
+// Rolling windows of match leaderboards
+const LEADERBOARD_WINDOW_MS: Record<LeaderboardWindow, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  all: Number.POSITIVE_INFINITY,
+};
+
+// ORDER BY clauses of match leaderboards (fixed strings, never user input)
+const MATCH_LEADERBOARD_ORDER: Record<Exclude<MatchLeaderboardType, 'earnings'>, string> = {
+  wins: '"totalWins" DESC, "bestScore" DESC',
+  score: '"totalScore" DESC',
+  winrate: `${wilsonScoreSql('COUNT(*) FILTER (WHERE mp."isWinner")', 'COUNT(*)')} DESC, "totalGames" DESC`,
+};
 
 export interface PlayerStats {
+  playerId: string;
+  playerName: string;
+  avatarUrl?: string;
+  totalGames: number;
+  totalWins: number;
+  totalScore: number;
+  bestScore: number;
+  rating: number;
+  ratedGames: number;
+  lastPlayed?: Date;
+}
+
+export interface SeasonPlayerStats {
+  seasonId: string;
   playerId: string;
   playerName: string;
   totalGames: number;
@@ -9,23 +52,69 @@ export interface PlayerStats {
   totalScore: number;
   bestScore: number;
   lastPlayed?: Date;
+  finalRank?: number; // Archived standing (closed seasons)
+}
+
+export type SeasonLeaderboardType = 'wins' | 'score' | 'winrate';
+
+export interface WinRateLeaderboardEntry extends PlayerStats {
+  winRate: number; // Raw wins / games
+  winRateScore: number; // Wilson score lower bound, the ranking key
+}
+
+export interface WinRateLeaderboardPage {
+  leaderboard: WinRateLeaderboardEntry[];
+  nextCursor: string | null; // Pass as cursor to get the next page
+}
+
+export interface WinRateRank {
+  rank: number | null; // null until the player has played WINRATE_MIN_GAMES games
+  totalRanked: number;
+  gamesNeeded: number;
+  stats: WinRateLeaderboardEntry;
+}
+
+export type LeaderboardWindow = 'day' | 'week' | 'month' | 'all';
+
+// earnings - net earnings in the currency of a paid room type
+export type MatchLeaderboardType = 'wins' | 'score' | 'winrate' | 'earnings';
+
+export interface MatchLeaderboardQuery {
+  type: MatchLeaderboardType;
+  roomType?: RoomType; // All room types if not set (required for earnings: 'stars' | 'ton')
+  window: LeaderboardWindow;
+  limit: number;
+}
+
+export interface MatchLeaderboardEntry {
+  playerId: string;
+  playerName: string;
+  totalGames: number;
+  totalWins: number;
+  totalScore: number;
+  bestScore: number;
+  lastPlayed?: Date;
+  netEarnings: { stars: number; ton: number }; // Payouts minus entry fees of paid matches
 }
 
 export class PlayerStatsService {
   /**
    * Update player stats after game completion
+   * @param avatarUrl - Telegram photo_url (kept from earlier games if not set)
    */
   async updateStats(
     playerId: string,
     playerName: string,
     isWinner: boolean,
-    finalScore: number
+    finalScore: number,
+    avatarUrl?: string
   ): Promise<void> {
     try {
       await prisma.playerStats.upsert({
         where: { playerId },
         update: {
           playerName,
+          avatarUrl,
           totalGames: { increment: 1 },
           totalWins: isWinner ? { increment: 1 } : undefined,
           totalScore: { increment: finalScore },
@@ -35,6 +124,7 @@ export class PlayerStatsService {
         create: {
           playerId,
           playerName,
+          avatarUrl,
           totalGames: 1,
           totalWins: isWinner ? 1 : 0,
           totalScore: finalScore,
@@ -55,12 +145,123 @@ export class PlayerStatsService {
           data: { bestScore: finalScore },
         });
       }
+
+      await prisma.$executeRawUnsafe(
+        `UPDATE "player_stats" SET "winRateScore" = ${wilsonScoreSql('"totalWins"', '"totalGames"')} WHERE "playerId" = $1`,
+        playerId
+      );
+
+      await this.updateSeasonStats(playerId, playerName, isWinner, finalScore);
     } catch (error) {
       console.error('Error updating player stats:', error);
       throw error;
     }
   }
 
+  /**
+   * Add a finished game to the player's stats of the active season (if any)
+   */
+  private async updateSeasonStats(
+    playerId: string,
+    playerName: string,
+    isWinner: boolean,
+    finalScore: number
+  ): Promise<void> {
+    const season = await seasonService.getCurrentSeason();
+    if (!season) {
+      return;
+    }
+
+    const now = new Date();
+    await prisma.seasonPlayerStats.upsert({
+      where: { seasonId_playerId: { seasonId: season.id, playerId } },
+      update: {
+        playerName,
+        totalGames: { increment: 1 },
+        totalWins: isWinner ? { increment: 1 } : undefined,
+        totalScore: { increment: finalScore },
+        lastPlayed: now,
+      },
+      create: {
+        seasonId: season.id,
+        playerId,
+        playerName,
+        totalGames: 1,
+        totalWins: isWinner ? 1 : 0,
+        totalScore: finalScore,
+        bestScore: Math.max(0, finalScore),
+        lastPlayed: now,
+      },
+    });
+
+    await prisma.seasonPlayerStats.updateMany({
+      where: { seasonId: season.id, playerId, bestScore: { lt: finalScore } },
+      data: { bestScore: finalScore },
+    });
+  }
+
+  /**
+   * Update ratings of all players of a finished match from final placements
+   * Must be called after updateStats (stats rows exist)
+   * @param leftPlayerIds - players who left early (placed last)
+   */
+  async updateRatings(players: Player[], leftPlayerIds: Set<string> = new Set()): Promise<RatingChange[]> {
+    if (players.length < 2) {
+      return [];
+    }
+
+    try {
+      const current = await prisma.playerStats.findMany({
+        where: { playerId: { in: players.map((p) => p.id) } },
+        select: { playerId: true, rating: true, ratedGames: true },
+      });
+      const currentById = new Map<string, any>(current.map((stat: any) => [stat.playerId, stat]));
+
+      const placements = placementsFromScores(players, leftPlayerIds);
+      const changes = calculateRatingChanges(
+        players.map((player) => ({
+          playerId: player.id,
+          rating: currentById.get(player.id)?.rating ?? DEFAULT_RATING,
+          ratedGames: currentById.get(player.id)?.ratedGames ?? 0,
+          placement: placements.get(player.id) ?? players.length,
+        }))
+      );
+
+      await prisma.$transaction(
+        changes.map((change) =>
+          prisma.playerStats.update({
+            where: { playerId: change.playerId },
+            data: {
+              rating: change.newRating,
+              ratedGames: { increment: 1 },
+            },
+          })
+        )
+      );
+
+      return changes;
+    } catch (error) {
+      console.error('Error updating player ratings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get player rating (default rating for players without stats)
+   */
+  async getRating(playerId: string): Promise<number> {
+    try {
+      const stats = await prisma.playerStats.findUnique({
+        where: { playerId },
+        select: { rating: true },
+      });
+      return stats?.rating ?? DEFAULT_RATING;
+    } catch (error) {
+      console.error('Error getting player rating:', error);
+      return DEFAULT_RATING;
+    }
+  }
+
   /**
    * Get player stats
    */
@@ -77,10 +278,13 @@ export class PlayerStatsService {
       return {
         playerId: stats.playerId,
         playerName: stats.playerName,
+        avatarUrl: stats.avatarUrl || undefined,
         totalGames: stats.totalGames,
         totalWins: stats.totalWins,
         totalScore: stats.totalScore,
         bestScore: stats.bestScore,
+        rating: stats.rating,
+        ratedGames: stats.ratedGames,
         lastPlayed: stats.lastPlayed || undefined,
       };
     } catch (error) {
@@ -105,10 +309,13 @@ export class PlayerStatsService {
       return stats.map((stat: any) => ({
         playerId: stat.playerId,
         playerName: stat.playerName,
+        avatarUrl: stat.avatarUrl || undefined,
         totalGames: stat.totalGames,
         totalWins: stat.totalWins,
         totalScore: stat.totalScore,
         bestScore: stat.bestScore,
+        rating: stat.rating,
+        ratedGames: stat.ratedGames,
         lastPlayed: stat.lastPlayed || undefined,
       }));
     } catch (error) {
@@ -117,6 +324,40 @@ export class PlayerStatsService {
     }
   }
 
+  /**
+   * Get leaderboard by rating (players with at least one rated game)
+   */
+  async getLeaderboardByRating(limit: number = 100): Promise<PlayerStats[]> {
+    try {
+      const stats = await prisma.playerStats.findMany({
+        where: {
+          ratedGames: { gt: 0 },
+        },
+        orderBy: [
+          { rating: 'desc' },
+          { ratedGames: 'desc' },
+        ],
+        take: limit,
+      });
+
+      return stats.map((stat: any) => ({
+        playerId: stat.playerId,
+        playerName: stat.playerName,
+        avatarUrl: stat.avatarUrl || undefined,
+        totalGames: stat.totalGames,
+        totalWins: stat.totalWins,
+        totalScore: stat.totalScore,
+        bestScore: stat.bestScore,
+        rating: stat.rating,
+        ratedGames: stat.ratedGames,
+        lastPlayed: stat.lastPlayed || undefined,
+      }));
+    } catch (error) {
+      console.error('Error getting leaderboard by rating:', error);
+      return [];
+    }
+  }
+
   /**
    * Get leaderboard by total score
    */
@@ -130,10 +371,13 @@ export class PlayerStatsService {
       return stats.map((stat: any) => ({
         playerId: stat.playerId,
         playerName: stat.playerName,
+        avatarUrl: stat.avatarUrl || undefined,
         totalGames: stat.totalGames,
         totalWins: stat.totalWins,
         totalScore: stat.totalScore,
         bestScore: stat.bestScore,
+        rating: stat.rating,
+        ratedGames: stat.ratedGames,
         lastPlayed: stat.lastPlayed || undefined,
       }));
     } catch (error) {
@@ -143,38 +387,190 @@ export class PlayerStatsService {
   }
 
   /**
-   * Get leaderboard by win rate
+   * Get leaderboard of a season (frozen once the season is closed)
    */
-  async getLeaderboardByWinRate(limit: number = 100): Promise<PlayerStats[]> {
+  async getSeasonLeaderboard(
+    seasonId: string,
+    type: SeasonLeaderboardType = 'wins',
+    limit: number = 100
+  ): Promise<SeasonPlayerStats[]> {
     try {
-      // Get all players with at least 3 games
-      const allStats = await prisma.playerStats.findMany({
+      const stats = type === 'winrate'
+        ? await prisma.$queryRawUnsafe(
+          `SELECT * FROM "season_player_stats"
+          WHERE "seasonId" = $1 AND "totalGames" >= $2
+          ORDER BY ${wilsonScoreSql('"totalWins"', '"totalGames"')} DESC, "playerId" DESC
+          LIMIT $3`,
+          seasonId,
+          WINRATE_MIN_GAMES,
+          limit
+        )
+        : await prisma.seasonPlayerStats.findMany({
+          where: { seasonId },
+          orderBy: type === 'score'
+            ? [{ totalScore: 'desc' }]
+            : [{ totalWins: 'desc' }, { bestScore: 'desc' }],
+          take: limit,
+        });
+
+      return stats.map((stat: any) => ({
+        seasonId: stat.seasonId,
+        playerId: stat.playerId,
+        playerName: stat.playerName,
+        totalGames: stat.totalGames,
+        totalWins: stat.totalWins,
+        totalScore: stat.totalScore,
+        bestScore: stat.bestScore,
+        lastPlayed: stat.lastPlayed || undefined,
+        finalRank: stat.finalRank ?? undefined,
+      }));
+    } catch (error) {
+      console.error('Error getting season leaderboard:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get leaderboard computed from finished matches, filtered by room type and rolling window
+   * Unlike the lifetime leaderboards, stats are aggregated from match_players on every call
+   */
+  async getMatchLeaderboard(query: MatchLeaderboardQuery): Promise<MatchLeaderboardEntry[]> {
+    const { type, roomType, window, limit } = query;
+    if (type === 'earnings' && roomType !== 'stars' && roomType !== 'ton') {
+      throw new Error('Earnings leaderboard requires roomType stars or ton');
+    }
+
+    const windowMs = LEADERBOARD_WINDOW_MS[window];
+    const since = Number.isFinite(windowMs) ? new Date(Date.now() - windowMs) : new Date(0);
+    const minGames = type === 'winrate' ? WINRATE_MIN_GAMES : 1;
+    const orderBy = type === 'earnings'
+      ? (roomType === 'stars' ? '"netStars" DESC' : '"netTon" DESC')
+      : MATCH_LEADERBOARD_ORDER[type];
+
+    try {
+      const rows = await prisma.$queryRawUnsafe(
+        `SELECT mp."playerId",
+          (ARRAY_AGG(mp."playerName" ORDER BY m."finishedAt" DESC))[1] AS "playerName",
+          COUNT(*)::int AS "totalGames",
+          COUNT(*) FILTER (WHERE mp."isWinner")::int AS "totalWins",
+          COALESCE(SUM(mp."score"), 0)::int AS "totalScore",
+          COALESCE(MAX(mp."score"), 0)::int AS "bestScore",
+          MAX(m."finishedAt") AS "lastPlayed",
+          COALESCE(SUM(mp."payout" - m."entryFee") FILTER (WHERE m."roomType" = 'stars'), 0)::float8 AS "netStars",
+          COALESCE(SUM(mp."payout" - m."entryFee") FILTER (WHERE m."roomType" = 'ton'), 0)::float8 AS "netTon"
+        FROM "match_players" mp
+        JOIN "matches" m ON m."id" = mp."matchId"
+        WHERE m."status" = 'finished'
+          AND m."finishedAt" >= $1
+          AND ($2::text IS NULL OR m."roomType" = $2)
+        GROUP BY mp."playerId"
+        HAVING COUNT(*) >= $3
+        ORDER BY ${orderBy}
+        LIMIT $4`,
+        since,
+        roomType ?? null,
+        minGames,
+        limit
+      );
+
+      return rows.map((row: any) => ({
+        playerId: row.playerId,
+        playerName: row.playerName,
+        totalGames: row.totalGames,
+        totalWins: row.totalWins,
+        totalScore: row.totalScore,
+        bestScore: row.bestScore,
+        lastPlayed: row.lastPlayed || undefined,
+        netEarnings: { stars: row.netStars, ton: row.netTon },
+      }));
+    } catch (error) {
+      console.error('Error getting match leaderboard:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get leaderboard by win rate (Wilson score, players with at least WINRATE_MIN_GAMES games)
+   * Ordered and paginated in the database by (winRateScore, playerId)
+   * @param cursor - playerId of the last entry of the previous page
+   */
+  async getLeaderboardByWinRate(limit: number = 100, cursor?: string): Promise<WinRateLeaderboardPage> {
+    try {
+      const stats = await prisma.playerStats.findMany({
         where: {
-          totalGames: { gte: 3 },
+          totalGames: { gte: WINRATE_MIN_GAMES },
         },
+        orderBy: [
+          { winRateScore: 'desc' },
+          { playerId: 'desc' },
+        ],
+        ...(cursor ? { cursor: { playerId: cursor }, skip: 1 } : {}),
+        take: limit + 1, // One extra row tells whether there is a next page
       });
 
-      // Calculate win rate and sort
-      const statsWithRate = allStats
-        .map((stat: any) => ({
-          playerId: stat.playerId,
-          playerName: stat.playerName,
-          totalGames: stat.totalGames,
-          totalWins: stat.totalWins,
-          totalScore: stat.totalScore,
-          bestScore: stat.bestScore,
-          lastPlayed: stat.lastPlayed || undefined,
-          winRate: stat.totalWins / stat.totalGames,
-        }))
-        .sort((a: any, b: any) => b.winRate - a.winRate)
-        .slice(0, limit)
-        .map(({ winRate, ...rest }: any) => rest); // Remove winRate from result
-
-      return statsWithRate;
+      const page = stats.slice(0, limit).map((stat: any) => this.toWinRateEntry(stat));
+      return {
+        leaderboard: page,
+        nextCursor: stats.length > limit ? page[page.length - 1].playerId : null,
+      };
     } catch (error) {
       console.error('Error getting leaderboard by win rate:', error);
-      return [];
+      return { leaderboard: [], nextCursor: null };
+    }
+  }
+
+  /**
+   * Get player's position on the win rate leaderboard without loading the board
+   */
+  async getWinRateRank(playerId: string): Promise<WinRateRank | null> {
+    const stats = await prisma.playerStats.findUnique({
+      where: { playerId },
+    });
+    if (!stats) {
+      return null;
     }
+
+    const totalRanked = await prisma.playerStats.count({
+      where: { totalGames: { gte: WINRATE_MIN_GAMES } },
+    });
+    const entry = this.toWinRateEntry(stats);
+    const gamesNeeded = Math.max(0, WINRATE_MIN_GAMES - stats.totalGames);
+    if (gamesNeeded > 0) {
+      return { rank: null, totalRanked, gamesNeeded, stats: entry };
+    }
+
+    // Players ahead in (winRateScore desc, playerId desc) order
+    const ahead = await prisma.playerStats.count({
+      where: {
+        totalGames: { gte: WINRATE_MIN_GAMES },
+        OR: [
+          { winRateScore: { gt: stats.winRateScore } },
+          { winRateScore: stats.winRateScore, playerId: { gt: playerId } },
+        ],
+      },
+    });
+
+    return { rank: ahead + 1, totalRanked, gamesNeeded: 0, stats: entry };
+  }
+
+  /**
+   * Convert Prisma PlayerStats to WinRateLeaderboardEntry
+   */
+  private toWinRateEntry(stat: any): WinRateLeaderboardEntry {
+    return {
+      playerId: stat.playerId,
+      playerName: stat.playerName,
+      avatarUrl: stat.avatarUrl || undefined,
+      totalGames: stat.totalGames,
+      totalWins: stat.totalWins,
+      totalScore: stat.totalScore,
+      bestScore: stat.bestScore,
+      rating: stat.rating,
+      ratedGames: stat.ratedGames,
+      lastPlayed: stat.lastPlayed || undefined,
+      winRate: stat.totalGames > 0 ? stat.totalWins / stat.totalGames : 0,
+      winRateScore: stat.winRateScore,
+    };
   }
 }
 
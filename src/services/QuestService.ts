@@ -0,0 +1,141 @@
+import { Match, Player, QuestDefinition, QuestProgress, RoundResult } from '../types/game';
+import { prisma } from '../db/prisma.js';
+import { QUESTS } from '../constants/quests.js';
+import { matchProgress, periodEnd, periodStart, roundProgress } from '../utils/quests.js';
+import { paymentService } from './PaymentService.js';
+
+export interface CompletedQuest {
+  playerId: string;
+  quest: QuestProgress;
+  rewardPaymentId: string;
+}
+
+/**
+ * Service for daily and weekly quests
+ * Progress comes from round results and finished matches (see sockets/game.ts);
+ * a quest is rewarded once per period through PaymentService when it reaches its target
+ */
+export class QuestService {
+  /**
+   * Get quests of the current periods with the player's progress
+   */
+  async getQuests(playerId: string, now: Date = new Date()): Promise<QuestProgress[]> {
+    const rows = await prisma.playerQuest.findMany({
+      where: {
+        playerId,
+        periodStart: { in: [periodStart('daily', now), periodStart('weekly', now)] },
+      },
+    });
+
+    return QUESTS.map((quest) => {
+      const start = periodStart(quest.period, now);
+      const row = rows.find((r: any) => r.questId === quest.id && r.periodStart.getTime() === start.getTime());
+      return this.toProgress(quest, start, row);
+    });
+  }
+
+  /**
+   * Count a finished round towards round goals of its players
+   */
+  async recordRound(roundResult: RoundResult): Promise<CompletedQuest[]> {
+    const completed: CompletedQuest[] = [];
+    for (const player of roundResult.players) {
+      for (const quest of QUESTS) {
+        const increment = roundProgress(quest.goal, player);
+        if (increment > 0) {
+          const done = await this.addProgress(player, quest, increment);
+          if (done) completed.push(done);
+        }
+      }
+    }
+    return completed;
+  }
+
+  /**
+   * Count a finished match towards match goals of its players
+   */
+  async recordMatch(match: Match, players: Player[], winnerIds: Set<string>): Promise<CompletedQuest[]> {
+    const completed: CompletedQuest[] = [];
+    for (const player of players) {
+      for (const quest of QUESTS) {
+        const increment = matchProgress(quest.goal, match, player.id, winnerIds.has(player.id));
+        if (increment > 0) {
+          const done = await this.addProgress(player, quest, increment);
+          if (done) completed.push(done);
+        }
+      }
+    }
+    return completed;
+  }
+
+  /**
+   * Add progress and reward the quest if this update completed it
+   * @returns completed quest, or null if the quest is not (newly) completed
+   */
+  private async addProgress(player: Player, quest: QuestDefinition, increment: number): Promise<CompletedQuest | null> {
+    const start = periodStart(quest.period);
+    try {
+      const row = await prisma.playerQuest.upsert({
+        where: { playerId_questId_periodStart: { playerId: player.id, questId: quest.id, periodStart: start } },
+        update: { progress: { increment } },
+        create: { playerId: player.id, questId: quest.id, periodStart: start, progress: increment },
+      });
+      if (row.completedAt || row.progress < quest.target) {
+        return null;
+      }
+
+      // Claim completion atomically so concurrent updates reward the quest only once
+      const completedAt = new Date();
+      const claimed = await prisma.playerQuest.updateMany({
+        where: { id: row.id, completedAt: null },
+        data: { completedAt },
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      let rewardPaymentId: string;
+      try {
+        rewardPaymentId = await paymentService.grantQuestReward(player.id, player.name, row.id, quest.reward);
+      } catch (error) {
+        // Release the claim so the next progress update retries the reward
+        await prisma.playerQuest.updateMany({
+          where: { id: row.id, rewardPaymentId: null },
+          data: { completedAt: null },
+        });
+        throw error;
+      }
+
+      await prisma.playerQuest.update({
+        where: { id: row.id },
+        data: { rewardPaymentId },
+      });
+
+      console.log(`📜 Player ${player.id} completed quest ${quest.id}`);
+      return {
+        playerId: player.id,
+        quest: this.toProgress(quest, start, { ...row, completedAt }),
+        rewardPaymentId,
+      };
+    } catch (error) {
+      console.error(`❌ Error updating quest ${quest.id} of player ${player.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Combine a quest definition with a progress row (missing row = no progress)
+   */
+  private toProgress(quest: QuestDefinition, start: Date, row?: any): QuestProgress {
+    return {
+      ...quest,
+      periodStart: start,
+      periodEnd: periodEnd(quest.period, start),
+      progress: Math.min(row?.progress ?? 0, quest.target),
+      completedAt: row?.completedAt || undefined,
+    };
+  }
+}
+
+// Singleton instance
+export const questService = new QuestService();
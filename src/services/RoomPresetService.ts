@@ -0,0 +1,335 @@
+import { MatchmakingMode, RoomPreset, RoomType } from '../types/game';
+import { DEFAULT_ROOM_PRESETS } from '../constants/rooms.js';
+import { prisma } from '../db/prisma.js';
+import { isScoringStrategyId } from '../utils/scoring.js';
+
+export type RoomPresetInput = Partial<RoomPreset>;
+
+/**
+ * Invalid preset input (client error)
+ */
+export class RoomPresetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoomPresetValidationError';
+  }
+}
+
+/**
+ * Preset change not allowed while matches of the preset are active
+ */
+export class RoomPresetConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoomPresetConflictError';
+  }
+}
+
+const ROOM_TYPES: RoomType[] = ['free', 'stars', 'ton'];
+const MATCHMAKING_MODES: MatchmakingMode[] = ['fifo', 'rating'];
+const PRESET_ID_PATTERN = /^[a-z0-9_]{1,64}$/;
+const MAX_PLAYERS_LIMIT = 100;
+const MAX_ROUNDS_LIMIT = 20;
+const MAX_PRESS_COMPENSATION_LIMIT_MS = 1000;
+const MAX_START_COUNTDOWN_SEC = 600;
+const ACTIVE_MATCH_STATUSES = ['waiting', 'locking', 'playing'];
+// Fields active matches (and their escrow rooms) were created with; changing them mid-match would alter
+// the stakes or the game of matches already joined
+const MATCH_FIXED_FIELDS = ['entryFee', 'maxPlayers', 'rounds'] as const;
+
+/**
+ * Service for the room catalogue
+ * Presets are stored in the database and cached in memory, so game logic can
+ * look them up synchronously. Until the catalogue is loaded the defaults from
+ * constants/rooms.ts are used.
+ */
+export class RoomPresetService {
+  private presets: Map<string, RoomPreset> = new Map(DEFAULT_ROOM_PRESETS.map((p) => [p.id, p]));
+
+  /**
+   * Load catalogue from database (seeds defaults if the table is empty)
+   */
+  async load(): Promise<void> {
+    try {
+      const count = await prisma.roomPreset.count();
+      if (count === 0) {
+        await prisma.roomPreset.createMany({
+          data: DEFAULT_ROOM_PRESETS.map((preset) => this.presetToDb(preset)),
+        });
+        console.log(`🌱 Seeded ${DEFAULT_ROOM_PRESETS.length} default room presets`);
+      }
+
+      const rows = await prisma.roomPreset.findMany({
+        orderBy: [
+          { type: 'asc' },
+          { entryFee: 'asc' },
+        ],
+      });
+
+      this.presets = new Map(rows.map((row: any) => [row.id, this.dbPresetToPreset(row)]));
+      console.log(`🏠 Loaded ${this.presets.size} room presets`);
+    } catch (error: any) {
+      if (error?.code === 'ECONNREFUSED' || error?.code === 'P1001') {
+        console.warn('⚠️ Database not available. Using default room presets.');
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get presets available to players
+   */
+  getPresets(): RoomPreset[] {
+    return this.getAllPresets().filter((preset) => preset.enabled);
+  }
+
+  /**
+   * Get all presets, including disabled ones
+   */
+  getAllPresets(): RoomPreset[] {
+    return Array.from(this.presets.values());
+  }
+
+  /**
+   * Get preset by ID (disabled presets are returned too - running matches use them)
+   */
+  getPreset(presetId: string): RoomPreset | undefined {
+    return this.presets.get(presetId);
+  }
+
+  /**
+   * Get default preset for a room type (cheapest enabled preset)
+   * Used for clients that only send roomType and for matches created before the catalogue
+   */
+  getDefaultPreset(roomType: RoomType): RoomPreset | undefined {
+    return this.getPresets().find((preset) => preset.type === roomType);
+  }
+
+  /**
+   * Get preset a match was created from
+   */
+  getPresetForMatch(match: { presetId?: string | null; roomType: string }): RoomPreset | undefined {
+    return (match.presetId && this.getPreset(match.presetId)) || this.getDefaultPreset(match.roomType as RoomType);
+  }
+
+  /**
+   * Create a new preset
+   */
+  async createPreset(input: RoomPresetInput): Promise<RoomPreset> {
+    if (!input.id || !PRESET_ID_PATTERN.test(input.id)) {
+      throw new RoomPresetValidationError('Invalid preset id. Use 1-64 lowercase letters, digits or underscores');
+    }
+    if (this.presets.has(input.id)) {
+      throw new RoomPresetValidationError(`Room preset ${input.id} already exists`);
+    }
+
+    const preset: RoomPreset = {
+      id: input.id,
+      type: input.type as RoomType,
+      entryFee: input.entryFee as number,
+      maxPlayers: input.maxPlayers as number,
+      minPlayers: input.minPlayers ?? 2,
+      startCountdownSec: input.startCountdownSec ?? 30,
+      rounds: input.rounds ?? 3,
+      platformFee: input.platformFee ?? 0,
+      scoring: input.scoring ?? { strategy: 'closest' },
+      maxPressCompensationMs: input.maxPressCompensationMs ?? 150,
+      enabled: input.enabled ?? true,
+      matchmaking: input.matchmaking ?? 'fifo',
+    };
+    this.validatePreset(preset);
+
+    await prisma.roomPreset.create({
+      data: this.presetToDb(preset),
+    });
+    await this.load();
+
+    console.log(`✅ Created room preset ${preset.id} (${preset.type}, entry ${preset.entryFee})`);
+    return this.presets.get(preset.id) || preset;
+  }
+
+  /**
+   * Update an existing preset
+   * Type and id cannot be changed (matches and payments reference them); entryFee, maxPlayers and rounds
+   * cannot be changed while the preset has active matches
+   * @returns updated preset, or null if not found
+   * @throws RoomPresetValidationError for invalid input, RoomPresetConflictError for changes blocked by active matches
+   */
+  async updatePreset(presetId: string, input: RoomPresetInput): Promise<RoomPreset | null> {
+    const existing = this.presets.get(presetId);
+    if (!existing) {
+      return null;
+    }
+
+    if (input.type !== undefined && input.type !== existing.type) {
+      throw new RoomPresetValidationError('Room type of a preset cannot be changed');
+    }
+
+    const preset: RoomPreset = {
+      ...existing,
+      ...input,
+      id: existing.id,
+      type: existing.type,
+    };
+    this.validatePreset(preset);
+
+    const changed = MATCH_FIXED_FIELDS.filter((field) => preset[field] !== existing[field]);
+    if (changed.length > 0) {
+      const activeMatches = await this.countActiveMatches(presetId);
+      if (activeMatches > 0) {
+        throw new RoomPresetConflictError(
+          `Room preset ${presetId} has ${activeMatches} active match(es). ${changed.join(', ')} cannot be changed until they finish.`
+        );
+      }
+    }
+
+    await prisma.roomPreset.update({
+      where: { id: presetId },
+      data: this.presetToDb(preset),
+    });
+    await this.load();
+
+    console.log(`✅ Updated room preset ${presetId}`);
+    return this.presets.get(presetId) || preset;
+  }
+
+  /**
+   * Delete a preset
+   * Presets with active matches cannot be deleted (disable them instead)
+   * @returns false if preset not found
+   * @throws RoomPresetConflictError if the preset has active matches
+   */
+  async deletePreset(presetId: string): Promise<boolean> {
+    if (!this.presets.has(presetId)) {
+      return false;
+    }
+
+    const activeMatches = await this.countActiveMatches(presetId);
+    if (activeMatches > 0) {
+      throw new RoomPresetConflictError(`Room preset ${presetId} has ${activeMatches} active match(es). Disable it instead.`);
+    }
+
+    await prisma.roomPreset.delete({
+      where: { id: presetId },
+    });
+    this.presets.delete(presetId);
+
+    console.log(`🗑️ Deleted room preset ${presetId}`);
+    return true;
+  }
+
+  private countActiveMatches(presetId: string): Promise<number> {
+    return prisma.match.count({
+      where: {
+        presetId,
+        status: { in: ACTIVE_MATCH_STATUSES },
+      },
+    });
+  }
+
+  /**
+   * Validate preset fields
+   * @throws RoomPresetValidationError with a client-facing message
+   */
+  private validatePreset(preset: RoomPreset): void {
+    if (!ROOM_TYPES.includes(preset.type)) {
+      throw new RoomPresetValidationError(`Invalid room type. Must be one of: ${ROOM_TYPES.join(', ')}`);
+    }
+    if (typeof preset.entryFee !== 'number' || !Number.isFinite(preset.entryFee) || preset.entryFee < 0) {
+      throw new RoomPresetValidationError('entryFee must be a non-negative number');
+    }
+    if (preset.type === 'free' && preset.entryFee !== 0) {
+      throw new RoomPresetValidationError('Free rooms must have entryFee 0');
+    }
+    if (preset.type !== 'free' && preset.entryFee === 0) {
+      throw new RoomPresetValidationError('Paid rooms must have a positive entryFee');
+    }
+    if (preset.type === 'stars' && !Number.isInteger(preset.entryFee)) {
+      throw new RoomPresetValidationError('Stars entryFee must be an integer');
+    }
+    if (!Number.isInteger(preset.maxPlayers) || preset.maxPlayers < 2 || preset.maxPlayers > MAX_PLAYERS_LIMIT) {
+      throw new RoomPresetValidationError(`maxPlayers must be an integer between 2 and ${MAX_PLAYERS_LIMIT}`);
+    }
+    if (!Number.isInteger(preset.minPlayers) || preset.minPlayers < 2 || preset.minPlayers > preset.maxPlayers) {
+      throw new RoomPresetValidationError('minPlayers must be an integer between 2 and maxPlayers');
+    }
+    if (
+      !Number.isInteger(preset.startCountdownSec) ||
+      preset.startCountdownSec < 0 ||
+      preset.startCountdownSec > MAX_START_COUNTDOWN_SEC
+    ) {
+      throw new RoomPresetValidationError(`startCountdownSec must be an integer between 0 and ${MAX_START_COUNTDOWN_SEC}`);
+    }
+    if (!Number.isInteger(preset.rounds) || preset.rounds < 1 || preset.rounds > MAX_ROUNDS_LIMIT) {
+      throw new RoomPresetValidationError(`rounds must be an integer between 1 and ${MAX_ROUNDS_LIMIT}`);
+    }
+    if (!Number.isInteger(preset.platformFee) || preset.platformFee < 0 || preset.platformFee > 100) {
+      throw new RoomPresetValidationError('platformFee must be an integer percent between 0 and 100');
+    }
+    if (!preset.scoring || !isScoringStrategyId(preset.scoring.strategy)) {
+      throw new RoomPresetValidationError('Invalid scoring strategy');
+    }
+    if (preset.scoring.params) {
+      for (const [key, value] of Object.entries(preset.scoring.params)) {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new RoomPresetValidationError(`Scoring param ${key} must be a number`);
+        }
+      }
+    }
+    if (
+      !Number.isInteger(preset.maxPressCompensationMs) ||
+      preset.maxPressCompensationMs < 0 ||
+      preset.maxPressCompensationMs > MAX_PRESS_COMPENSATION_LIMIT_MS
+    ) {
+      throw new RoomPresetValidationError(`maxPressCompensationMs must be an integer between 0 and ${MAX_PRESS_COMPENSATION_LIMIT_MS}`);
+    }
+    if (typeof preset.enabled !== 'boolean') {
+      throw new RoomPresetValidationError('enabled must be a boolean');
+    }
+    if (!MATCHMAKING_MODES.includes(preset.matchmaking)) {
+      throw new RoomPresetValidationError(`Invalid matchmaking mode. Must be one of: ${MATCHMAKING_MODES.join(', ')}`);
+    }
+  }
+
+  private presetToDb(preset: RoomPreset) {
+    return {
+      id: preset.id,
+      type: preset.type,
+      entryFee: preset.entryFee,
+      maxPlayers: preset.maxPlayers,
+      minPlayers: preset.minPlayers,
+      startCountdownSec: preset.startCountdownSec,
+      rounds: preset.rounds,
+      platformFee: preset.platformFee,
+      scoringStrategy: preset.scoring.strategy,
+      scoringParams: preset.scoring.params ?? undefined,
+      maxPressCompensationMs: preset.maxPressCompensationMs,
+      enabled: preset.enabled,
+      matchmakingMode: preset.matchmaking,
+    };
+  }
+
+  private dbPresetToPreset(row: any): RoomPreset {
+    return {
+      id: row.id,
+      type: row.type as RoomType,
+      entryFee: Number(row.entryFee),
+      maxPlayers: row.maxPlayers,
+      minPlayers: row.minPlayers,
+      startCountdownSec: row.startCountdownSec,
+      rounds: row.rounds,
+      platformFee: row.platformFee,
+      scoring: {
+        strategy: row.scoringStrategy,
+        params: row.scoringParams ?? undefined,
+      },
+      maxPressCompensationMs: row.maxPressCompensationMs,
+      enabled: row.enabled,
+      matchmaking: row.matchmakingMode as MatchmakingMode,
+    };
+  }
+}
+
+// Singleton instance
+export const roomPresetService = new RoomPresetService();
@@ -0,0 +1,187 @@
+import { Match } from '../types/game';
+import { matchmaker } from './Matchmaker.js';
+import { matchService } from './MatchService.js';
+import { fairnessService } from './FairnessService.js';
+import { roomPresetService } from './RoomPresetService.js';
+
+export const FIRST_ROUND_DELAY_MS = 2000; // Delay between match start and round 1
+export const ROUND_BREAK_MS = 3000; // Delay between rounds
+
+/**
+ * Callbacks invoked when a scheduled deadline is reached
+ * (implemented by the game socket handlers)
+ */
+export interface RoundSchedulerHandlers {
+  startRound(matchId: string): Promise<void>;
+  endRound(matchId: string): Promise<void>;
+  finishMatch(matchId: string): Promise<void>;
+}
+
+/**
+ * Authoritative server-side round timer
+ * Every deadline (round end, next round start) is persisted with the match,
+ * so in-flight matches can be recovered after a process restart
+ */
+export class RoundScheduler {
+  private handlers: RoundSchedulerHandlers | null = null;
+  private timers: Map<string, NodeJS.Timeout> = new Map(); // matchId -> pending timer
+
+  /**
+   * Register deadline handlers
+   */
+  setHandlers(handlers: RoundSchedulerHandlers): void {
+    this.handlers = handlers;
+  }
+
+  /**
+   * Schedule next round start after delayMs
+   */
+  async scheduleRoundStart(matchId: string, delayMs: number): Promise<void> {
+    const nextRoundAt = new Date(Date.now() + delayMs);
+
+    await matchService.saveRoundSchedule(matchId, {
+      roundStartedAt: null,
+      roundEndsAt: null,
+      nextRoundAt,
+    });
+
+    this.setTimer(matchId, delayMs, async () => {
+      await this.handlers?.startRound(matchId);
+    });
+    console.log(`⏰ Scheduled next round for match ${matchId} at ${nextRoundAt.toISOString()}`);
+  }
+
+  /**
+   * Schedule end of the current round at its hidden end time
+   * @param graceMs - extra wait so presses made before the end but still in flight are counted
+   */
+  async scheduleRoundEnd(match: Match, graceMs: number = 0): Promise<void> {
+    if (!match.roundStartTime || !match.roundEndTime) {
+      throw new Error('Round not started');
+    }
+
+    const roundNumber = match.currentRound;
+    const roundEndsAt = match.roundStartTime + match.roundEndTime;
+
+    await matchService.saveRoundSchedule(match.id, {
+      roundStartedAt: new Date(match.roundStartTime),
+      roundEndsAt: new Date(roundEndsAt),
+      nextRoundAt: null,
+    });
+
+    this.setTimer(match.id, Math.max(0, roundEndsAt + graceMs - Date.now()), async () => {
+      // Ignore stale timers (round already ended or replaced)
+      const current = matchmaker.getMatch(match.id);
+      if (!current || current.currentRound !== roundNumber || !current.roundStartTime) {
+        return;
+      }
+      await this.handlers?.endRound(match.id);
+    });
+    console.log(`⏰ Scheduled round ${roundNumber} end for match ${match.id} in ${match.roundEndTime}ms`);
+  }
+
+  /**
+   * Cancel pending timer and clear persisted deadlines (match finished)
+   */
+  async clear(matchId: string): Promise<void> {
+    this.cancel(matchId);
+    await matchService.saveRoundSchedule(matchId, {
+      roundStartedAt: null,
+      roundEndsAt: null,
+      nextRoundAt: null,
+    });
+  }
+
+  /**
+   * Cancel pending timer without touching persisted state
+   */
+  cancel(matchId: string): void {
+    const timer = this.timers.get(matchId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(matchId);
+    }
+  }
+
+  /**
+   * Reload matches that were playing when the process stopped
+   * - round in progress: presses were lost with the process, so the round is voided
+   *   and replayed with the same round number
+   * - all rounds completed: the match is finished with persisted scores
+   * - between rounds: the next round starts at its persisted deadline (or now if passed)
+   * @returns number of recovered matches
+   */
+  async recover(): Promise<number> {
+    let inFlight;
+    try {
+      inFlight = await matchService.getInFlightMatches();
+    } catch (error: any) {
+      if (error?.code === 'ECONNREFUSED' || error?.code === 'P1001') {
+        console.warn('⚠️ Database not available. Skipping in-flight match recovery.');
+        return 0;
+      }
+      throw error;
+    }
+
+    let recovered = 0;
+    for (const dbMatch of inFlight) {
+      try {
+        const match = await matchmaker.restoreMatchById(dbMatch.id);
+        if (!match) continue;
+
+        const preset = roomPresetService.getPresetForMatch(match);
+        if (!preset) {
+          console.warn(`⚠️ Cannot recover match ${match.id}: preset ${match.presetId} not found`);
+          continue;
+        }
+
+        if (dbMatch.roundStartedAt) {
+          // Round was in progress - void it and replay the same round number
+          console.log(`♻️ Voiding round ${match.currentRound} of match ${match.id} (interrupted by restart)`);
+          await fairnessService.voidRound(match.id, match.currentRound);
+          match.currentRound = Math.max(0, match.currentRound - 1);
+          match.roundStartTime = undefined;
+          match.roundEndTime = undefined;
+          await matchService.saveRoundProgress(match);
+          await this.scheduleRoundStart(match.id, ROUND_BREAK_MS);
+        } else if (match.currentRound >= preset.rounds) {
+          // All rounds were played but match was not finished
+          console.log(`♻️ Finishing match ${match.id} after restart (all ${preset.rounds} rounds played)`);
+          match.status = 'finished';
+          match.finishedAt = new Date();
+          await this.handlers?.finishMatch(match.id);
+        } else {
+          // Between rounds - resume at persisted deadline
+          const delayMs = dbMatch.nextRoundAt
+            ? Math.max(0, dbMatch.nextRoundAt.getTime() - Date.now())
+            : ROUND_BREAK_MS;
+          await this.scheduleRoundStart(match.id, delayMs);
+        }
+
+        recovered++;
+      } catch (error) {
+        console.error(`❌ Error recovering match ${dbMatch.id}:`, error);
+      }
+    }
+
+    if (recovered > 0) {
+      console.log(`♻️ Recovered ${recovered} in-flight match(es)`);
+    }
+
+    return recovered;
+  }
+
+  private setTimer(matchId: string, delayMs: number, callback: () => void | Promise<void>): void {
+    this.cancel(matchId);
+    const timer = setTimeout(() => {
+      this.timers.delete(matchId);
+      Promise.resolve(callback()).catch((error) => {
+        console.error(`❌ Scheduled round task failed for match ${matchId}:`, error);
+      });
+    }, delayMs);
+    this.timers.set(matchId, timer);
+  }
+}
+
+// Singleton instance
+export const roundScheduler = new RoundScheduler();
@@ -0,0 +1,204 @@
+import { prisma } from '../db/prisma.js';
+
+const CLOSE_CHECK_INTERVAL_MS = 60 * 1000; // How often ended seasons are archived
+
+export interface Season {
+  id: string;
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+  closedAt?: Date;
+  status: 'upcoming' | 'active' | 'ended' | 'closed'; // ended: over, standings not archived yet
+}
+
+export interface SeasonInput {
+  name?: string;
+  startsAt?: string | Date;
+  endsAt?: string | Date;
+}
+
+/**
+ * Service for leaderboard seasons
+ * Seasons do not overlap, so at most one season is active at a time. Stats of the
+ * active season are kept next to the lifetime stats (see PlayerStatsService.updateStats);
+ * once a season ends its final standings are archived and its stats are frozen.
+ */
+export class SeasonService {
+  private closeTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start periodic archiving of ended seasons
+   */
+  start(): void {
+    if (this.closeTimer) {
+      return;
+    }
+
+    const check = () => {
+      this.closeEndedSeasons().catch((error) => {
+        console.error('❌ Error closing ended seasons:', error);
+      });
+    };
+    check();
+    this.closeTimer = setInterval(check, CLOSE_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the archive timer
+   */
+  stop(): void {
+    if (this.closeTimer) {
+      clearInterval(this.closeTimer);
+      this.closeTimer = null;
+    }
+  }
+
+  /**
+   * Create a season
+   * @throws Error with a client-facing message
+   */
+  async createSeason(input: SeasonInput): Promise<Season> {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    const startsAt = new Date(input.startsAt as string | Date);
+    const endsAt = new Date(input.endsAt as string | Date);
+
+    if (!name || name.length > 100) {
+      throw new Error('name must be 1-100 characters');
+    }
+    if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime())) {
+      throw new Error('startsAt and endsAt must be valid dates');
+    }
+    if (endsAt <= startsAt || endsAt.getTime() <= Date.now()) {
+      throw new Error('endsAt must be in the future and after startsAt');
+    }
+
+    const overlapping = await prisma.season.findFirst({
+      where: {
+        startsAt: { lt: endsAt },
+        endsAt: { gt: startsAt },
+      },
+    });
+    if (overlapping) {
+      throw new Error(`Season overlaps with ${overlapping.name}`);
+    }
+
+    const season = await prisma.season.create({
+      data: { name, startsAt, endsAt },
+    });
+
+    console.log(`📅 Created season ${season.id} (${name}): ${startsAt.toISOString()} - ${endsAt.toISOString()}`);
+    return this.dbSeasonToSeason(season);
+  }
+
+  /**
+   * List seasons, newest first
+   */
+  async listSeasons(): Promise<Season[]> {
+    const seasons = await prisma.season.findMany({
+      orderBy: { startsAt: 'desc' },
+    });
+    return seasons.map((season: any) => this.dbSeasonToSeason(season));
+  }
+
+  /**
+   * Get season by ID ('current' is the active season)
+   */
+  async getSeason(seasonId: string): Promise<Season | null> {
+    if (seasonId === 'current') {
+      return this.getCurrentSeason();
+    }
+
+    const season = await prisma.season.findUnique({
+      where: { id: seasonId },
+    });
+    return season ? this.dbSeasonToSeason(season) : null;
+  }
+
+  /**
+   * Get the active season, if any
+   */
+  async getCurrentSeason(now: Date = new Date()): Promise<Season | null> {
+    const season = await prisma.season.findFirst({
+      where: {
+        startsAt: { lte: now },
+        endsAt: { gt: now },
+        closedAt: null,
+      },
+    });
+    return season ? this.dbSeasonToSeason(season) : null;
+  }
+
+  /**
+   * Archive final standings of seasons that have ended
+   * Ranked like the default leaderboard (wins, then best score); equal stats share a rank
+   */
+  async closeEndedSeasons(now: Date = new Date()): Promise<void> {
+    const ended = await prisma.season.findMany({
+      where: {
+        endsAt: { lte: now },
+        closedAt: null,
+      },
+    });
+
+    for (const season of ended) {
+      const stats = await prisma.seasonPlayerStats.findMany({
+        where: { seasonId: season.id },
+        orderBy: [
+          { totalWins: 'desc' },
+          { bestScore: 'desc' },
+        ],
+        select: { id: true, totalWins: true, bestScore: true },
+      });
+
+      let rank = 0;
+      const updates = stats.map((stat: any, index: number) => {
+        const previous = stats[index - 1];
+        if (!previous || previous.totalWins !== stat.totalWins || previous.bestScore !== stat.bestScore) {
+          rank = index + 1;
+        }
+        return prisma.seasonPlayerStats.update({
+          where: { id: stat.id },
+          data: { finalRank: rank },
+        });
+      });
+
+      await prisma.$transaction([
+        ...updates,
+        prisma.season.update({
+          where: { id: season.id },
+          data: { closedAt: now },
+        }),
+      ]);
+
+      console.log(`📅 Season ${season.id} (${season.name}) closed, ${stats.length} standings archived`);
+    }
+  }
+
+  /**
+   * Convert Prisma Season to Season
+   */
+  private dbSeasonToSeason(season: any, now: Date = new Date()): Season {
+    let status: Season['status'];
+    if (season.closedAt) {
+      status = 'closed';
+    } else if (now < season.startsAt) {
+      status = 'upcoming';
+    } else if (now < season.endsAt) {
+      status = 'active';
+    } else {
+      status = 'ended';
+    }
+
+    return {
+      id: season.id,
+      name: season.name,
+      startsAt: season.startsAt,
+      endsAt: season.endsAt,
+      closedAt: season.closedAt || undefined,
+      status,
+    };
+  }
+}
+
+// Singleton instance
+export const seasonService = new SeasonService();
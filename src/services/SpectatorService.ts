@@ -0,0 +1,117 @@
+import { Server } from 'socket.io';
+
+const DEFAULT_SPECTATOR_DELAY_MS = 3000;
+
+/**
+ * Socket.IO room of a match's spectators
+ */
+export function spectatorRoom(matchId: string): string {
+  return `spectate:${matchId}`;
+}
+
+/**
+ * Service for match spectators
+ * Spectators are not in match.players. They get sanitized (spectator view) match
+ * events with a delay, so watching a match gives no edge to a player in it.
+ */
+export class SpectatorService {
+  private spectators: Map<string, Set<string>> = new Map(); // matchId -> socket IDs
+  private socketToMatch: Map<string, string> = new Map(); // socketId -> watched matchId
+
+  /**
+   * Delay of spectator events (SPECTATOR_DELAY_MS, read on use so .env is loaded)
+   */
+  getDelayMs(): number {
+    const delayMs = parseInt(process.env.SPECTATOR_DELAY_MS || '', 10);
+    return Number.isNaN(delayMs) ? DEFAULT_SPECTATOR_DELAY_MS : Math.max(0, delayMs);
+  }
+
+  /**
+   * Start watching a match (a socket watches one match at a time)
+   * @returns previously watched match ID, if any
+   */
+  addSpectator(matchId: string, socketId: string): string | undefined {
+    const previousMatchId = this.removeSpectator(socketId);
+
+    const sockets = this.spectators.get(matchId) || new Set<string>();
+    sockets.add(socketId);
+    this.spectators.set(matchId, sockets);
+    this.socketToMatch.set(socketId, matchId);
+
+    return previousMatchId;
+  }
+
+  /**
+   * Stop watching
+   * @returns match ID the socket was watching, if any
+   */
+  removeSpectator(socketId: string): string | undefined {
+    const matchId = this.socketToMatch.get(socketId);
+    if (!matchId) return undefined;
+
+    this.socketToMatch.delete(socketId);
+    const sockets = this.spectators.get(matchId);
+    if (sockets) {
+      sockets.delete(socketId);
+      if (sockets.size === 0) {
+        this.spectators.delete(matchId);
+      }
+    }
+
+    return matchId;
+  }
+
+  /**
+   * Number of spectators of a match
+   */
+  getSpectatorCount(matchId: string): number {
+    return this.spectators.get(matchId)?.size || 0;
+  }
+
+  /**
+   * Send an event to the spectators of a match after the spectator delay
+   * The payload must already be sanitized (spectator view) and is sent as-is
+   */
+  broadcast(io: Server, matchId: string, event: string, payload: unknown): void {
+    if (this.getSpectatorCount(matchId) === 0) {
+      return;
+    }
+
+    setTimeout(() => {
+      io.to(spectatorRoom(matchId)).emit(event, payload);
+    }, this.getDelayMs());
+  }
+
+  /**
+   * Send an event to one spectator after the spectator delay (skipped if it stopped watching the match)
+   * The payload must already be sanitized (spectator view) and is sent as-is
+   */
+  send(io: Server, matchId: string, socketId: string, event: string, payload: unknown): void {
+    setTimeout(() => {
+      if (this.socketToMatch.get(socketId) === matchId) {
+        io.to(socketId).emit(event, payload);
+      }
+    }, this.getDelayMs());
+  }
+
+  /**
+   * Forget spectators of a match that is over
+   * They leave the spectator room once the delayed events already broadcast have been sent
+   */
+  clearMatch(io: Server, matchId: string): void {
+    const sockets = this.spectators.get(matchId);
+    if (!sockets) return;
+
+    for (const socketId of sockets) {
+      this.socketToMatch.delete(socketId);
+    }
+    this.spectators.delete(matchId);
+
+    setTimeout(() => {
+      io.in(spectatorRoom(matchId)).socketsLeave(spectatorRoom(matchId));
+    }, this.getDelayMs());
+  }
+}
+
+// Singleton instance
+export const spectatorService = new SpectatorService();
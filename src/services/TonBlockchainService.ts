@@ -1,5 +1,6 @@
 import { Address, Cell } from '@ton/core';
 import { joinIntentService } from './JoinIntentService.js';
+import { OP_REFUND } from './escrowOps.js';
 import { prisma } from '../db/prisma.js';
 
 export interface TonTransaction {
@@ -44,6 +45,9 @@ export interface TransactionMatch {
   blockTime: number; // Unix timestamp (seconds)
 }
 
+const TRANSACTIONS_PAGE_SIZE = 100; // TonCenter getTransactions limit per request
+const MAX_HISTORY_PAGES = 50; // History lookups stop after this many pages (5000 transactions)
+
 /** TonCenter v2 transaction format (ton-http-api) */
 interface TonCenterTransaction {
   transaction_id: { lt: string; hash: string };
@@ -54,9 +58,30 @@ interface TonCenterTransaction {
     message?: string; // base64 (legacy)
     msg_data?: { body?: string; text?: string }; // common TonCenter format
   };
+  out_msgs?: Array<{
+    source?: string;
+    destination?: string;
+    value?: string;
+  }>;
   utime?: number;
 }
 
+export interface RoomDeposit {
+  nonce: string;
+  txHash: string;
+  fromAddress: string;
+  amount: string; // in nanotons
+  blockTime: number; // Unix timestamp (seconds)
+}
+
+export interface OutgoingTransfer {
+  txHash: string;
+  lt: string;
+  toAddress: string;
+  amount: string; // in nanotons
+  blockTime: number; // Unix timestamp (seconds)
+}
+
 /**
  * Service for interacting with TON blockchain
  * Uses TonCenter API (free, stable). TonAPI optional via TON_API_URL.
@@ -122,6 +147,109 @@ export class TonBlockchainService {
     }
   }
 
+  /**
+   * Fetch latest transactions of an account from TonCenter (newest first)
+   */
+  private async fetchTransactions(
+    address: string,
+    before?: { lt: string; hash: string }
+  ): Promise<TonCenterTransaction[]> {
+    // Use TonCenter API (free, stable). getTransactions?address=...
+    const params = new URLSearchParams();
+    params.append('address', address);
+    params.append('limit', String(TRANSACTIONS_PAGE_SIZE));
+    if (before) {
+      // Page starts at this transaction (inclusive)
+      params.append('lt', before.lt);
+      params.append('hash', before.hash);
+    }
+
+    const url = `${this.tonCenterUrl}/getTransactions?${params.toString()}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`TonCenter error: ${response.status} ${errorText}`);
+      throw new Error(`Failed to fetch transactions: ${response.status}`);
+    }
+
+    const data = (await response.json()) as {
+      ok?: boolean;
+      result?: TonCenterTransaction[];
+      description?: string;
+    };
+
+    if (!data.ok || !data.result) {
+      return [];
+    }
+    return data.result;
+  }
+
+  /**
+   * Fetch transactions newest first, paging back until the given time
+   * (at most MAX_HISTORY_PAGES pages)
+   */
+  private async fetchTransactionsSince(address: string, since: Date): Promise<TonCenterTransaction[]> {
+    const sinceSeconds = Math.floor(since.getTime() / 1000);
+    const transactions: TonCenterTransaction[] = [];
+    let before: { lt: string; hash: string } | undefined;
+
+    for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+      const result = await this.fetchTransactions(address, before);
+      // A page starts with the last transaction of the previous one
+      const fresh = before ? result.slice(1) : result;
+      if (fresh.length === 0) {
+        break;
+      }
+
+      for (const tc of fresh) {
+        if ((tc.utime || 0) < sinceSeconds) {
+          return transactions;
+        }
+        transactions.push(tc);
+      }
+
+      const last = fresh[fresh.length - 1];
+      if (result.length < TRANSACTIONS_PAGE_SIZE || !last.transaction_id?.lt) {
+        break;
+      }
+      before = { lt: last.transaction_id.lt, hash: last.transaction_id.hash };
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Map TonCenter format to our TonTransaction format
+   */
+  private toTonTransaction(tc: TonCenterTransaction, accountAddress: string): TonTransaction {
+    let comment: string | null = null;
+    const msgData = tc.in_msg?.msg_data;
+    const rawMsg = tc.in_msg?.message ?? msgData?.body;
+    if (msgData?.text && typeof msgData.text === 'string') {
+      comment = msgData.text; // Already plain text
+    } else if (rawMsg && typeof rawMsg === 'string') {
+      comment = this.decodeCommentFromBase64(rawMsg); // base64 BOC or raw
+    }
+    return {
+      hash: tc.transaction_id?.hash || '',
+      lt: tc.transaction_id?.lt || '',
+      account: { address: accountAddress },
+      inMsg: tc.in_msg
+        ? {
+            value: tc.in_msg.value,
+            destination: tc.in_msg.destination ? { address: tc.in_msg.destination } : undefined,
+            source: tc.in_msg.source ? { address: tc.in_msg.source } : undefined,
+            message: comment ? { msg_data: { text: comment } } : undefined,
+          }
+        : undefined,
+      blockTime: tc.utime || 0,
+    };
+  }
+
   /**
    * Check incoming transactions to escrow address
    * Returns transactions that match our join intents
@@ -132,61 +260,14 @@ export class TonBlockchainService {
     sinceLt?: string
   ): Promise<{ matches: TransactionMatch[]; latestLt: string | null }> {
     try {
-      // Use TonCenter API (free, stable). getTransactions?address=...
-      const params = new URLSearchParams();
-      params.append('address', escrowAddress);
-      params.append('limit', '100');
       // Note: TonCenter returns newest first. We filter by sinceLt in the loop.
-
-      const url = `${this.tonCenterUrl}/getTransactions?${params.toString()}`;
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`TonCenter error: ${response.status} ${errorText}`);
-        throw new Error(`Failed to fetch transactions: ${response.status}`);
-      }
-
-      const data = (await response.json()) as {
-        ok?: boolean;
-        result?: TonCenterTransaction[];
-        description?: string;
-      };
-
-      if (!data.ok || !data.result || data.result.length === 0) {
+      const result = await this.fetchTransactions(escrowAddress);
+      if (result.length === 0) {
         return { matches: [], latestLt: sinceLt || null };
       }
 
-      const txCount = data.result.length;
-
-      // Map TonCenter format to our TonTransaction format
-      const transactions: TonTransaction[] = data.result.map((tc) => {
-        let comment: string | null = null;
-        const msgData = tc.in_msg?.msg_data;
-        const rawMsg = tc.in_msg?.message ?? msgData?.body;
-        if (msgData?.text && typeof msgData.text === 'string') {
-          comment = msgData.text; // Already plain text
-        } else if (rawMsg && typeof rawMsg === 'string') {
-          comment = this.decodeCommentFromBase64(rawMsg); // base64 BOC or raw
-        }
-        return {
-          hash: tc.transaction_id?.hash || '',
-          lt: tc.transaction_id?.lt || '',
-          account: { address: escrowAddress },
-          inMsg: tc.in_msg
-            ? {
-                value: tc.in_msg.value,
-                destination: tc.in_msg.destination ? { address: tc.in_msg.destination } : undefined,
-                source: tc.in_msg.source ? { address: tc.in_msg.source } : undefined,
-                message: comment ? { msg_data: { text: comment } } : undefined,
-              }
-            : undefined,
-          blockTime: tc.utime || 0,
-        };
-      });
+      const txCount = result.length;
+      const transactions = result.map((tc) => this.toTonTransaction(tc, escrowAddress));
 
       // Extract nonces and roomIds from all active CREATED intents
       const activeIntents = await prisma.joinIntent.findMany({
@@ -474,6 +555,104 @@ export class TonBlockchainService {
     }
   }
 
+  /**
+   * Find deposits to an escrow room among escrow transactions since the given time
+   * Unlike checkIncomingTransactions, not limited to active intents (used by reconciliation)
+   * @param since - page back to this time (e.g. when the match was created)
+   * @returns deposits with the nonce from their comment, newest first
+   */
+  async findRoomDeposits(escrowAddress: string, onChainRoomId: string, since: Date): Promise<RoomDeposit[]> {
+    const result = await this.fetchTransactionsSince(escrowAddress, since);
+
+    const deposits: RoomDeposit[] = [];
+    for (const tc of result) {
+      const tx = this.toTonTransaction(tc, escrowAddress);
+      const comment = this.extractComment(tx);
+      const parsed = comment ? this.extractRoomIdAndNonceFromComment(comment) : null;
+      if (!parsed || parsed.roomId !== onChainRoomId || !this.verifyEscrowDestination(tx, escrowAddress)) {
+        continue;
+      }
+
+      const amount = this.extractAmount(tx);
+      const fromAddress = tx.inMsg?.source?.address || '';
+      if (!amount || !fromAddress) {
+        continue;
+      }
+
+      deposits.push({
+        nonce: parsed.nonce,
+        txHash: tx.hash,
+        fromAddress,
+        amount,
+        blockTime: tx.blockTime,
+      });
+    }
+    return deposits;
+  }
+
+  /**
+   * Find transfers the escrow contract made for a refund of a room to a player
+   * The transaction must be triggered by a refund message for that room and player, and send TON to the player
+   * @param since - transactions are searched back to this time
+   */
+  async findRefundTransfers(
+    escrowAddress: string,
+    params: { roomId: bigint; player: string; since: Date }
+  ): Promise<OutgoingTransfer[]> {
+    const result = await this.fetchTransactionsSince(escrowAddress, params.since);
+
+    let player: Address;
+    try {
+      player = Address.parse(params.player);
+    } catch {
+      return [];
+    }
+
+    const transfers: OutgoingTransfer[] = [];
+    for (const tc of result) {
+      const body = tc.in_msg?.msg_data?.body ?? tc.in_msg?.message;
+      if (!body || !this.isRefundMessage(body, params.roomId, player)) {
+        continue;
+      }
+
+      const outMsg = tc.out_msgs?.find((msg) => msg.destination && this.isSameAddress(msg.destination, player));
+      if (outMsg) {
+        transfers.push({
+          txHash: tc.transaction_id?.hash || '',
+          lt: tc.transaction_id?.lt || '',
+          toAddress: outMsg.destination!,
+          amount: outMsg.value || '0',
+          blockTime: tc.utime || 0,
+        });
+      }
+    }
+    return transfers;
+  }
+
+  /**
+   * Check that a message body (base64 BOC) is a refund op for the room and player
+   */
+  private isRefundMessage(body: string, roomId: bigint, player: Address): boolean {
+    try {
+      const slice = Cell.fromBase64(body).beginParse();
+      if (slice.remainingBits < 32 + 64 + 64 || slice.loadUint(32) !== OP_REFUND) {
+        return false;
+      }
+      slice.skip(64); // query ID
+      return slice.loadUintBig(64) === roomId && slice.loadAddress().equals(player);
+    } catch {
+      return false;
+    }
+  }
+
+  private isSameAddress(address: string, expected: Address): boolean {
+    try {
+      return Address.parse(address).equals(expected);
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Get transaction details
    */
@@ -0,0 +1,781 @@
+import { Match, Player, Tournament, TournamentEntry, TournamentFormat } from '../types/game';
+import type { Prisma } from '../../generated/prisma/client.js';
+import { prisma } from '../db/prisma.js';
+import { matchmaker } from './Matchmaker.js';
+import { matchService } from './MatchService.js';
+import { paymentService } from './PaymentService.js';
+import { roomPresetService } from './RoomPresetService.js';
+import { determineTopPlayers } from '../utils/gameLogic.js';
+import { advancingCount, distributePrizes, rankStandings, splitIntoGroups } from '../utils/tournament.js';
+
+export type TournamentInput = Partial<Omit<Tournament, 'registrationOpensAt' | 'registrationClosesAt'>> & {
+  registrationOpensAt?: string | Date;
+  registrationClosesAt?: string | Date;
+};
+
+const TOURNAMENT_FORMATS: TournamentFormat[] = ['bracket', 'swiss'];
+// TON entries are plain payments without an escrow deposit and TON prizes have no claim path, so stars only for now
+const TOURNAMENT_CURRENCIES: Tournament['currency'][] = ['stars'];
+const MAX_TOURNAMENT_PLAYERS = 1024;
+const MAX_SWISS_ROUNDS = 20;
+const CHECK_INTERVAL_MS = 10000; // How often registration deadlines and stages are checked
+const DEFAULT_CHECKIN_SEC = 60; // Delay between a stage match being created and started (TOURNAMENT_CHECKIN_SEC)
+
+/**
+ * Callbacks invoked by tournaments
+ * (implemented by the tournament socket handlers)
+ */
+export interface TournamentHandlers {
+  stageMatchCreated(tournament: Tournament, match: Match, startsAt: number): void; // Players are seated, sockets not attached yet
+  startMatch(matchId: string): Promise<void>; // Check-in is over
+  tournamentUpdated(tournament: Tournament): void; // Started, next stage, finished or cancelled
+}
+
+export interface TournamentDetails {
+  tournament: Tournament;
+  entries: TournamentEntry[];
+  stages: Array<{ stage: number; matches: Array<{ id: string; status: string; playerIds: string[] }> }>;
+  prizePool: number;
+}
+
+function getCheckinMs(): number {
+  const seconds = parseInt(process.env.TOURNAMENT_CHECKIN_SEC || '', 10);
+  return (Number.isNaN(seconds) ? DEFAULT_CHECKIN_SEC : Math.max(0, seconds)) * 1000;
+}
+
+/**
+ * Service for tournaments
+ * Tournaments live in the database; stage matches are ordinary matches spawned through
+ * the Matchmaker with all players seated. When every match of a stage is finished the
+ * next stage is planned from the results, and the last stage pays out the prize pool.
+ */
+export class TournamentService {
+  private handlers: TournamentHandlers | null = null;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private startTimers: Map<string, NodeJS.Timeout> = new Map(); // matchId -> stage match check-in
+  private locks: Map<string, Promise<void>> = new Map(); // tournamentId -> running state transition
+
+  /**
+   * Register tournament handlers
+   */
+  setHandlers(handlers: TournamentHandlers): void {
+    this.handlers = handlers;
+  }
+
+  /**
+   * Start periodic checks (registration deadlines, overdue stage matches, finished stages)
+   * Also picks tournaments up again after a restart
+   */
+  start(): void {
+    if (this.checkTimer) {
+      return;
+    }
+
+    this.checkTimer = setInterval(() => {
+      this.checkTournaments().catch((error) => {
+        console.error('❌ Error in tournament check:', error);
+      });
+    }, CHECK_INTERVAL_MS);
+    console.log('🏆 Tournament checks started');
+  }
+
+  /**
+   * Stop periodic checks and pending check-in timers
+   */
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    for (const timer of this.startTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.startTimers.clear();
+  }
+
+  /**
+   * Create a tournament
+   */
+  async createTournament(input: TournamentInput): Promise<Tournament> {
+    const tournament: Tournament = {
+      id: '',
+      name: typeof input.name === 'string' ? input.name.trim() : '',
+      format: input.format as TournamentFormat,
+      currency: input.currency as Tournament['currency'],
+      entryFee: input.entryFee as number,
+      platformFee: input.platformFee ?? 0,
+      prizeTable: input.prizeTable ?? [100],
+      presetId: input.presetId as string,
+      matchSize: input.matchSize as number,
+      advancePerMatch: input.advancePerMatch ?? 1,
+      swissRounds: input.swissRounds ?? 3,
+      minPlayers: input.minPlayers ?? 2,
+      maxPlayers: input.maxPlayers as number,
+      status: 'registration',
+      currentStage: 0,
+      registrationOpensAt: input.registrationOpensAt ? new Date(input.registrationOpensAt) : new Date(),
+      registrationClosesAt: new Date(input.registrationClosesAt as string | Date),
+      createdAt: new Date(),
+    };
+    this.validateTournament(tournament);
+
+    const created = await prisma.tournament.create({
+      data: this.tournamentToDb(tournament),
+    });
+
+    console.log(`🏆 Created ${tournament.format} tournament ${created.id} (${tournament.name})`);
+    return this.dbTournamentToTournament(created);
+  }
+
+  /**
+   * List tournaments, newest registration deadline first
+   */
+  async listTournaments(status?: string): Promise<Tournament[]> {
+    const rows = await prisma.tournament.findMany({
+      where: status ? { status } : undefined,
+      orderBy: { registrationClosesAt: 'desc' },
+      take: 50,
+    });
+    return rows.map((row: any) => this.dbTournamentToTournament(row));
+  }
+
+  /**
+   * Get tournament with entries and stage matches
+   */
+  async getTournament(tournamentId: string): Promise<TournamentDetails | null> {
+    const row = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        entries: { orderBy: { seed: 'asc' } },
+        matches: {
+          orderBy: [{ tournamentStage: 'asc' }, { createdAt: 'asc' }],
+          include: { players: { select: { playerId: true } } },
+        },
+      },
+    });
+    if (!row) {
+      return null;
+    }
+
+    const tournament = this.dbTournamentToTournament(row);
+    const stages: TournamentDetails['stages'] = [];
+    for (const match of row.matches) {
+      let stage = stages.find((s) => s.stage === match.tournamentStage);
+      if (!stage) {
+        stage = { stage: match.tournamentStage, matches: [] };
+        stages.push(stage);
+      }
+      stage.matches.push({
+        id: match.id,
+        status: match.status,
+        playerIds: match.players.map((p: any) => p.playerId),
+      });
+    }
+
+    return {
+      tournament,
+      entries: row.entries.map((entry: any) => this.dbEntryToEntry(entry)),
+      stages,
+      prizePool: this.prizePool(tournament, row.entries.length),
+    };
+  }
+
+  /**
+   * Get the player's waiting or playing stage match, with its check-in end
+   * (for players who were not connected when the match was created)
+   */
+  async getPlayerStageMatch(tournamentId: string, playerId: string): Promise<{ match: Match; startsAt: number } | null> {
+    const row = await prisma.match.findFirst({
+      where: {
+        tournamentId,
+        status: { in: ['waiting', 'playing'] },
+        players: { some: { playerId } },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+    if (!row) {
+      return null;
+    }
+
+    const match = matchmaker.getMatch(row.id) || (await matchmaker.restoreMatchById(row.id, true));
+    if (!match || !match.players.some((p) => p.id === playerId)) {
+      return null; // Left the match
+    }
+
+    return { match, startsAt: match.createdAt.getTime() + getCheckinMs() };
+  }
+
+  /**
+   * Register a player with a verified entry payment
+   * Status, capacity and seed are checked and assigned in one transaction holding the tournament row lock,
+   * so concurrent registrations never exceed maxPlayers, share a seed or land after registration closed;
+   * the entry payment is claimed in the same transaction
+   * @throws Error with a client-facing message
+   */
+  async register(
+    tournamentId: string,
+    playerId: string,
+    playerName: string,
+    paymentId: string,
+    paymentSignature: string
+  ): Promise<TournamentEntry> {
+    const row = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+    });
+    if (!row) {
+      throw new Error('Tournament not found');
+    }
+
+    const tournament = this.dbTournamentToTournament(row);
+    if (!this.isRegistrationOpen(row)) {
+      throw new Error('Registration is closed');
+    }
+
+    const existing = await prisma.tournamentEntry.findUnique({
+      where: { tournamentId_playerId: { tournamentId, playerId } },
+    });
+    if (existing) {
+      throw new Error('Already registered');
+    }
+
+    // Entry payment must be unused and in the tournament currency
+    const payment = await paymentService.getEntryPayment(paymentId);
+    if (!payment || payment.status !== 'pending' || payment.currency !== tournament.currency) {
+      throw new Error('Payment verification failed');
+    }
+    const verified = await paymentService.verifyEntryPayment(paymentId, playerId, paymentSignature, tournament.entryFee);
+    if (!verified) {
+      throw new Error('Payment verification failed');
+    }
+
+    let entry;
+    try {
+      entry = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Registration may have closed since the checks above; closeRegistration takes the same lock
+        const locked = await this.lockTournament(tx, tournamentId);
+        if (!locked || !this.isRegistrationOpen(locked)) {
+          throw new Error('Registration is closed');
+        }
+
+        const entries = await tx.tournamentEntry.count({ where: { tournamentId } });
+        if (entries >= tournament.maxPlayers) {
+          throw new Error('Tournament is full');
+        }
+
+        // Claimed with the entry, so a payment spent concurrently elsewhere rolls the registration back
+        if (!(await paymentService.linkPaymentToTournament(paymentId, tournamentId, tx))) {
+          throw new Error('Payment verification failed');
+        }
+
+        return tx.tournamentEntry.create({
+          data: {
+            tournamentId,
+            playerId,
+            playerName,
+            paymentId,
+            seed: entries + 1,
+          },
+        });
+      });
+    } catch (error: any) {
+      // Registered concurrently with the same player
+      if (error?.code === 'P2002') {
+        throw new Error('Already registered');
+      }
+      throw error;
+    }
+
+    console.log(`📝 Player ${playerId} registered for tournament ${tournamentId} (seed ${entry.seed})`);
+    return this.dbEntryToEntry(entry);
+  }
+
+  /**
+   * Called when a match finishes; advances its tournament once the whole stage is done
+   */
+  async onMatchFinished(match: Match): Promise<void> {
+    if (!match.tournamentId) {
+      return;
+    }
+    await this.withLock(match.tournamentId, () => this.advanceIfStageComplete(match.tournamentId!));
+  }
+
+  /**
+   * Close registration of due tournaments, start overdue stage matches and
+   * advance tournaments whose stage is complete
+   */
+  async checkTournaments(): Promise<void> {
+    const due = await prisma.tournament.findMany({
+      where: {
+        status: 'registration',
+        registrationClosesAt: { lte: new Date() },
+      },
+    });
+    for (const row of due) {
+      await this.withLock(row.id, () => this.closeRegistration(row.id));
+    }
+
+    const running = await prisma.tournament.findMany({
+      where: { status: 'running' },
+      select: { id: true },
+    });
+    for (const row of running) {
+      await this.withLock(row.id, async () => {
+        await this.startOverdueMatches(row.id);
+        await this.advanceIfStageComplete(row.id);
+      });
+    }
+  }
+
+  /**
+   * Start the tournament, or cancel it (refunding entries) if too few players registered
+   * Entries are read and the status changed under the tournament row lock, so no registration lands in between
+   */
+  private async closeRegistration(tournamentId: string): Promise<void> {
+    const closed = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await this.lockTournament(tx, tournamentId);
+
+      const row = await tx.tournament.findUnique({
+        where: { id: tournamentId },
+        include: { entries: { orderBy: { seed: 'asc' } } },
+      });
+      if (!row || row.status !== 'registration') {
+        return null;
+      }
+
+      const now = new Date();
+      const cancelled = row.entries.length < row.minPlayers;
+      await tx.tournament.update({
+        where: { id: tournamentId },
+        data: cancelled ? { status: 'cancelled', finishedAt: now } : { status: 'running', startedAt: now },
+      });
+      return { row, cancelled, now };
+    });
+    if (!closed) {
+      return;
+    }
+
+    const { row, now } = closed;
+    const tournament = this.dbTournamentToTournament(row);
+    if (closed.cancelled) {
+      await paymentService.refundTournamentEntries(tournament);
+
+      console.log(`🚫 Tournament ${tournamentId} cancelled: ${row.entries.length}/${tournament.minPlayers} players registered`);
+      this.handlers?.tournamentUpdated({ ...tournament, status: 'cancelled', finishedAt: now });
+      return;
+    }
+
+    console.log(`🏁 Tournament ${tournamentId} started with ${row.entries.length} players`);
+    await this.startStage(
+      { ...tournament, status: 'running', startedAt: now },
+      1,
+      row.entries.map((entry: any) => this.dbEntryToEntry(entry))
+    );
+  }
+
+  /**
+   * Lock the tournament row until the transaction ends (serializes registration and closing)
+   */
+  private async lockTournament(
+    tx: Prisma.TransactionClient,
+    tournamentId: string
+  ): Promise<{ status: string; registrationOpensAt: Date; registrationClosesAt: Date } | null> {
+    const rows = await tx.$queryRaw<Array<{ status: string; registrationOpensAt: Date; registrationClosesAt: Date }>>`
+      SELECT status, "registrationOpensAt", "registrationClosesAt" FROM "tournaments" WHERE id = ${tournamentId} FOR UPDATE`;
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Whether a tournament takes registrations right now
+   */
+  private isRegistrationOpen(row: { status: string; registrationOpensAt: Date; registrationClosesAt: Date }): boolean {
+    const now = Date.now();
+    return (
+      row.status === 'registration' &&
+      now >= row.registrationOpensAt.getTime() &&
+      now < row.registrationClosesAt.getTime()
+    );
+  }
+
+  /**
+   * Spawn the matches of a stage (players in seed or standings order)
+   */
+  private async startStage(tournament: Tournament, stage: number, players: TournamentEntry[]): Promise<void> {
+    await prisma.tournament.update({
+      where: { id: tournament.id },
+      data: { currentStage: stage },
+    });
+    const updated = { ...tournament, currentStage: stage };
+
+    const byId = new Map(players.map((p) => [p.playerId, p]));
+    const groups = splitIntoGroups(players.map((p) => p.playerId), tournament.matchSize);
+    const checkinMs = getCheckinMs();
+
+    for (const group of groups) {
+      // A player without opponents sits the stage out (bracket: advances, swiss: no points)
+      if (group.length < 2) {
+        console.log(`🏆 Tournament ${tournament.id} stage ${stage}: bye for player ${group[0]}`);
+        continue;
+      }
+
+      const seated: Player[] = group.map((playerId) => ({
+        id: playerId,
+        name: byId.get(playerId)!.playerName,
+        score: 0,
+      }));
+
+      const match = matchmaker.createTournamentMatch(tournament.id, stage, tournament.presetId, seated);
+      await matchService.saveMatch(match);
+      this.handlers?.stageMatchCreated(updated, match, Date.now() + checkinMs);
+      this.scheduleMatchStart(match.id, checkinMs);
+    }
+
+    console.log(`🏆 Tournament ${tournament.id} stage ${stage}: ${groups.filter((g) => g.length >= 2).length} match(es), check-in ${checkinMs / 1000}s`);
+    this.handlers?.tournamentUpdated(updated);
+  }
+
+  /**
+   * Start a stage match once check-in is over
+   */
+  private scheduleMatchStart(matchId: string, delayMs: number): void {
+    if (this.startTimers.has(matchId)) {
+      return;
+    }
+
+    this.startTimers.set(
+      matchId,
+      setTimeout(() => {
+        this.startTimers.delete(matchId);
+        this.startStageMatch(matchId).catch((error) => {
+          console.error(`❌ Failed to start tournament match ${matchId}:`, error);
+        });
+      }, delayMs)
+    );
+  }
+
+  /**
+   * Start a waiting stage match
+   * If fewer than two seated players are left, the match is settled as a walkover
+   */
+  private async startStageMatch(matchId: string): Promise<void> {
+    const match = matchmaker.getMatch(matchId) || (await matchmaker.restoreMatchById(matchId));
+    if (!match || match.status !== 'waiting') {
+      return;
+    }
+
+    if (match.players.length >= 2) {
+      await this.handlers?.startMatch(matchId);
+      return;
+    }
+
+    console.log(`🏳️ Tournament match ${matchId} settled as a walkover (${match.players.length} player(s) left)`);
+    match.status = 'finished';
+    match.finishedAt = new Date();
+    match.statsUpdated = true;
+    await matchService.finishMatch(match, match.players);
+    await this.onMatchFinished(match);
+  }
+
+  /**
+   * Schedule waiting stage matches that have no check-in timer (e.g. after a restart)
+   */
+  private async startOverdueMatches(tournamentId: string): Promise<void> {
+    const waiting = await prisma.match.findMany({
+      where: { tournamentId, status: 'waiting' },
+      select: { id: true, createdAt: true },
+    });
+    const checkinMs = getCheckinMs();
+
+    for (const match of waiting) {
+      const remainingMs = match.createdAt.getTime() + checkinMs - Date.now();
+      this.scheduleMatchStart(match.id, Math.max(0, remainingMs));
+    }
+  }
+
+  /**
+   * Plan the next stage (or finish the tournament) once every match of the current stage is finished
+   */
+  private async advanceIfStageComplete(tournamentId: string): Promise<void> {
+    const row = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: { entries: { orderBy: { seed: 'asc' } } },
+    });
+    if (!row || row.status !== 'running' || row.currentStage === 0) {
+      return;
+    }
+
+    const tournament = this.dbTournamentToTournament(row);
+    const stage = tournament.currentStage;
+    const matches = await prisma.match.findMany({
+      where: { tournamentId, tournamentStage: stage },
+      include: { players: true },
+    });
+    if (matches.length === 0 || matches.some((m: any) => m.status !== 'finished')) {
+      return;
+    }
+
+    const entries = new Map<string, TournamentEntry>(
+      row.entries.map((entry: any) => [entry.playerId, this.dbEntryToEntry(entry)])
+    );
+    const stagePlayerIds = new Set<string>(matches.flatMap((m: any) => m.players.map((p: any) => p.playerId)));
+
+    // Bracket: the stage is the final when every remaining player met in one match
+    const activeBefore = Array.from(entries.values()).filter((entry) => entry.status === 'active');
+    const isFinal = matches.length === 1 && activeBefore.every((entry) => stagePlayerIds.has(entry.playerId));
+
+    for (const match of matches) {
+      // Ties at the cut go to players who stayed to the end, then to the higher seed
+      const seats = match.players
+        .filter((p: any) => entries.has(p.playerId))
+        .sort((a: any, b: any) =>
+          Number(a.leftEarly) - Number(b.leftEarly) ||
+          entries.get(a.playerId)!.seed - entries.get(b.playerId)!.seed
+        );
+
+      for (const seat of seats) {
+        const entry = entries.get(seat.playerId)!;
+        entry.lastScore = seat.score;
+        entry.points += seat.score;
+      }
+
+      // Bracket: the top N of each match advance
+      if (tournament.format === 'bracket' && !isFinal) {
+        const players: Player[] = seats.map((p: any) => ({ id: p.playerId, name: p.playerName, score: p.score }));
+        const advancing = new Set(
+          determineTopPlayers(players, advancingCount(players.length, tournament.advancePerMatch)).map((p) => p.id)
+        );
+        for (const player of players) {
+          if (!advancing.has(player.id)) {
+            const entry = entries.get(player.id)!;
+            entry.status = 'eliminated';
+            entry.eliminatedStage = stage;
+          }
+        }
+      }
+    }
+
+    await prisma.$transaction(
+      Array.from(entries.values())
+        .filter((entry) => stagePlayerIds.has(entry.playerId))
+        .map((entry) =>
+          prisma.tournamentEntry.update({
+            where: { tournamentId_playerId: { tournamentId, playerId: entry.playerId } },
+            data: {
+              status: entry.status,
+              points: entry.points,
+              lastScore: entry.lastScore,
+              eliminatedStage: entry.eliminatedStage ?? null,
+            },
+          })
+        )
+    );
+
+    const allEntries = Array.from(entries.values());
+    const active = allEntries.filter((entry) => entry.status === 'active');
+    const isLastStage =
+      tournament.format === 'bracket'
+        ? isFinal || active.length < 2
+        : stage >= tournament.swissRounds;
+
+    if (isLastStage) {
+      await this.finishTournament(tournament, allEntries);
+      return;
+    }
+
+    // Swiss pairs players with similar points; the bracket keeps seed order
+    const nextPlayers = tournament.format === 'swiss'
+      ? [...active].sort((a, b) => b.points - a.points || a.seed - b.seed)
+      : active;
+    await this.startStage(tournament, stage + 1, nextPlayers);
+  }
+
+  /**
+   * Place players and pay out the prize pool by placement table
+   */
+  private async finishTournament(tournament: Tournament, entries: TournamentEntry[]): Promise<void> {
+    const standings = rankStandings(entries, tournament.format);
+    const prizes = distributePrizes(this.prizePool(tournament, entries.length), tournament.prizeTable, standings);
+    const names = new Map(entries.map((entry) => [entry.playerId, entry.playerName]));
+    const finishedAt = new Date();
+
+    await prisma.$transaction([
+      ...standings.map((standing) =>
+        prisma.tournamentEntry.update({
+          where: { tournamentId_playerId: { tournamentId: tournament.id, playerId: standing.playerId } },
+          data: {
+            place: standing.place,
+            prize: prizes.get(standing.playerId) ?? null,
+          },
+        })
+      ),
+      prisma.tournament.update({
+        where: { id: tournament.id },
+        data: { status: 'finished', finishedAt },
+      }),
+    ]);
+
+    await paymentService.processTournamentCompletion(
+      tournament,
+      Array.from(prizes.entries()).map(([playerId, amount]) => ({
+        playerId,
+        playerName: names.get(playerId) || 'Player',
+        amount,
+      }))
+    );
+
+    console.log(`🏆 Tournament ${tournament.id} finished, ${prizes.size} prize(s) paid out`);
+    this.handlers?.tournamentUpdated({ ...tournament, status: 'finished', finishedAt });
+  }
+
+  /**
+   * Prize pool: all entry fees minus the platform fee
+   */
+  private prizePool(tournament: Tournament, entries: number): number {
+    return tournament.entryFee * entries * (1 - tournament.platformFee / 100);
+  }
+
+  /**
+   * Run tournament state transitions one at a time per tournament
+   */
+  private async withLock(tournamentId: string, fn: () => Promise<void>): Promise<void> {
+    const previous = this.locks.get(tournamentId) || Promise.resolve();
+    const current = previous.then(fn, fn);
+    const settled = current.catch(() => undefined);
+    this.locks.set(tournamentId, settled);
+
+    try {
+      await current;
+    } finally {
+      if (this.locks.get(tournamentId) === settled) {
+        this.locks.delete(tournamentId);
+      }
+    }
+  }
+
+  /**
+   * Validate tournament fields
+   * @throws Error with a client-facing message
+   */
+  private validateTournament(tournament: Tournament): void {
+    if (!tournament.name || tournament.name.length > 100) {
+      throw new Error('name must be 1-100 characters');
+    }
+    if (!TOURNAMENT_FORMATS.includes(tournament.format)) {
+      throw new Error(`Invalid format. Must be one of: ${TOURNAMENT_FORMATS.join(', ')}`);
+    }
+    if (!TOURNAMENT_CURRENCIES.includes(tournament.currency)) {
+      throw new Error(`Invalid currency. Must be one of: ${TOURNAMENT_CURRENCIES.join(', ')}`);
+    }
+    if (typeof tournament.entryFee !== 'number' || !Number.isFinite(tournament.entryFee) || tournament.entryFee <= 0) {
+      throw new Error('entryFee must be a positive number');
+    }
+    if (!Number.isInteger(tournament.platformFee) || tournament.platformFee < 0 || tournament.platformFee > 100) {
+      throw new Error('platformFee must be an integer between 0 and 100');
+    }
+    if (
+      !Array.isArray(tournament.prizeTable) ||
+      tournament.prizeTable.length === 0 ||
+      tournament.prizeTable.some((p) => typeof p !== 'number' || !Number.isFinite(p) || p < 0) ||
+      tournament.prizeTable.reduce((sum, p) => sum + p, 0) > 100
+    ) {
+      throw new Error('prizeTable must be a list of non-negative percents adding up to at most 100');
+    }
+
+    const preset = roomPresetService.getPreset(tournament.presetId);
+    if (!preset) {
+      throw new Error(`Room preset not found: ${tournament.presetId}`);
+    }
+    if (!Number.isInteger(tournament.matchSize) || tournament.matchSize < 2 || tournament.matchSize > preset.maxPlayers) {
+      throw new Error(`matchSize must be between 2 and ${preset.maxPlayers} (preset maxPlayers)`);
+    }
+    if (!Number.isInteger(tournament.advancePerMatch) || tournament.advancePerMatch < 1 || tournament.advancePerMatch >= tournament.matchSize) {
+      throw new Error('advancePerMatch must be at least 1 and less than matchSize');
+    }
+    if (!Number.isInteger(tournament.swissRounds) || tournament.swissRounds < 1 || tournament.swissRounds > MAX_SWISS_ROUNDS) {
+      throw new Error(`swissRounds must be between 1 and ${MAX_SWISS_ROUNDS}`);
+    }
+    if (!Number.isInteger(tournament.maxPlayers) || tournament.maxPlayers < 2 || tournament.maxPlayers > MAX_TOURNAMENT_PLAYERS) {
+      throw new Error(`maxPlayers must be between 2 and ${MAX_TOURNAMENT_PLAYERS}`);
+    }
+    if (!Number.isInteger(tournament.minPlayers) || tournament.minPlayers < 2 || tournament.minPlayers > tournament.maxPlayers) {
+      throw new Error('minPlayers must be between 2 and maxPlayers');
+    }
+    if (Number.isNaN(tournament.registrationOpensAt.getTime()) || Number.isNaN(tournament.registrationClosesAt.getTime())) {
+      throw new Error('registrationOpensAt and registrationClosesAt must be valid dates');
+    }
+    if (tournament.registrationClosesAt <= tournament.registrationOpensAt || tournament.registrationClosesAt.getTime() <= Date.now()) {
+      throw new Error('registrationClosesAt must be in the future and after registrationOpensAt');
+    }
+  }
+
+  /**
+   * Convert Tournament settings to Prisma data
+   */
+  private tournamentToDb(tournament: Tournament) {
+    return {
+      name: tournament.name,
+      format: tournament.format,
+      currency: tournament.currency,
+      entryFee: tournament.entryFee,
+      platformFee: tournament.platformFee,
+      prizeTable: tournament.prizeTable,
+      presetId: tournament.presetId,
+      matchSize: tournament.matchSize,
+      advancePerMatch: tournament.advancePerMatch,
+      swissRounds: tournament.swissRounds,
+      minPlayers: tournament.minPlayers,
+      maxPlayers: tournament.maxPlayers,
+      status: tournament.status,
+      registrationOpensAt: tournament.registrationOpensAt,
+      registrationClosesAt: tournament.registrationClosesAt,
+    };
+  }
+
+  /**
+   * Convert Prisma Tournament to Tournament
+   */
+  private dbTournamentToTournament(row: any): Tournament {
+    return {
+      id: row.id,
+      name: row.name,
+      format: row.format as TournamentFormat,
+      currency: row.currency as Tournament['currency'],
+      entryFee: Number(row.entryFee),
+      platformFee: row.platformFee,
+      prizeTable: (row.prizeTable as number[]) || [],
+      presetId: row.presetId,
+      matchSize: row.matchSize,
+      advancePerMatch: row.advancePerMatch,
+      swissRounds: row.swissRounds,
+      minPlayers: row.minPlayers,
+      maxPlayers: row.maxPlayers,
+      status: row.status,
+      currentStage: row.currentStage,
+      registrationOpensAt: row.registrationOpensAt,
+      registrationClosesAt: row.registrationClosesAt,
+      createdAt: row.createdAt,
+      startedAt: row.startedAt || undefined,
+      finishedAt: row.finishedAt || undefined,
+    };
+  }
+
+  /**
+   * Convert Prisma TournamentEntry to TournamentEntry
+   */
+  private dbEntryToEntry(row: any): TournamentEntry {
+    return {
+      playerId: row.playerId,
+      playerName: row.playerName,
+      seed: row.seed,
+      status: row.status,
+      points: row.points,
+      lastScore: row.lastScore,
+      eliminatedStage: row.eliminatedStage ?? undefined,
+      place: row.place ?? undefined,
+      prize: row.prize !== null && row.prize !== undefined ? Number(row.prize) : undefined,
+    };
+  }
+}
+
+// Singleton instance
+export const tournamentService = new TournamentService();
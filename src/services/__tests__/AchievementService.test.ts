@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AchievementService } from '../AchievementService.js';
+import { prisma } from '../../db/prisma.js';
+import { Match } from '../../types/game';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    playerAchievement: {
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    matchPlayer: {
+      findMany: vi.fn(),
+    },
+    $queryRawUnsafe: vi.fn(),
+  },
+}));
+
+function finishedMatch(): Match {
+  return {
+    id: 'match_1',
+    presetId: 'ton_0',
+    roomType: 'ton',
+    status: 'finished',
+    players: [{ id: 'p1', name: 'Alice', score: 12 }],
+    allPlayers: [{ id: 'p1', name: 'Alice', score: 12 }],
+    currentRound: 1,
+    roundResults: [
+      {
+        roundNumber: 1,
+        endTime: 8000,
+        players: [{ id: 'p1', name: 'Alice', score: 10, pressTime: 7970, position: 1 }],
+      },
+    ],
+    createdAt: new Date(),
+  };
+}
+
+describe('AchievementService', () => {
+  let service: AchievementService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AchievementService();
+    vi.mocked(prisma.$queryRawUnsafe).mockResolvedValue([{ roomType: 'ton', played: 3, wins: 2 }] as any);
+    vi.mocked(prisma.matchPlayer.findMany).mockResolvedValue([
+      { isWinner: true },
+      { isWinner: true },
+      { isWinner: false },
+    ] as any);
+  });
+
+  it('should persist new unlocks and skip ones the player already has', async () => {
+    vi.mocked(prisma.playerAchievement.findMany).mockResolvedValue([{ achievementId: 'first_match' }] as any);
+    const match = finishedMatch();
+
+    const unlocked = await service.evaluateMatch(match, match.allPlayers!);
+
+    const ids = unlocked.get('p1')!.map((achievement) => achievement.id);
+    expect(ids).toEqual(['first_win', 'perfect_press']);
+    expect(prisma.playerAchievement.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ playerId: 'p1', achievementId: 'first_win', matchId: 'match_1' }),
+        expect.objectContaining({ playerId: 'p1', achievementId: 'perfect_press', matchId: 'match_1' }),
+      ],
+      skipDuplicates: true,
+    });
+  });
+
+  it('should unlock win streaks from recent match history', async () => {
+    vi.mocked(prisma.playerAchievement.findMany).mockResolvedValue([
+      { achievementId: 'first_match' },
+      { achievementId: 'first_win' },
+      { achievementId: 'perfect_press' },
+    ] as any);
+    vi.mocked(prisma.matchPlayer.findMany).mockResolvedValue(Array(5).fill({ isWinner: true }) as any);
+    const match = finishedMatch();
+
+    const unlocked = await service.evaluateMatch(match, match.allPlayers!);
+
+    expect(prisma.matchPlayer.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 5 }));
+    expect(unlocked.get('p1')!.map((achievement) => achievement.id)).toEqual(['win_streak_5']);
+  });
+
+  it('should omit players without new unlocks', async () => {
+    vi.mocked(prisma.playerAchievement.findMany).mockResolvedValue([
+      { achievementId: 'first_match' },
+      { achievementId: 'first_win' },
+      { achievementId: 'perfect_press' },
+    ] as any);
+    const match = finishedMatch();
+
+    const unlocked = await service.evaluateMatch(match, match.allPlayers!);
+
+    expect(unlocked.size).toBe(0);
+    expect(prisma.playerAchievement.createMany).not.toHaveBeenCalled();
+  });
+});
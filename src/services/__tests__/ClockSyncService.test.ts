@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ClockSyncService } from '../ClockSyncService.js';
+
+const SOCKET_ID = 'socket-1';
+
+describe('ClockSyncService', () => {
+  let service: ClockSyncService;
+
+  /**
+   * Simulate one ping/pong exchange
+   * Client clock is ahead of server clock by offset, network delay is symmetric
+   */
+  function sync(sentAt: number, rtt: number, offset: number) {
+    const ping = service.createPing(SOCKET_ID, sentAt);
+    return service.handlePong(SOCKET_ID, ping.id, sentAt + rtt / 2 + offset, sentAt + rtt);
+  }
+
+  beforeEach(() => {
+    service = new ClockSyncService();
+  });
+
+  describe('handlePong', () => {
+    it('should estimate offset and rtt from a ping exchange', () => {
+      const sample = sync(1000, 100, 5000);
+
+      expect(sample).toMatchObject({ offset: 5000, rtt: 100 });
+      expect(service.getEstimate(SOCKET_ID)).toMatchObject({ offset: 5000, rtt: 100, samples: 1 });
+    });
+
+    it('should use the sample with the lowest rtt', () => {
+      sync(1000, 300, 5100);
+      sync(2000, 60, 5000);
+      sync(3000, 200, 4900);
+
+      expect(service.getEstimate(SOCKET_ID)).toMatchObject({ offset: 5000, rtt: 60, samples: 3 });
+    });
+
+    it('should ignore unknown pings', () => {
+      expect(service.handlePong(SOCKET_ID, 42, 1000, 2000)).toBeNull();
+      expect(service.getEstimate(SOCKET_ID)).toBeNull();
+    });
+  });
+
+  describe('resolvePressTime', () => {
+    beforeEach(() => {
+      sync(1000, 100, 5000);
+    });
+
+    it('should place press at client timestamp within rtt bounds', () => {
+      // Pressed at server time 9950, arrived at 10000
+      const press = service.resolvePressTime(SOCKET_ID, 9950 + 5000, 10000, 150);
+
+      expect(press).toEqual({ pressedAt: 9950, compensationMs: 50, compensated: true });
+    });
+
+    it('should reject compensation larger than measured rtt', () => {
+      const press = service.resolvePressTime(SOCKET_ID, 9800 + 5000, 10000, 500);
+
+      expect(press).toMatchObject({ pressedAt: 10000, compensated: false, reason: 'exceeds_rtt_bounds' });
+    });
+
+    it('should cap compensation by room maximum', () => {
+      const press = service.resolvePressTime(SOCKET_ID, 9920 + 5000, 10000, 50);
+
+      expect(press).toMatchObject({ pressedAt: 10000, compensated: false, reason: 'exceeds_rtt_bounds' });
+    });
+
+    it('should reject client timestamps in the future', () => {
+      const press = service.resolvePressTime(SOCKET_ID, 10100 + 5000, 10000, 150);
+
+      expect(press).toMatchObject({ pressedAt: 10000, compensated: false, reason: 'client_time_in_future' });
+    });
+
+    it('should not place press before round start', () => {
+      const press = service.resolvePressTime(SOCKET_ID, 9950 + 5000, 10000, 150, 9980);
+
+      expect(press).toMatchObject({ pressedAt: 10000, compensated: false, reason: 'before_round_start' });
+    });
+
+    it('should use arrival time when compensation is disabled or socket is not synced', () => {
+      expect(service.resolvePressTime(SOCKET_ID, 9950 + 5000, 10000, 0)).toMatchObject({
+        pressedAt: 10000,
+        reason: 'compensation_disabled',
+      });
+      expect(service.resolvePressTime('other-socket', 9950, 10000, 150)).toMatchObject({
+        pressedAt: 10000,
+        reason: 'not_synced',
+      });
+      expect(service.resolvePressTime(SOCKET_ID, undefined, 10000, 150)).toMatchObject({
+        pressedAt: 10000,
+        reason: 'no_client_time',
+      });
+    });
+  });
+});
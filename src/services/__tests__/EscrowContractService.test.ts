@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Address, toNano } from '@ton/core';
+import { prisma } from '../../db/prisma.js';
+import { bodyPayout } from '../escrowOps.js';
+import { EscrowContractService } from '../EscrowContractService.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    escrowOperation: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+// The service reads the escrow address when it is constructed (also for the module singleton)
+vi.hoisted(() => {
+  process.env.TON_ESCROW_ADDRESS = 'EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c';
+});
+
+const WINNER = Address.parse('EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c');
+
+describe('EscrowContractService', () => {
+  let service: EscrowContractService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new EscrowContractService();
+    // Queueing only needs a configured admin wallet
+    (service as any).adminWallet = {};
+  });
+
+  describe('enqueue', () => {
+    it('should return an existing operation without queueing another one', async () => {
+      vi.mocked(prisma.escrowOperation.findUnique).mockResolvedValue({ id: 'op1', status: 'SENT' } as any);
+
+      const id = await service.payout({ roomId: 42n, payouts: [{ to: WINNER, amountNano: toNano('1') }] });
+
+      expect(id).toBe('op1');
+      expect(prisma.escrowOperation.create).not.toHaveBeenCalled();
+      expect(prisma.escrowOperation.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should queue a FAILED operation again with the new body and value', async () => {
+      const stale = bodyPayout({ roomId: 42n, payouts: [{ to: WINNER, amountNano: toNano('1') }] });
+      vi.mocked(prisma.escrowOperation.findUnique).mockResolvedValue({
+        id: 'op1',
+        status: 'FAILED',
+        body: stale.toBoc().toString('base64'),
+        value: '0.05',
+      } as any);
+
+      const payouts = [{ to: WINNER, amountNano: toNano('2') }];
+      const id = await service.payout({ roomId: 42n, payouts });
+
+      expect(id).toBe('op1');
+      expect(prisma.escrowOperation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'op1', status: 'FAILED' },
+        data: expect.objectContaining({
+          status: 'PENDING',
+          body: bodyPayout({ roomId: 42n, payouts }).toBoc().toString('base64'),
+          value: '0.08',
+          attempts: 0,
+        }),
+      });
+    });
+  });
+});
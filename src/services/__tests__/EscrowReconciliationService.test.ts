@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EscrowReconciliationService, ReconciliationValidationError } from '../EscrowReconciliationService.js';
+import { escrowContractService } from '../EscrowContractService.js';
+import { tonBlockchainService } from '../TonBlockchainService.js';
+import { joinIntentService } from '../JoinIntentService.js';
+import { prisma } from '../../db/prisma.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    match: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+    joinIntent: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    depositTx: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../EscrowContractService.js', () => ({
+  escrowContractService: {
+    getRoom: vi.fn(),
+  },
+}));
+
+vi.mock('../EscrowService.js', () => ({
+  escrowService: {
+    getEscrowAddress: vi.fn(() => 'EQ_escrow'),
+    nanotonsToTon: vi.fn((nanotons: string) => Number(nanotons) / 1_000_000_000),
+  },
+}));
+
+vi.mock('../TonBlockchainService.js', () => ({
+  tonBlockchainService: {
+    findRoomDeposits: vi.fn(),
+  },
+}));
+
+vi.mock('../JoinIntentService.js', () => ({
+  joinIntentService: {
+    getIntent: vi.fn(),
+    createRefundForIntent: vi.fn(),
+  },
+}));
+
+const ENTRY = 1_000_000_000n;
+const CREATED_AT = new Date('2026-10-01T12:00:00Z');
+
+function intentRow(id: string, status: string, overrides: Record<string, any> = {}) {
+  return { id, playerId: `player_${id}`, nonce: `nonce_${id}`, stake: 1, status, refund: null, ...overrides };
+}
+
+function deposit(intentId: string) {
+  return { nonce: `nonce_${intentId}`, txHash: `tx_${intentId}`, fromAddress: 'EQ_player', amount: '1050000000', blockTime: 1760000000 };
+}
+
+describe('EscrowReconciliationService', () => {
+  let service: EscrowReconciliationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new EscrowReconciliationService();
+
+    vi.mocked(prisma.match.findUnique).mockResolvedValue({
+      id: 'match_1', roomId: '42', roomType: 'ton', status: 'waiting', entryFee: 1, createdAt: CREATED_AT,
+    } as any);
+    vi.mocked(prisma.depositTx.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.joinIntent.updateMany).mockResolvedValue({ count: 1 } as any);
+  });
+
+  it('should return null for unknown matches and reject non-TON matches', async () => {
+    vi.mocked(prisma.match.findUnique).mockResolvedValueOnce(null);
+    expect(await service.reconcileMatch('missing')).toBeNull();
+
+    vi.mocked(prisma.match.findUnique).mockResolvedValueOnce({ id: 'm', roomType: 'stars' } as any);
+    await expect(service.reconcileMatch('m')).rejects.toThrow(ReconciliationValidationError);
+  });
+
+  it('should count refunds not yet confirmed as deposits held by the contract', async () => {
+    vi.mocked(escrowContractService.getRoom).mockResolvedValue({
+      status: 0, entryNano: ENTRY, minPlayers: 2, maxPlayers: 4, depositedCount: 2, potNano: 2n * ENTRY,
+    });
+    vi.mocked(prisma.joinIntent.findMany).mockResolvedValue([
+      intentRow('a', 'PAID'),
+      intentRow('b', 'REFUNDED', { refund: { status: 'SENT' } }),
+      intentRow('c', 'REFUNDED', { refund: { status: 'CONFIRMED' } }),
+    ] as any);
+
+    const report = await service.reconcileMatch('match_1');
+
+    expect(report!.database).toEqual({ paidIntents: 1, pendingRefunds: 1, entryNano: ENTRY.toString() });
+    expect(report!.contract).toEqual({ status: 'open', depositedCount: 2, potNano: (2n * ENTRY).toString() });
+    expect(report!.discrepancies).toEqual([]);
+  });
+
+  it('should not repair without the repair flag', async () => {
+    vi.mocked(escrowContractService.getRoom).mockResolvedValue({
+      status: 0, entryNano: ENTRY, minPlayers: 2, maxPlayers: 4, depositedCount: 1, potNano: ENTRY,
+    });
+    vi.mocked(prisma.joinIntent.findMany).mockResolvedValue([intentRow('a', 'CREATED')] as any);
+
+    const report = await service.reconcileMatch('match_1');
+
+    expect(report!.discrepancies[0].type).toBe('untracked_deposits');
+    expect(report!.repairs).toEqual([]);
+    expect(tonBlockchainService.findRoomDeposits).not.toHaveBeenCalled();
+  });
+
+  it('should mark missed deposits PAID and refund deposits of expired intents', async () => {
+    vi.mocked(escrowContractService.getRoom).mockResolvedValue({
+      status: 0, entryNano: ENTRY, minPlayers: 2, maxPlayers: 4, depositedCount: 2, potNano: 2n * ENTRY,
+    });
+    vi.mocked(prisma.joinIntent.findMany).mockResolvedValue([
+      intentRow('a', 'CREATED'),
+      intentRow('b', 'CANCELLED'),
+    ] as any);
+    vi.mocked(tonBlockchainService.findRoomDeposits).mockResolvedValue([deposit('a'), deposit('b')]);
+    vi.mocked(joinIntentService.getIntent).mockResolvedValue({ id: 'b', status: 'PAID' } as any);
+    vi.mocked(joinIntentService.createRefundForIntent).mockResolvedValue('refund_b');
+
+    const report = await service.reconcileMatch('match_1', true);
+
+    expect(tonBlockchainService.findRoomDeposits).toHaveBeenCalledWith('EQ_escrow', '42', CREATED_AT);
+    expect(prisma.depositTx.create).toHaveBeenCalledTimes(2);
+    expect(prisma.joinIntent.updateMany).toHaveBeenCalledWith({
+      where: { id: 'a', status: 'CREATED' },
+      data: expect.objectContaining({ status: 'PAID' }),
+    });
+    expect(joinIntentService.createRefundForIntent).toHaveBeenCalledWith({ id: 'b', status: 'PAID' }, 'timeout');
+    expect(report!.repairs).toEqual([
+      { intentId: 'a', playerId: 'player_a', from: 'CREATED', to: 'PAID', txHash: 'tx_a' },
+      { intentId: 'b', playerId: 'player_b', from: 'CANCELLED', to: 'REFUNDED', txHash: 'tx_b', refundId: 'refund_b' },
+    ]);
+  });
+
+  it('should refund deposits that arrived after the match was cancelled', async () => {
+    vi.mocked(prisma.match.findUnique).mockResolvedValue({
+      id: 'match_1', roomId: '42', roomType: 'ton', status: 'cancelled', entryFee: 1, createdAt: CREATED_AT,
+    } as any);
+    vi.mocked(escrowContractService.getRoom).mockResolvedValue({
+      status: 0, entryNano: ENTRY, minPlayers: 2, maxPlayers: 4, depositedCount: 1, potNano: ENTRY,
+    });
+    vi.mocked(prisma.joinIntent.findMany).mockResolvedValue([intentRow('a', 'CANCELLED')] as any);
+    vi.mocked(tonBlockchainService.findRoomDeposits).mockResolvedValue([deposit('a')]);
+    vi.mocked(joinIntentService.getIntent).mockResolvedValue({ id: 'a', status: 'PAID' } as any);
+    vi.mocked(joinIntentService.createRefundForIntent).mockResolvedValue('refund_a');
+
+    const report = await service.reconcileMatch('match_1', true);
+
+    expect(joinIntentService.createRefundForIntent).toHaveBeenCalledWith({ id: 'a', status: 'PAID' }, 'match_cancelled');
+    expect(report!.repairs).toEqual([
+      { intentId: 'a', playerId: 'player_a', from: 'CANCELLED', to: 'REFUNDED', txHash: 'tx_a', refundId: 'refund_a' },
+    ]);
+  });
+
+  it('should always repair recently closed matches', async () => {
+    vi.mocked(prisma.match.findMany).mockResolvedValue([{ id: 'match_1' }] as any);
+    const reconcile = vi.spyOn(service, 'reconcileMatch').mockResolvedValue(null);
+
+    await service.reconcileClosedMatches();
+
+    expect(prisma.match.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ roomType: 'ton', status: { in: ['cancelled', 'finished'] } }),
+    }));
+    expect(reconcile).toHaveBeenCalledWith('match_1', true);
+  });
+});
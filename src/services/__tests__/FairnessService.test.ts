@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FairnessService, RoundCommitmentError } from '../FairnessService.js';
+import { prisma } from '../../db/prisma.js';
+import { verifyRoundReveal } from '../../utils/fairness.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    roundCommitment: {
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+describe('FairnessService', () => {
+  let service: FairnessService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.mocked(prisma.roundCommitment.updateMany).mockResolvedValue({ count: 1 } as any);
+    service = new FairnessService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('commitRound', () => {
+    it('should store the commitment before returning it', async () => {
+      vi.mocked(prisma.roundCommitment.create).mockResolvedValue({} as any);
+
+      const round = await service.commitRound('match1', 1);
+
+      expect(verifyRoundReveal(round)).toBe(true);
+      expect(prisma.roundCommitment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ matchId: 'match1', roundNumber: 1, commitment: round.commitment, seed: round.seed }),
+      });
+      expect(service.revealRound('match1', 1)).toEqual(round);
+    });
+
+    it('should retry a failed write of the commitment', async () => {
+      vi.mocked(prisma.roundCommitment.create)
+        .mockRejectedValueOnce(new Error('connection lost'))
+        .mockResolvedValueOnce({} as any);
+
+      const promise = service.commitRound('match1', 1);
+      await vi.runAllTimersAsync();
+      const round = await promise;
+
+      expect(prisma.roundCommitment.create).toHaveBeenCalledTimes(2);
+      expect(service.revealRound('match1', 1)).toEqual(round);
+    });
+
+    it('should throw and keep no pending round when the commitment cannot be stored', async () => {
+      vi.mocked(prisma.roundCommitment.create).mockRejectedValue(new Error('connection lost'));
+
+      const promise = service.commitRound('match1', 1);
+      const assertion = expect(promise).rejects.toBeInstanceOf(RoundCommitmentError);
+      await vi.runAllTimersAsync();
+      await assertion;
+
+      expect(prisma.roundCommitment.create).toHaveBeenCalledTimes(3);
+      expect(service.revealRound('match1', 1)).toBeUndefined();
+    });
+  });
+});
@@ -1,10 +1,12 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
 // Set env variable before any imports
 process.env.TON_ESCROW_ADDRESS = '0:test_escrow_address_for_testing';
 
 import { joinIntentService } from '../JoinIntentService.js';
 import { walletService } from '../WalletService.js';
+import { escrowContractService } from '../EscrowContractService.js';
+import { matchmaker } from '../Matchmaker.js';
 import { prisma } from '../../db/prisma.js';
 
 // Mock dependencies
@@ -30,12 +32,22 @@ vi.mock('../../db/prisma.js', () => ({
 vi.mock('../WalletService.js', () => ({
   walletService: {
     linkWalletWithoutProof: vi.fn(),
+    getWalletByPlayerId: vi.fn(),
+  },
+}));
+
+vi.mock('../EscrowContractService.js', () => ({
+  escrowContractService: {
+    isAdminWalletReady: vi.fn().mockReturnValue(false),
+    getRoom: vi.fn(),
+    getRoomCreation: vi.fn(),
   },
 }));
 
 describe('JoinIntentService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(escrowContractService.isAdminWalletReady).mockReturnValue(false);
   });
 
   describe('createJoinIntent', () => {
@@ -70,7 +82,7 @@ describe('JoinIntentService', () => {
       const result = await joinIntentService.createJoinIntent(
         'player123',
         'Player',
-        'ton',
+        'ton_0_1',
         '0:abc123',
         'mainnet'
       );
@@ -117,7 +129,7 @@ describe('JoinIntentService', () => {
       // We need to capture the actual nonce that will be generated
       vi.mocked(prisma.joinIntent.create).mockResolvedValue({
         ...mockIntent,
-        onChainRoomId: null,
+        onChainRoomId: '123',
         cancelledAt: null,
         refundedAt: null,
       } as any);
@@ -125,19 +137,51 @@ describe('JoinIntentService', () => {
       const result = await joinIntentService.createJoinIntent(
         'player123',
         'Player',
-        'ton',
+        'ton_0_1',
         '0:abc123',
         'mainnet'
       );
 
       expect(result.intent).toBeDefined();
       expect(result.paymentParams).toBeDefined();
-      // Comment format is "join:{nonce}" where nonce is 64 hex characters
-      expect(result.paymentParams.comment).toMatch(/^join:[0-9a-f]{64}$/);
-      expect(result.paymentParams.amount).toBeDefined();
+      // Comment format is "join:{roomId}:{nonce}" where nonce is 64 hex characters
+      expect(result.paymentParams?.comment).toMatch(/^join:123:[0-9a-f]{64}$/);
+      expect(result.paymentParams?.amount).toBeDefined();
       expect(prisma.joinIntent.create).toHaveBeenCalled();
     });
 
+    it('should issue payment params once the managed room is open', async () => {
+      vi.mocked(walletService.linkWalletWithoutProof).mockResolvedValue({ id: 'wallet1' } as any);
+      vi.mocked(prisma.joinIntent.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.joinIntent.create).mockResolvedValue({
+        id: 'intent1',
+        roomId: 'match1',
+        onChainRoomId: '123',
+        playerId: 'player123',
+        walletId: 'wallet1',
+        roomType: 'ton',
+        stake: 0.1,
+        nonce: 'a'.repeat(64),
+        status: 'CREATED',
+        expiresAt: new Date(),
+        createdAt: new Date(),
+        paidAt: null,
+      } as any);
+      vi.mocked(escrowContractService.isAdminWalletReady).mockReturnValue(true);
+      vi.mocked(escrowContractService.getRoom).mockResolvedValue({ status: 0, depositedCount: 1, maxPlayers: 10 } as any);
+
+      const result = await joinIntentService.createJoinIntent(
+        'player123',
+        'Player',
+        'ton_0_1',
+        '0:abc123',
+        'mainnet'
+      );
+
+      expect(result.room).toMatchObject({ onChainRoomId: '123', status: 'open', depositedCount: 1 });
+      expect(result.paymentParams?.comment).toBe(`join:123:${'a'.repeat(64)}`);
+    });
+
     it('should return existing active intent if one exists', async () => {
       const mockWallet = {
         id: 'wallet1',
@@ -168,7 +212,7 @@ describe('JoinIntentService', () => {
       const result = await joinIntentService.createJoinIntent(
         'player123',
         'Player',
-        'ton',
+        'ton_0_1',
         '0:abc123',
         'mainnet'
       );
@@ -178,6 +222,95 @@ describe('JoinIntentService', () => {
     });
   });
 
+  describe('getEscrowRoom', () => {
+    const intent = {
+      id: 'intent1',
+      roomId: 'match1',
+      onChainRoomId: '123',
+      playerId: 'player123',
+      walletId: 'wallet1',
+      roomType: 'ton' as const,
+      presetId: 'ton_0_1',
+      stake: 0.1,
+      nonce: 'a'.repeat(64),
+      status: 'CREATED' as const,
+      expiresAt: new Date(),
+      createdAt: new Date(),
+      paidAt: null,
+    };
+
+    beforeEach(() => {
+      vi.mocked(escrowContractService.isAdminWalletReady).mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should defer payment params while the room is being created', async () => {
+      vi.mocked(escrowContractService.getRoom).mockResolvedValue(null);
+      vi.mocked(escrowContractService.getRoomCreation).mockResolvedValue({ status: 'SENT' } as any);
+
+      const room = await joinIntentService.getEscrowRoom(intent);
+
+      expect(escrowContractService.getRoomCreation).toHaveBeenCalledWith(123n);
+      expect(room).toMatchObject({ status: 'creating', depositedCount: null });
+      expect(joinIntentService.getPaymentParamsForRoom(intent, room)).toBeNull();
+    });
+
+    it('should queue a failed room creation again', async () => {
+      const match = { id: 'match1' } as any;
+      vi.spyOn(matchmaker, 'getMatch').mockReturnValue(match);
+      const ensureEscrowRoom = vi.spyOn(matchmaker, 'ensureEscrowRoom').mockResolvedValue(undefined);
+      vi.mocked(escrowContractService.getRoom).mockResolvedValue(null);
+      vi.mocked(escrowContractService.getRoomCreation).mockResolvedValue({ status: 'FAILED', lastError: 'Transfer expired' } as any);
+
+      const room = await joinIntentService.getEscrowRoom(intent);
+
+      expect(ensureEscrowRoom).toHaveBeenCalledWith(match);
+      expect(room).toMatchObject({ status: 'creating', error: 'Transfer expired' });
+    });
+
+    it('should report failed room creation of a match no longer open', async () => {
+      vi.spyOn(matchmaker, 'getMatch').mockReturnValue(undefined);
+      vi.mocked(escrowContractService.getRoom).mockResolvedValue(null);
+      vi.mocked(escrowContractService.getRoomCreation).mockResolvedValue({ status: 'FAILED', lastError: 'Transfer expired' } as any);
+
+      const room = await joinIntentService.getEscrowRoom(intent);
+
+      expect(room).toMatchObject({ status: 'failed', error: 'Transfer expired' });
+    });
+
+    it('should report an unknown status when the room cannot be read', async () => {
+      vi.mocked(escrowContractService.getRoom).mockRejectedValue(new Error('Network error'));
+
+      const room = await joinIntentService.getEscrowRoom(intent);
+
+      expect(room).toMatchObject({ status: 'unknown', error: 'Room status unavailable' });
+      expect(joinIntentService.getPaymentParamsForRoom(intent, room)).toBeNull();
+    });
+
+    it('should not issue payment params for paid intents or locked rooms', async () => {
+      vi.mocked(escrowContractService.getRoom).mockResolvedValue({ status: 1, depositedCount: 2, maxPlayers: 2 } as any);
+
+      const room = await joinIntentService.getEscrowRoom(intent);
+
+      expect(room?.status).toBe('locked');
+      expect(joinIntentService.getPaymentParamsForRoom(intent, room)).toBeNull();
+      expect(joinIntentService.getPaymentParamsForRoom({ ...intent, status: 'PAID' }, { ...room!, status: 'open' })).toBeNull();
+    });
+
+    it('should issue payment params directly to the escrow without a managed room', async () => {
+      vi.mocked(escrowContractService.isAdminWalletReady).mockReturnValue(false);
+
+      const room = await joinIntentService.getEscrowRoom(intent);
+
+      expect(room).toBeNull();
+      expect(escrowContractService.getRoom).not.toHaveBeenCalled();
+      expect(joinIntentService.getPaymentParamsForRoom(intent, room)?.comment).toBe(`join:123:${'a'.repeat(64)}`);
+    });
+  });
+
   describe('getPaidIntentForJoin', () => {
     it('should return null if no paid intent found', async () => {
       vi.mocked(prisma.joinIntent.findFirst).mockResolvedValue(null);
@@ -214,7 +347,7 @@ describe('JoinIntentService', () => {
           playerId: 'player123',
           roomType: 'ton',
           status: 'PAID',
-          roomId: null,
+          roomId: 'match1',
         },
         orderBy: {
           paidAt: 'desc',
@@ -334,6 +467,20 @@ describe('JoinIntentService', () => {
     });
   });
 
+  describe('cancelMatchIntents', () => {
+    it('should cancel only unpaid intents of the match', async () => {
+      vi.mocked(prisma.joinIntent.updateMany).mockResolvedValue({ count: 2 } as any);
+
+      const count = await joinIntentService.cancelMatchIntents('match1');
+
+      expect(count).toBe(2);
+      expect(prisma.joinIntent.updateMany).toHaveBeenCalledWith({
+        where: { roomId: 'match1', status: 'CREATED' },
+        data: { status: 'CANCELLED', cancelledAt: expect.any(Date) },
+      });
+    });
+  });
+
   describe('markIntentPaid', () => {
     it('should throw error if intent not found', async () => {
       vi.mocked(prisma.joinIntent.findUnique).mockResolvedValue(null);
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MatchService } from '../MatchService.js';
+import { prisma } from '../../db/prisma.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    match: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+    },
+    matchRound: {
+      upsert: vi.fn(),
+    },
+    roundPress: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+function dbMatch() {
+  return {
+    id: 'match_1',
+    presetId: 'free_0',
+    roomType: 'free',
+    status: 'playing',
+    isPrivate: false,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    startedAt: new Date('2026-01-01T00:00:10Z'),
+    finishedAt: null,
+    players: [
+      { playerId: 'p1', playerName: 'Alice', score: 10, isWinner: false, leftEarly: false },
+      { playerId: 'p2', playerName: 'Bob', score: 9, isWinner: false, leftEarly: false },
+    ],
+    rounds: [
+      {
+        roundNumber: 1,
+        endTime: 8000,
+        scoringStrategy: 'closest',
+        scoringParams: { maxScore: 10, minScore: 1 },
+        results: [
+          { id: 'p1', name: 'Alice', pressTime: 7900, position: 1, score: 10 },
+          { id: 'p2', name: 'Bob', pressTime: 7500, position: 2, score: 9 },
+        ],
+        startedAt: new Date('2026-01-01T00:00:12Z'),
+        endedAt: new Date('2026-01-01T00:00:20Z'),
+      },
+    ],
+    presses: [
+      // Voided attempt of round 1 (before the replayed round started)
+      { roundNumber: 1, playerId: 'p1', pressTime: 3000, compensationMs: 0, accepted: true, receivedAt: new Date('2026-01-01T00:00:11Z') },
+      { roundNumber: 1, playerId: 'p2', pressTime: 7500, compensationMs: 20, accepted: true, receivedAt: new Date('2026-01-01T00:00:19.520Z') },
+      { roundNumber: 1, playerId: 'p1', pressTime: 7900, compensationMs: 0, accepted: true, receivedAt: new Date('2026-01-01T00:00:19.900Z') },
+      { roundNumber: 1, playerId: 'p1', pressTime: 7950, compensationMs: 0, accepted: false, receivedAt: new Date('2026-01-01T00:00:19.950Z') },
+      // Round in progress
+      { roundNumber: 2, playerId: 'p2', pressTime: 1000, compensationMs: 0, accepted: true, receivedAt: new Date('2026-01-01T00:00:24Z') },
+    ],
+  };
+}
+
+describe('MatchService', () => {
+  let service: MatchService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new MatchService();
+  });
+
+  describe('saveRoundResult', () => {
+    it('should upsert round results by match and round number', async () => {
+      await service.saveRoundResult(
+        'match_1',
+        {
+          roundNumber: 1,
+          endTime: 8000,
+          scoring: { strategy: 'closest' },
+          players: [{ id: 'p1', name: 'Alice', score: 10, pressTime: 7900, position: 1 }],
+        },
+        new Date('2026-01-01T00:00:12Z')
+      );
+
+      expect(prisma.matchRound.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { matchId_roundNumber: { matchId: 'match_1', roundNumber: 1 } },
+          create: expect.objectContaining({
+            matchId: 'match_1',
+            roundNumber: 1,
+            results: [{ id: 'p1', name: 'Alice', pressTime: 7900, position: 1, score: 10 }],
+          }),
+        })
+      );
+    });
+  });
+
+  describe('getMatchReplay', () => {
+    it('should return finished rounds with their press events', async () => {
+      vi.mocked(prisma.match.findUnique).mockResolvedValue(dbMatch() as any);
+
+      const replay = await service.getMatchReplay('match_1');
+
+      expect(replay?.rounds).toHaveLength(1);
+      expect(replay?.rounds[0].scoring).toEqual({ strategy: 'closest', params: { maxScore: 10, minScore: 1 } });
+      expect(replay?.rounds[0].presses.map((p) => [p.playerId, p.accepted])).toEqual([
+        ['p2', true],
+        ['p1', true],
+        ['p1', false],
+      ]);
+    });
+
+    it('should not expose presses of the round in progress', async () => {
+      vi.mocked(prisma.match.findUnique).mockResolvedValue(dbMatch() as any);
+
+      const replay = await service.getMatchReplay('match_1');
+      const presses = replay!.rounds.flatMap((round) => round.presses);
+
+      expect(presses.some((p) => p.pressTime === 1000)).toBe(false);
+    });
+
+    it('should return null for unknown match', async () => {
+      vi.mocked(prisma.match.findUnique).mockResolvedValue(null);
+
+      expect(await service.getMatchReplay('unknown')).toBeNull();
+    });
+  });
+
+  describe('getPlayerMatches', () => {
+    it('should page finished matches of the player', async () => {
+      vi.mocked(prisma.match.findMany).mockResolvedValue([{ ...dbMatch(), status: 'finished' }] as any);
+      vi.mocked(prisma.match.count).mockResolvedValue(11);
+
+      const result = await service.getPlayerMatches('p1', 10, 10);
+
+      expect(prisma.match.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'finished', players: { some: { playerId: 'p1' } } },
+          take: 10,
+          skip: 10,
+        })
+      );
+      expect(result.total).toBe(11);
+      expect(result.matches[0].id).toBe('match_1');
+    });
+  });
+});
@@ -0,0 +1,460 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Matchmaker, MatchQueueHandlers, normalizeInviteCode } from '../Matchmaker.js';
+import { roomPresetService } from '../RoomPresetService.js';
+import { escrowContractService } from '../EscrowContractService.js';
+import { prisma } from '../../db/prisma.js';
+import { Player } from '../../types/game';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    match: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../EscrowContractService.js', () => ({
+  escrowContractService: {
+    isAdminWalletReady: vi.fn().mockReturnValue(false),
+    getRoom: vi.fn(),
+    lockRoom: vi.fn(),
+    getOperation: vi.fn(),
+    cancelOperation: vi.fn(),
+  },
+}));
+
+function makePlayer(id: string): Player {
+  return { id, name: `Player ${id}`, score: 0 };
+}
+
+function makeHandlers(overrides: Partial<MatchQueueHandlers> = {}): MatchQueueHandlers {
+  return {
+    queueStatus: vi.fn(),
+    matchCancelled: vi.fn().mockResolvedValue(undefined),
+    matchLocked: vi.fn().mockResolvedValue(undefined),
+    countdownChanged: vi.fn(),
+    countdownExpired: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+describe('Matchmaker', () => {
+  let matchmaker: Matchmaker;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.match.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.match.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.match.delete).mockResolvedValue({} as any);
+    vi.mocked(escrowContractService.isAdminWalletReady).mockReturnValue(false);
+    matchmaker = new Matchmaker();
+  });
+
+  describe('private matches', () => {
+    it('should create private match with invite code', async () => {
+      const match = await matchmaker.createPrivateMatch('free_0', makePlayer('p1'), 2);
+
+      expect(match).toMatchObject({ isPrivate: true, creatorId: 'p1', minPlayers: 2, presetId: 'free_0' });
+      expect(match.inviteCode).toMatch(/^[A-Z2-9]{6}$/);
+    });
+
+    it('should skip invite codes already stored for past matches', async () => {
+      vi.mocked(prisma.match.findUnique).mockResolvedValueOnce({ id: 'match_old' } as any);
+
+      const match = await matchmaker.createPrivateMatch('free_0', makePlayer('p1'));
+
+      const checked = vi.mocked(prisma.match.findUnique).mock.calls.map(([args]: any[]) => args.where.inviteCode);
+      expect(checked).toHaveLength(2);
+      expect(match.inviteCode).toBe(checked[1]);
+    });
+
+    it('should never offer private match to public matchmaking', async () => {
+      const privateMatch = await matchmaker.createPrivateMatch('free_0', makePlayer('p1'));
+      const publicMatch = await matchmaker.findOrCreateMatch('free_0', makePlayer('p2'));
+
+      expect(publicMatch.id).not.toBe(privateMatch.id);
+      expect(privateMatch.players).toHaveLength(1);
+      expect(prisma.match.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ isPrivate: false }) })
+      );
+    });
+
+    it('should join private match by invite code (case-insensitive)', async () => {
+      const privateMatch = await matchmaker.createPrivateMatch('free_0', makePlayer('p1'));
+      const joined = await matchmaker.joinPrivateMatch(privateMatch.inviteCode!.toLowerCase(), makePlayer('p2'));
+
+      expect(joined.id).toBe(privateMatch.id);
+      expect(joined.players.map((p) => p.id)).toEqual(['p1', 'p2']);
+      expect(matchmaker.getMatchByPlayerId('p2')?.id).toBe(privateMatch.id);
+    });
+
+    it('should reject unknown invite code', async () => {
+      await expect(matchmaker.joinPrivateMatch('ZZZZZZ', makePlayer('p2'))).rejects.toThrow('Invite code is invalid');
+    });
+
+    it('should reject invalid minPlayers', async () => {
+      await expect(matchmaker.createPrivateMatch('free_0', makePlayer('p1'), 1)).rejects.toThrow('minPlayers');
+    });
+
+    it('should let only the creator start early once minPlayers joined', async () => {
+      const match = await matchmaker.createPrivateMatch('free_0', makePlayer('p1'), 2);
+
+      expect(matchmaker.canStartEarly(match.id, 'p1')).toMatchObject({ ok: false });
+
+      await matchmaker.joinPrivateMatch(match.inviteCode!, makePlayer('p2'));
+      expect(matchmaker.canStartEarly(match.id, 'p2')).toMatchObject({ ok: false, reason: expect.stringContaining('creator') });
+      expect(matchmaker.canStartEarly(match.id, 'p1')).toEqual({ ok: true });
+
+      const started = await matchmaker.startMatch(match.id, true);
+      expect(started?.status).toBe('playing');
+    });
+
+    it('should hand private match over when creator leaves', async () => {
+      const match = await matchmaker.createPrivateMatch('free_0', makePlayer('p1'));
+      await matchmaker.joinPrivateMatch(match.inviteCode!, makePlayer('p2'));
+
+      await matchmaker.removePlayer('p1');
+
+      expect(matchmaker.getMatch(match.id)?.creatorId).toBe('p2');
+    });
+  });
+
+  describe('queue', () => {
+    afterEach(() => {
+      matchmaker.stopQueue();
+      vi.useRealTimers();
+    });
+
+    it('should report queue position and players needed', async () => {
+      const match = await matchmaker.findOrCreateMatch('free_0', makePlayer('p1'));
+
+      expect(matchmaker.getQueueStatus(match.id, 'p1')).toMatchObject({
+        matchId: match.id,
+        position: 1,
+        players: 1,
+        playersNeeded: 1,
+        estimatedWaitMs: null,
+      });
+    });
+
+    it('should estimate wait from recent join rate', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      await matchmaker.findOrCreateMatch('free_0', makePlayer('p1'));
+      vi.setSystemTime(new Date('2026-01-01T00:00:20Z'));
+      await matchmaker.findOrCreateMatch('free_0', makePlayer('p2'));
+
+      expect(matchmaker.estimateWaitMs('free_0', 3)).toBe(60_000);
+      expect(matchmaker.estimateWaitMs('free_0', 0)).toBe(0);
+    });
+
+    it('should send queue status to connected sockets', async () => {
+      const queueStatus = vi.fn();
+      matchmaker.setQueueHandlers(makeHandlers({ queueStatus }));
+      matchmaker.startQueue(60_000);
+
+      const match = await matchmaker.findOrCreateMatch('free_0', makePlayer('p1'));
+      matchmaker.addSocketToMatch(match.id, 'socket1', 'p1');
+      await matchmaker.checkQueue();
+
+      expect(queueStatus).toHaveBeenCalledWith('socket1', expect.objectContaining({ matchId: match.id, position: 1 }));
+    });
+
+    it('should cancel matches that do not fill in time', async () => {
+      vi.useFakeTimers();
+      const matchCancelled = vi.fn().mockResolvedValue(undefined);
+      matchmaker.setQueueHandlers(makeHandlers({ matchCancelled }));
+      matchmaker.startQueue(60_000);
+
+      const match = await matchmaker.findOrCreateMatch('free_0', makePlayer('p1'));
+      matchmaker.addSocketToMatch(match.id, 'socket1', 'p1');
+
+      vi.advanceTimersByTime(30_000);
+      await matchmaker.checkQueue();
+      expect(matchCancelled).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(30_000);
+      await matchmaker.checkQueue();
+
+      expect(matchCancelled).toHaveBeenCalledWith(expect.objectContaining({ id: match.id, status: 'cancelled' }), ['socket1'], 'timeout');
+      expect(matchmaker.getMatch(match.id)).toBeUndefined();
+      expect(matchmaker.getMatchByPlayerId('p1')).toBeUndefined();
+    });
+  });
+
+  describe('start countdown', () => {
+    let handlers: MatchQueueHandlers;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      const preset = { ...roomPresetService.getPreset('free_0')!, maxPlayers: 4, minPlayers: 2, startCountdownSec: 10 };
+      vi.spyOn(roomPresetService, 'getPreset').mockReturnValue(preset);
+      vi.spyOn(roomPresetService, 'getPresetForMatch').mockReturnValue(preset);
+      handlers = makeHandlers();
+      matchmaker.setQueueHandlers(handlers);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.useRealTimers();
+    });
+
+    it('should start countdown once minPlayers joined and fire when it expires', async () => {
+      const match = await matchmaker.findOrCreateMatch('free_0', makePlayer('p1'));
+      matchmaker.updateCountdown(match.id);
+      expect(match.countdownEndsAt).toBeUndefined();
+
+      await matchmaker.findOrCreateMatch('free_0', makePlayer('p2'));
+      matchmaker.updateCountdown(match.id);
+      expect(match.countdownEndsAt).toBe(Date.now() + 10_000);
+      expect(handlers.countdownChanged).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(10_000);
+      expect(handlers.countdownExpired).toHaveBeenCalledWith(match.id);
+      expect(matchmaker.canStartAfterCountdown(match.id)).toBe(true);
+
+      const started = await matchmaker.startMatch(match.id, true);
+      expect(started?.status).toBe('playing');
+      expect(started?.countdownEndsAt).toBeUndefined();
+    });
+
+    it('should reset countdown when players leave below minPlayers', async () => {
+      const match = await matchmaker.findOrCreateMatch('free_0', makePlayer('p1'));
+      await matchmaker.findOrCreateMatch('free_0', makePlayer('p2'));
+      matchmaker.updateCountdown(match.id);
+
+      await matchmaker.removePlayer('p2');
+
+      expect(match.countdownEndsAt).toBeUndefined();
+      expect(handlers.countdownChanged).toHaveBeenCalledTimes(2);
+
+      vi.advanceTimersByTime(10_000);
+      expect(handlers.countdownExpired).not.toHaveBeenCalled();
+    });
+
+    it('should not run countdown for private matches', async () => {
+      const match = await matchmaker.createPrivateMatch('free_0', makePlayer('p1'), 2);
+      await matchmaker.joinPrivateMatch(match.inviteCode!, makePlayer('p2'));
+      matchmaker.updateCountdown(match.id);
+
+      expect(match.countdownEndsAt).toBeUndefined();
+      expect(handlers.countdownChanged).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconnect', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep disconnected player in the match during grace period', async () => {
+      vi.useFakeTimers();
+      const onExpired = vi.fn();
+      const match = await matchmaker.findOrCreateMatch('free_0', makePlayer('p1'));
+      matchmaker.addSocketToMatch(match.id, 'socket1', 'p1');
+      matchmaker.removeSocketFromMatch(match.id, 'socket1');
+
+      const graceEndsAt = matchmaker.markDisconnected('p1', 30_000, onExpired);
+
+      expect(graceEndsAt).toBe(Date.now() + 30_000);
+      expect(match.players[0]).toMatchObject({ id: 'p1', disconnected: true });
+
+      vi.advanceTimersByTime(30_000);
+      expect(onExpired).toHaveBeenCalled();
+    });
+
+    it('should rebind resumed player to the new socket', async () => {
+      vi.useFakeTimers();
+      const onExpired = vi.fn();
+      const match = await matchmaker.findOrCreateMatch('free_0', makePlayer('p1'));
+      matchmaker.markDisconnected('p1', 30_000, onExpired);
+
+      const resumed = matchmaker.resumePlayer('p1', match.id, 'socket2');
+
+      expect(resumed?.id).toBe(match.id);
+      expect(resumed?.players[0].disconnected).toBeUndefined();
+      expect(matchmaker.getPlayerBySocket('socket2')).toBe('p1');
+      expect(matchmaker.getMatchSockets(match.id)).toEqual(['socket2']);
+
+      vi.advanceTimersByTime(30_000);
+      expect(onExpired).not.toHaveBeenCalled();
+    });
+
+    it('should not resume a player who already left', async () => {
+      const match = await matchmaker.findOrCreateMatch('free_0', makePlayer('p1'));
+      await matchmaker.findOrCreateMatch('free_0', makePlayer('p2'));
+      await matchmaker.removePlayer('p1');
+
+      expect(matchmaker.resumePlayer('p1', match.id, 'socket2')).toBeUndefined();
+    });
+
+    it('should not resume a finished match', async () => {
+      const match = await matchmaker.findOrCreateMatch('free_0', makePlayer('p1'));
+      match.status = 'finished';
+
+      expect(matchmaker.resumePlayer('p1', match.id, 'socket2')).toBeUndefined();
+    });
+
+    it('should not restore finished matches for resumption', async () => {
+      vi.mocked(prisma.match.findUnique).mockResolvedValue({ id: 'match_1768688464413_60rnyirpq', status: 'finished', players: [] } as any);
+
+      expect(await matchmaker.restoreMatchById('match_1768688464413_60rnyirpq', true)).toBeNull();
+      expect(matchmaker.getMatch('match_1768688464413_60rnyirpq')).toBeUndefined();
+    });
+  });
+
+  describe('escrow room lock', () => {
+    async function startTonMatch() {
+      const match = await matchmaker.createPrivateMatch('ton_0_1', makePlayer('p1'));
+      await matchmaker.joinPrivateMatch(match.inviteCode!, makePlayer('p2'));
+      matchmaker.addSocketToMatch(match.id, 'socket1', 'p1');
+      return matchmaker.startMatch(match.id, true);
+    }
+
+    beforeEach(() => {
+      vi.mocked(escrowContractService.isAdminWalletReady).mockReturnValue(true);
+      vi.mocked(escrowContractService.getRoom).mockResolvedValue(null);
+      vi.mocked(escrowContractService.lockRoom).mockResolvedValue('op_lock');
+      vi.mocked(escrowContractService.getOperation).mockResolvedValue({ status: 'SENT' } as any);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should start TON matches in locking state with the lock operation recorded', async () => {
+      const match = await startTonMatch();
+
+      expect(match).toMatchObject({ status: 'locking', lockOperationId: 'op_lock' });
+      expect(escrowContractService.lockRoom).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start playing once the room is locked', async () => {
+      const matchLocked = vi.fn().mockResolvedValue(undefined);
+      matchmaker.setQueueHandlers(makeHandlers({ matchLocked }));
+      const match = await startTonMatch();
+
+      await matchmaker.checkLocks();
+      expect(matchLocked).not.toHaveBeenCalled();
+
+      vi.mocked(escrowContractService.getRoom).mockResolvedValue({ status: 1 } as any);
+      await matchmaker.checkLocks();
+
+      expect(matchLocked).toHaveBeenCalledWith(expect.objectContaining({ id: match!.id, status: 'playing' }));
+      expect(match!.lockedAt).toBeInstanceOf(Date);
+    });
+
+    it('should cancel the match when the lock operation fails', async () => {
+      const matchCancelled = vi.fn().mockResolvedValue(undefined);
+      matchmaker.setQueueHandlers(makeHandlers({ matchCancelled }));
+      const match = await startTonMatch();
+      vi.mocked(escrowContractService.getOperation).mockResolvedValue({ status: 'FAILED', lastError: 'Transfer expired' } as any);
+
+      await matchmaker.checkLocks();
+
+      expect(matchCancelled).toHaveBeenCalledWith(
+        expect.objectContaining({ id: match!.id, status: 'cancelled' }),
+        ['socket1'],
+        'lock_failed'
+      );
+      expect(matchmaker.getMatch(match!.id)).toBeUndefined();
+    });
+
+    it('should withdraw a queued lock and cancel the match when the room is not locked in time', async () => {
+      vi.useFakeTimers();
+      const matchCancelled = vi.fn().mockResolvedValue(undefined);
+      matchmaker.setQueueHandlers(makeHandlers({ matchCancelled }));
+      vi.mocked(escrowContractService.getOperation).mockResolvedValue({ id: 'op_lock', status: 'PENDING' } as any);
+      vi.mocked(escrowContractService.cancelOperation).mockResolvedValue(true);
+      await startTonMatch();
+
+      vi.advanceTimersByTime(301_000);
+      await matchmaker.checkLocks();
+
+      expect(escrowContractService.cancelOperation).toHaveBeenCalledWith('op_lock', 'Room was not locked in time');
+      expect(matchCancelled).toHaveBeenCalledWith(expect.anything(), ['socket1'], 'lock_failed');
+    });
+
+    it('should keep waiting on lock timeout while the lock is SENT', async () => {
+      vi.useFakeTimers();
+      const matchCancelled = vi.fn().mockResolvedValue(undefined);
+      matchmaker.setQueueHandlers(makeHandlers({ matchCancelled }));
+      const match = await startTonMatch();
+
+      vi.advanceTimersByTime(301_000);
+      await matchmaker.checkLocks();
+
+      expect(escrowContractService.cancelOperation).not.toHaveBeenCalled();
+      expect(matchCancelled).not.toHaveBeenCalled();
+      expect(matchmaker.getMatch(match!.id)?.status).toBe('locking');
+
+      // The transfer expired unaccepted
+      vi.mocked(escrowContractService.getOperation).mockResolvedValue({ status: 'FAILED', lastError: 'Transfer expired' } as any);
+      await matchmaker.checkLocks();
+
+      expect(matchCancelled).toHaveBeenCalledWith(expect.anything(), ['socket1'], 'lock_failed');
+    });
+
+    it('should keep waiting when the queued lock is sent before it can be withdrawn', async () => {
+      vi.useFakeTimers();
+      const matchCancelled = vi.fn().mockResolvedValue(undefined);
+      matchmaker.setQueueHandlers(makeHandlers({ matchCancelled }));
+      vi.mocked(escrowContractService.getOperation).mockResolvedValue({ id: 'op_lock', status: 'PENDING' } as any);
+      vi.mocked(escrowContractService.cancelOperation).mockResolvedValue(false);
+      await startTonMatch();
+
+      vi.advanceTimersByTime(301_000);
+      await matchmaker.checkLocks();
+
+      expect(matchCancelled).not.toHaveBeenCalled();
+    });
+
+    it('should keep an emptied locking match until the lock resolves', async () => {
+      const match = await startTonMatch();
+
+      await matchmaker.removePlayer('p1');
+      await matchmaker.removePlayer('p2');
+
+      expect(matchmaker.getMatch(match!.id)?.status).toBe('locking');
+    });
+  });
+
+  describe('tournament matches', () => {
+    afterEach(() => {
+      matchmaker.stopQueue();
+      vi.useRealTimers();
+    });
+
+    it('should seat all stage players in a private match', () => {
+      const match = matchmaker.createTournamentMatch('t1', 2, 'free_0', [makePlayer('p1'), makePlayer('p2')]);
+
+      expect(match).toMatchObject({ isPrivate: true, roomType: 'free', tournamentId: 't1', tournamentStage: 2 });
+      expect(matchmaker.getMatchByPlayerId('p1')?.id).toBe(match.id);
+      expect(matchmaker.getMatchByPlayerId('p2')?.id).toBe(match.id);
+      expect(matchmaker.resumePlayer('p1', match.id, 'socket1')?.id).toBe(match.id);
+    });
+
+    it('should never cancel stage matches on queue timeout', async () => {
+      vi.useFakeTimers();
+      const matchCancelled = vi.fn().mockResolvedValue(undefined);
+      matchmaker.setQueueHandlers(makeHandlers({ matchCancelled }));
+      matchmaker.startQueue(60_000);
+
+      const match = matchmaker.createTournamentMatch('t1', 1, 'free_0', [makePlayer('p1'), makePlayer('p2')]);
+      vi.advanceTimersByTime(120_000);
+      await matchmaker.checkQueue();
+
+      expect(matchCancelled).not.toHaveBeenCalled();
+      expect(matchmaker.getMatch(match.id)?.status).toBe('waiting');
+    });
+  });
+
+  describe('normalizeInviteCode', () => {
+    it('should uppercase and strip separators', () => {
+      expect(normalizeInviteCode(' ab-c d23 ')).toBe('ABCD23');
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PlayerStatsService } from '../PlayerStats.js';
+import { prisma } from '../../db/prisma.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    playerStats: {
+      upsert: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    season: {
+      findFirst: vi.fn(),
+    },
+    seasonPlayerStats: {
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $queryRawUnsafe: vi.fn(),
+    $executeRawUnsafe: vi.fn(),
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('PlayerStatsService', () => {
+  let service: PlayerStatsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new PlayerStatsService();
+  });
+
+  describe('updateStats', () => {
+    it('should add the game to the active season', async () => {
+      vi.mocked(prisma.playerStats.findUnique).mockResolvedValue({ bestScore: 50 } as any);
+      vi.mocked(prisma.season.findFirst).mockResolvedValue({
+        id: 'season_1',
+        name: 'Autumn',
+        startsAt: new Date(Date.now() - DAY),
+        endsAt: new Date(Date.now() + DAY),
+        closedAt: null,
+      } as any);
+
+      await service.updateStats('p1', 'Alice', true, 30);
+
+      const [sql, playerId] = vi.mocked(prisma.$executeRawUnsafe).mock.calls[0] as any[];
+      expect(sql).toContain('SET "winRateScore" =');
+      expect(playerId).toBe('p1');
+      expect(prisma.seasonPlayerStats.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { seasonId_playerId: { seasonId: 'season_1', playerId: 'p1' } },
+        })
+      );
+      expect(prisma.seasonPlayerStats.updateMany).toHaveBeenCalledWith({
+        where: { seasonId: 'season_1', playerId: 'p1', bestScore: { lt: 30 } },
+        data: { bestScore: 30 },
+      });
+    });
+
+    it('should only update lifetime stats without an active season', async () => {
+      vi.mocked(prisma.playerStats.findUnique).mockResolvedValue({ bestScore: 50 } as any);
+      vi.mocked(prisma.season.findFirst).mockResolvedValue(null);
+
+      await service.updateStats('p1', 'Alice', false, 10);
+
+      expect(prisma.playerStats.upsert).toHaveBeenCalled();
+      expect(prisma.seasonPlayerStats.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMatchLeaderboard', () => {
+    it('should filter by room type and rolling window', async () => {
+      vi.mocked(prisma.$queryRawUnsafe).mockResolvedValue([
+        {
+          playerId: 'p1',
+          playerName: 'Alice',
+          totalGames: 4,
+          totalWins: 2,
+          totalScore: 90,
+          bestScore: 30,
+          lastPlayed: new Date(),
+          netStars: 15,
+          netTon: 0,
+        },
+      ] as any);
+
+      const before = Date.now();
+      const leaderboard = await service.getMatchLeaderboard({ type: 'wins', roomType: 'stars', window: 'week', limit: 10 });
+
+      const [sql, since, roomType, minGames, limit] = vi.mocked(prisma.$queryRawUnsafe).mock.calls[0] as any[];
+      expect(sql).toContain('ORDER BY "totalWins" DESC');
+      expect(since.getTime()).toBeGreaterThanOrEqual(before - 7 * DAY);
+      expect(since.getTime()).toBeLessThanOrEqual(Date.now() - 7 * DAY);
+      expect(roomType).toBe('stars');
+      expect(minGames).toBe(1);
+      expect(limit).toBe(10);
+      expect(leaderboard[0].netEarnings).toEqual({ stars: 15, ton: 0 });
+    });
+
+    it('should order earnings by the currency of the room type', async () => {
+      vi.mocked(prisma.$queryRawUnsafe).mockResolvedValue([] as any);
+
+      await service.getMatchLeaderboard({ type: 'earnings', roomType: 'ton', window: 'all', limit: 10 });
+
+      const [sql, since, roomType] = vi.mocked(prisma.$queryRawUnsafe).mock.calls[0] as any[];
+      expect(sql).toContain('ORDER BY "netTon" DESC');
+      expect(since).toEqual(new Date(0));
+      expect(roomType).toBe('ton');
+    });
+
+    it('should require a paid room type for earnings', async () => {
+      await expect(
+        service.getMatchLeaderboard({ type: 'earnings', window: 'day', limit: 10 })
+      ).rejects.toThrow('Earnings leaderboard requires roomType stars or ton');
+      expect(prisma.$queryRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    it('should require at least 3 games for win rate', async () => {
+      vi.mocked(prisma.$queryRawUnsafe).mockResolvedValue([] as any);
+
+      await service.getMatchLeaderboard({ type: 'winrate', window: 'month', limit: 10 });
+
+      const [, , roomType, minGames] = vi.mocked(prisma.$queryRawUnsafe).mock.calls[0] as any[];
+      expect(roomType).toBeNull();
+      expect(minGames).toBe(3);
+    });
+  });
+
+  describe('getLeaderboardByWinRate', () => {
+    function statRow(playerId: string, winRateScore: number) {
+      return { playerId, playerName: playerId, totalGames: 10, totalWins: 6, totalScore: 0, bestScore: 0, rating: 1200, ratedGames: 0, winRateScore };
+    }
+
+    it('should order by Wilson score in the database and return the next cursor', async () => {
+      vi.mocked(prisma.playerStats.findMany).mockResolvedValue([
+        statRow('p3', 0.5),
+        statRow('p2', 0.4),
+        statRow('p1', 0.3),
+      ] as any);
+
+      const page = await service.getLeaderboardByWinRate(2, 'p4');
+
+      expect(prisma.playerStats.findMany).toHaveBeenCalledWith({
+        where: { totalGames: { gte: 3 } },
+        orderBy: [{ winRateScore: 'desc' }, { playerId: 'desc' }],
+        cursor: { playerId: 'p4' },
+        skip: 1,
+        take: 3,
+      });
+      expect(page.leaderboard.map((entry) => entry.playerId)).toEqual(['p3', 'p2']);
+      expect(page.leaderboard[0].winRate).toBe(0.6);
+      expect(page.nextCursor).toBe('p2');
+    });
+
+    it('should return no cursor on the last page', async () => {
+      vi.mocked(prisma.playerStats.findMany).mockResolvedValue([statRow('p1', 0.3)] as any);
+
+      const page = await service.getLeaderboardByWinRate(2);
+
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+
+  describe('getWinRateRank', () => {
+    it('should count players ahead instead of loading the board', async () => {
+      vi.mocked(prisma.playerStats.findUnique).mockResolvedValue({
+        playerId: 'p1', playerName: 'Alice', totalGames: 10, totalWins: 6, winRateScore: 0.31,
+      } as any);
+      vi.mocked(prisma.playerStats.count).mockResolvedValueOnce(50).mockResolvedValueOnce(4);
+
+      const rank = await service.getWinRateRank('p1');
+
+      expect(rank?.rank).toBe(5);
+      expect(rank?.totalRanked).toBe(50);
+      expect(prisma.playerStats.count).toHaveBeenLastCalledWith({
+        where: {
+          totalGames: { gte: 3 },
+          OR: [
+            { winRateScore: { gt: 0.31 } },
+            { winRateScore: 0.31, playerId: { gt: 'p1' } },
+          ],
+        },
+      });
+    });
+
+    it('should not rank players below the minimum games', async () => {
+      vi.mocked(prisma.playerStats.findUnique).mockResolvedValue({
+        playerId: 'p1', playerName: 'Alice', totalGames: 1, totalWins: 1, winRateScore: 0.21,
+      } as any);
+      vi.mocked(prisma.playerStats.count).mockResolvedValue(50);
+
+      const rank = await service.getWinRateRank('p1');
+
+      expect(rank?.rank).toBeNull();
+      expect(rank?.gamesNeeded).toBe(2);
+      expect(prisma.playerStats.count).toHaveBeenCalledTimes(1);
+    });
+  });
+});
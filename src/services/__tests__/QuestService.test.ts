@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { QuestService } from '../QuestService.js';
+import { paymentService } from '../PaymentService.js';
+import { prisma } from '../../db/prisma.js';
+import { Match } from '../../types/game';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    playerQuest: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+    payment: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+function finishedMatch(): Match {
+  return {
+    id: 'match_1',
+    presetId: 'free_0',
+    roomType: 'free',
+    status: 'finished',
+    players: [{ id: 'p1', name: 'Alice', score: 12 }],
+    currentRound: 0,
+    roundResults: [],
+    createdAt: new Date(),
+  };
+}
+
+describe('QuestService', () => {
+  let service: QuestService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new QuestService();
+    vi.spyOn(paymentService, 'grantQuestReward').mockResolvedValue('payment_1');
+  });
+
+  it('should add progress without rewarding below the target', async () => {
+    vi.mocked(prisma.playerQuest.upsert).mockResolvedValue({ id: 'pq_1', progress: 1, completedAt: null } as any);
+    const match = finishedMatch();
+
+    const completed = await service.recordMatch(match, match.players, new Set());
+
+    expect(completed).toEqual([]);
+    expect(prisma.playerQuest.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { progress: { increment: 1 } } })
+    );
+    expect(paymentService.grantQuestReward).not.toHaveBeenCalled();
+  });
+
+  it('should reward a quest once when it reaches the target', async () => {
+    vi.mocked(prisma.playerQuest.upsert).mockImplementation(async ({ where }: any) => ({
+      id: `pq_${where.playerId_questId_periodStart.questId}`,
+      progress: where.playerId_questId_periodStart.questId === 'daily_play_3' ? 3 : 1,
+      completedAt: null,
+    }) as any);
+    vi.mocked(prisma.playerQuest.updateMany).mockResolvedValue({ count: 1 } as any);
+    const match = finishedMatch();
+
+    const completed = await service.recordMatch(match, match.players, new Set());
+
+    expect(completed).toHaveLength(1);
+    expect(completed[0].quest.id).toBe('daily_play_3');
+    expect(completed[0].quest.progress).toBe(3);
+    expect(paymentService.grantQuestReward).toHaveBeenCalledWith('p1', 'Alice', 'pq_daily_play_3', { type: 'bonus', amount: 50 });
+    expect(prisma.playerQuest.update).toHaveBeenCalledWith({
+      where: { id: 'pq_daily_play_3' },
+      data: { rewardPaymentId: 'payment_1' },
+    });
+  });
+
+  it('should not reward a quest claimed by a concurrent update', async () => {
+    vi.mocked(prisma.playerQuest.upsert).mockResolvedValue({ id: 'pq_1', progress: 3, completedAt: null } as any);
+    vi.mocked(prisma.playerQuest.updateMany).mockResolvedValue({ count: 0 } as any);
+    const match = finishedMatch();
+
+    const completed = await service.recordMatch(match, match.players, new Set());
+
+    expect(completed).toEqual([]);
+    expect(paymentService.grantQuestReward).not.toHaveBeenCalled();
+  });
+
+  it('should list quests of the current periods with progress', async () => {
+    const now = new Date('2026-10-18T21:30:00Z');
+    vi.mocked(prisma.playerQuest.findMany).mockResolvedValue([
+      { questId: 'daily_play_3', periodStart: new Date('2026-10-18T00:00:00Z'), progress: 5, completedAt: now },
+    ] as any);
+
+    const quests = await service.getQuests('p1', now);
+
+    const daily = quests.find((quest) => quest.id === 'daily_play_3')!;
+    expect(daily.progress).toBe(3);
+    expect(daily.completedAt).toEqual(now);
+    expect(daily.periodEnd).toEqual(new Date('2026-10-19T00:00:00Z'));
+    expect(quests.find((quest) => quest.id === 'weekly_play_20')!.progress).toBe(0);
+  });
+});
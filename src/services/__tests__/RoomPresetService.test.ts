@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RoomPresetConflictError, RoomPresetService, RoomPresetValidationError } from '../RoomPresetService.js';
+import { DEFAULT_ROOM_PRESETS } from '../../constants/rooms.js';
+import { prisma } from '../../db/prisma.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    roomPreset: {
+      count: vi.fn(),
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    match: {
+      count: vi.fn(),
+    },
+  },
+}));
+
+function dbPreset(id: string, type: string, entryFee: number, enabled: boolean = true) {
+  return {
+    id,
+    type,
+    entryFee: entryFee.toString(), // Prisma Decimal
+    maxPlayers: 10,
+    minPlayers: 2,
+    startCountdownSec: 30,
+    rounds: 3,
+    platformFee: 10,
+    scoringStrategy: 'closest',
+    scoringParams: null,
+    maxPressCompensationMs: 150,
+    enabled,
+    matchmakingMode: 'fifo',
+  };
+}
+
+describe('RoomPresetService', () => {
+  let service: RoomPresetService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new RoomPresetService();
+  });
+
+  describe('load', () => {
+    it('should use default presets before catalogue is loaded', () => {
+      expect(service.getPresets().map((p) => p.id)).toEqual(DEFAULT_ROOM_PRESETS.map((p) => p.id));
+    });
+
+    it('should seed defaults when table is empty', async () => {
+      vi.mocked(prisma.roomPreset.count).mockResolvedValue(0);
+      vi.mocked(prisma.roomPreset.findMany).mockResolvedValue([]);
+
+      await service.load();
+
+      expect(prisma.roomPreset.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([expect.objectContaining({ id: 'ton_0_1', type: 'ton' })]),
+      });
+    });
+
+    it('should load multiple presets per room type', async () => {
+      vi.mocked(prisma.roomPreset.count).mockResolvedValue(3);
+      vi.mocked(prisma.roomPreset.findMany).mockResolvedValue([
+        dbPreset('ton_0_1', 'ton', 0.1),
+        dbPreset('ton_1', 'ton', 1),
+        dbPreset('ton_10', 'ton', 10, false),
+      ] as any);
+
+      await service.load();
+
+      expect(service.getPresets().map((p) => p.id)).toEqual(['ton_0_1', 'ton_1']);
+      expect(service.getPreset('ton_1')).toMatchObject({ entryFee: 1, scoring: { strategy: 'closest' } });
+      expect(service.getPreset('ton_10')?.enabled).toBe(false);
+      expect(service.getDefaultPreset('ton')?.id).toBe('ton_0_1');
+    });
+  });
+
+  describe('getPresetForMatch', () => {
+    it('should fall back to default preset of room type', () => {
+      expect(service.getPresetForMatch({ presetId: null, roomType: 'stars' })?.id).toBe('stars_25');
+      expect(service.getPresetForMatch({ presetId: 'unknown', roomType: 'free' })?.id).toBe('free_0');
+    });
+  });
+
+  describe('createPreset', () => {
+    it('should reject invalid presets', async () => {
+      await expect(
+        service.createPreset({ id: 'free_5', type: 'free', entryFee: 5, maxPlayers: 10 })
+      ).rejects.toThrow('Free rooms must have entryFee 0');
+      await expect(
+        service.createPreset({ id: 'free_5', type: 'free', entryFee: 5, maxPlayers: 10 })
+      ).rejects.toBeInstanceOf(RoomPresetValidationError);
+      await expect(
+        service.createPreset({ id: 'ton_1', type: 'ton', entryFee: 1, maxPlayers: 1 })
+      ).rejects.toThrow('maxPlayers');
+      await expect(
+        service.createPreset({ id: 'ton_1', type: 'ton', entryFee: 1, maxPlayers: 4, minPlayers: 5 })
+      ).rejects.toThrow('minPlayers');
+      await expect(
+        service.createPreset({ id: 'ton_1', type: 'ton', entryFee: 1, maxPlayers: 4, startCountdownSec: -1 })
+      ).rejects.toThrow('startCountdownSec');
+      await expect(
+        service.createPreset({ id: 'Bad Id', type: 'ton', entryFee: 1, maxPlayers: 10 })
+      ).rejects.toThrow('Invalid preset id');
+      await expect(
+        service.createPreset({ id: 'ton_0_1', type: 'ton', entryFee: 1, maxPlayers: 10 })
+      ).rejects.toThrow('already exists');
+
+      expect(prisma.roomPreset.create).not.toHaveBeenCalled();
+    });
+
+    it('should create preset with defaults', async () => {
+      vi.mocked(prisma.roomPreset.count).mockResolvedValue(1);
+      vi.mocked(prisma.roomPreset.findMany).mockResolvedValue([dbPreset('ton_1', 'ton', 1)] as any);
+
+      const preset = await service.createPreset({ id: 'ton_1', type: 'ton', entryFee: 1, maxPlayers: 10 });
+
+      expect(prisma.roomPreset.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ id: 'ton_1', rounds: 3, scoringStrategy: 'closest', enabled: true }),
+      });
+      expect(preset.id).toBe('ton_1');
+    });
+  });
+
+  describe('updatePreset', () => {
+    it('should not allow changing room type', async () => {
+      await expect(service.updatePreset('stars_25', { type: 'ton' })).rejects.toThrow('cannot be changed');
+    });
+
+    it('should return null for unknown preset', async () => {
+      expect(await service.updatePreset('unknown', { rounds: 5 })).toBeNull();
+    });
+
+    it('should not change entry fee, max players or rounds while matches are active', async () => {
+      vi.mocked(prisma.match.count).mockResolvedValue(1);
+
+      await expect(service.updatePreset('ton_0_1', { entryFee: 0.5 })).rejects.toBeInstanceOf(RoomPresetConflictError);
+      expect(prisma.roomPreset.update).not.toHaveBeenCalled();
+    });
+
+    it('should allow other changes while matches are active', async () => {
+      vi.mocked(prisma.match.count).mockResolvedValue(1);
+      vi.mocked(prisma.roomPreset.count).mockResolvedValue(1);
+      vi.mocked(prisma.roomPreset.findMany).mockResolvedValue([]);
+
+      await service.updatePreset('ton_0_1', { startCountdownSec: 10, enabled: false });
+
+      expect(prisma.match.count).not.toHaveBeenCalled();
+      expect(prisma.roomPreset.update).toHaveBeenCalled();
+    });
+  });
+
+  describe('deletePreset', () => {
+    it('should not delete preset with active matches', async () => {
+      vi.mocked(prisma.match.count).mockResolvedValue(2);
+
+      await expect(service.deletePreset('ton_0_1')).rejects.toThrow('Disable it instead');
+      await expect(service.deletePreset('ton_0_1')).rejects.toBeInstanceOf(RoomPresetConflictError);
+      expect(prisma.roomPreset.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete preset without active matches', async () => {
+      vi.mocked(prisma.match.count).mockResolvedValue(0);
+
+      expect(await service.deletePreset('ton_0_1')).toBe(true);
+      expect(service.getPreset('ton_0_1')).toBeUndefined();
+    });
+  });
+});
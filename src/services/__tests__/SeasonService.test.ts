@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SeasonService } from '../SeasonService.js';
+import { prisma } from '../../db/prisma.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    season: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    seasonPlayerStats: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+describe('SeasonService', () => {
+  let service: SeasonService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SeasonService();
+  });
+
+  describe('createSeason', () => {
+    it('should create a season with valid dates', async () => {
+      const startsAt = new Date(Date.now() - HOUR);
+      const endsAt = new Date(Date.now() + HOUR);
+      vi.mocked(prisma.season.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.season.create).mockImplementation(async ({ data }: any) => ({
+        id: 'season_1',
+        closedAt: null,
+        ...data,
+      }));
+
+      const season = await service.createSeason({ name: ' Autumn ', startsAt, endsAt });
+
+      expect(prisma.season.create).toHaveBeenCalledWith({
+        data: { name: 'Autumn', startsAt, endsAt },
+      });
+      expect(season.status).toBe('active');
+    });
+
+    it('should reject a season that overlaps an existing one', async () => {
+      vi.mocked(prisma.season.findFirst).mockResolvedValue({ id: 'season_0', name: 'Summer' } as any);
+
+      await expect(
+        service.createSeason({
+          name: 'Autumn',
+          startsAt: new Date(Date.now() + HOUR),
+          endsAt: new Date(Date.now() + 2 * HOUR),
+        })
+      ).rejects.toThrow('Season overlaps with Summer');
+      expect(prisma.season.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject seasons that end before they start', async () => {
+      await expect(
+        service.createSeason({
+          name: 'Autumn',
+          startsAt: new Date(Date.now() + 2 * HOUR),
+          endsAt: new Date(Date.now() + HOUR),
+        })
+      ).rejects.toThrow('endsAt must be in the future and after startsAt');
+    });
+  });
+
+  describe('getSeason', () => {
+    it('should derive status from dates and closedAt', async () => {
+      const past = { id: 's1', name: 'Old', startsAt: new Date(Date.now() - 2 * HOUR), endsAt: new Date(Date.now() - HOUR) };
+
+      vi.mocked(prisma.season.findUnique).mockResolvedValueOnce({ ...past, closedAt: null } as any);
+      expect((await service.getSeason('s1'))?.status).toBe('ended');
+
+      vi.mocked(prisma.season.findUnique).mockResolvedValueOnce({ ...past, closedAt: new Date() } as any);
+      expect((await service.getSeason('s1'))?.status).toBe('closed');
+    });
+
+    it('should resolve current to the active season', async () => {
+      vi.mocked(prisma.season.findFirst).mockResolvedValue(null);
+
+      expect(await service.getSeason('current')).toBeNull();
+      expect(prisma.season.findFirst).toHaveBeenCalledWith({
+        where: expect.objectContaining({ closedAt: null }),
+      });
+      expect(prisma.season.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeEndedSeasons', () => {
+    it('should archive final ranks with shared ranks for equal stats', async () => {
+      const now = new Date();
+      vi.mocked(prisma.season.findMany).mockResolvedValue([
+        { id: 's1', name: 'Summer', startsAt: new Date(0), endsAt: new Date(now.getTime() - 1000), closedAt: null },
+      ] as any);
+      vi.mocked(prisma.seasonPlayerStats.findMany).mockResolvedValue([
+        { id: 'a', totalWins: 5, bestScore: 30 },
+        { id: 'b', totalWins: 3, bestScore: 25 },
+        { id: 'c', totalWins: 3, bestScore: 25 },
+        { id: 'd', totalWins: 1, bestScore: 40 },
+      ] as any);
+      vi.mocked(prisma.seasonPlayerStats.update).mockImplementation((args: any) => args);
+      vi.mocked(prisma.season.update).mockImplementation((args: any) => args);
+
+      await service.closeEndedSeasons(now);
+
+      const ranks = vi.mocked(prisma.seasonPlayerStats.update).mock.calls.map(([args]: any) => [
+        args.where.id,
+        args.data.finalRank,
+      ]);
+      expect(ranks).toEqual([['a', 1], ['b', 2], ['c', 2], ['d', 4]]);
+      expect(prisma.season.update).toHaveBeenCalledWith({
+        where: { id: 's1' },
+        data: { closedAt: now },
+      });
+      expect(vi.mocked(prisma.$transaction).mock.calls[0][0]).toHaveLength(5);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SpectatorService, spectatorRoom } from '../SpectatorService.js';
+
+function makeIo() {
+  const emit = vi.fn();
+  const to = vi.fn().mockReturnValue({ emit });
+  const socketsLeave = vi.fn();
+  const inRoom = vi.fn().mockReturnValue({ socketsLeave });
+  return { io: { to, in: inRoom } as any, to, emit, inRoom, socketsLeave };
+}
+
+describe('SpectatorService', () => {
+  let service: SpectatorService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    service = new SpectatorService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.SPECTATOR_DELAY_MS;
+  });
+
+  describe('addSpectator', () => {
+    it('should count spectators per match', () => {
+      service.addSpectator('match_1', 's1');
+      service.addSpectator('match_1', 's2');
+      service.addSpectator('match_2', 's3');
+
+      expect(service.getSpectatorCount('match_1')).toBe(2);
+      expect(service.getSpectatorCount('match_2')).toBe(1);
+    });
+
+    it('should move socket to the newly watched match', () => {
+      service.addSpectator('match_1', 's1');
+
+      expect(service.addSpectator('match_2', 's1')).toBe('match_1');
+      expect(service.getSpectatorCount('match_1')).toBe(0);
+      expect(service.getSpectatorCount('match_2')).toBe(1);
+    });
+
+    it('should forget socket on removal', () => {
+      service.addSpectator('match_1', 's1');
+
+      expect(service.removeSpectator('s1')).toBe('match_1');
+      expect(service.removeSpectator('s1')).toBeUndefined();
+      expect(service.getSpectatorCount('match_1')).toBe(0);
+    });
+  });
+
+  describe('broadcast', () => {
+    it('should emit to spectator room after the configured delay', () => {
+      process.env.SPECTATOR_DELAY_MS = '5000';
+      const { io, to, emit } = makeIo();
+      service.addSpectator('match_1', 's1');
+
+      service.broadcast(io, 'match_1', 'round:started', { roundNumber: 1 });
+      vi.advanceTimersByTime(4999);
+      expect(emit).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(to).toHaveBeenCalledWith(spectatorRoom('match_1'));
+      expect(emit).toHaveBeenCalledWith('round:started', { roundNumber: 1 });
+    });
+
+    it('should skip matches without spectators', () => {
+      const { io, to } = makeIo();
+
+      service.broadcast(io, 'match_1', 'round:started', {});
+      vi.runAllTimers();
+
+      expect(to).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('send', () => {
+    it('should send to the spectator after the delay while it still watches the match', () => {
+      const { io, to, emit } = makeIo();
+      service.addSpectator('match_1', 's1');
+      service.addSpectator('match_1', 's2');
+
+      service.send(io, 'match_1', 's1', 'match:spectating', { match: {} });
+      service.send(io, 'match_1', 's2', 'match:spectating', { match: {} });
+      service.removeSpectator('s2');
+      vi.advanceTimersByTime(2999);
+      expect(emit).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(to).toHaveBeenCalledTimes(1);
+      expect(to).toHaveBeenCalledWith('s1');
+      expect(emit).toHaveBeenCalledWith('match:spectating', { match: {} });
+    });
+  });
+
+  describe('clearMatch', () => {
+    it('should forget spectators and remove them from the room after the last delayed event', () => {
+      const { io, emit, inRoom, socketsLeave } = makeIo();
+      service.addSpectator('match_1', 's1');
+
+      service.broadcast(io, 'match_1', 'match:finished', {});
+      service.clearMatch(io, 'match_1');
+
+      expect(service.getSpectatorCount('match_1')).toBe(0);
+      expect(service.removeSpectator('s1')).toBeUndefined();
+      expect(socketsLeave).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(3000);
+      expect(emit).toHaveBeenCalledWith('match:finished', {});
+      expect(inRoom).toHaveBeenCalledWith(spectatorRoom('match_1'));
+      expect(socketsLeave).toHaveBeenCalledWith(spectatorRoom('match_1'));
+    });
+  });
+});
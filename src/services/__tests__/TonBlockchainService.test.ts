@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Address } from '@ton/core';
+import { TonBlockchainService } from '../TonBlockchainService.js';
+import { bodyRefund } from '../escrowOps.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {},
+}));
+
+vi.mock('../JoinIntentService.js', () => ({
+  joinIntentService: {},
+}));
+
+const ESCROW = 'EQ_escrow';
+const NONCE = 'a'.repeat(64);
+const NOW = Math.floor(Date.now() / 1000);
+const PLAYER = 'EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c';
+
+function transaction(index: number, overrides: Record<string, any> = {}) {
+  return {
+    transaction_id: { lt: String(1000 - index), hash: `hash_${index}` },
+    in_msg: { source: 'EQ_player', destination: ESCROW, value: '1000000000', msg_data: { text: 'other' } },
+    utime: NOW - index,
+    ...overrides,
+  };
+}
+
+function page(transactions: any[]) {
+  return { ok: true, json: async () => ({ ok: true, result: transactions }) };
+}
+
+describe('TonBlockchainService', () => {
+  let service: TonBlockchainService;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    service = new TonBlockchainService();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('findRoomDeposits', () => {
+    it('should page back through older transactions until the given time', async () => {
+      const first = Array.from({ length: 100 }, (_, i) => transaction(i));
+      const deposit = transaction(150, {
+        in_msg: { ...transaction(150).in_msg, msg_data: { text: `join:42:${NONCE}` } },
+      });
+      // The next page starts with the transaction it was requested from
+      const second = [first[99], transaction(100), deposit];
+      fetchMock.mockResolvedValueOnce(page(first)).mockResolvedValueOnce(page(second));
+
+      const deposits = await service.findRoomDeposits(ESCROW, '42', new Date((NOW - 1000) * 1000));
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][0]).toContain('lt=901&hash=hash_99');
+      expect(deposits).toEqual([expect.objectContaining({ nonce: NONCE, txHash: 'hash_150' })]);
+    });
+
+    it('should stop paging at transactions older than the given time', async () => {
+      const first = Array.from({ length: 100 }, (_, i) => transaction(i));
+      fetchMock.mockResolvedValueOnce(page(first));
+
+      await service.findRoomDeposits(ESCROW, '42', new Date((NOW - 50) * 1000));
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findRefundTransfers', () => {
+    function refundTransaction(index: number, roomId: bigint) {
+      const body = bodyRefund({ roomId, player: Address.parse(PLAYER) }).toBoc().toString('base64');
+      return transaction(index, {
+        in_msg: { source: 'EQ_admin', destination: ESCROW, value: '50000000', msg_data: { body } },
+        out_msgs: [{ source: ESCROW, destination: PLAYER, value: '1500000000' }],
+      });
+    }
+
+    it('should return transfers made for refund messages of the room and player', async () => {
+      fetchMock.mockResolvedValueOnce(page([
+        refundTransaction(0, 43n),
+        transaction(1, { out_msgs: [{ source: ESCROW, destination: PLAYER, value: '1500000000' }] }),
+        refundTransaction(2, 42n),
+      ]));
+
+      const transfers = await service.findRefundTransfers(ESCROW, {
+        roomId: 42n,
+        player: PLAYER,
+        since: new Date((NOW - 100) * 1000),
+      });
+
+      expect(transfers).toEqual([expect.objectContaining({ txHash: 'hash_2', amount: '1500000000' })]);
+    });
+  });
+});
@@ -0,0 +1,434 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TournamentService, TournamentHandlers } from '../TournamentService.js';
+import { roomPresetService } from '../RoomPresetService.js';
+import { matchmaker } from '../Matchmaker.js';
+import { paymentService } from '../PaymentService.js';
+import { prisma } from '../../db/prisma.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    tournament: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    tournamentEntry: {
+      findUnique: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    match: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+    $transaction: vi.fn(),
+    $queryRaw: vi.fn(),
+  },
+}));
+
+vi.mock('../Matchmaker.js', () => ({
+  matchmaker: {
+    createTournamentMatch: vi.fn((tournamentId: string, stage: number, presetId: string, players: any[]) => ({
+      id: `match_${stage}_${players.map((p) => p.id).join('')}`,
+      tournamentId,
+      tournamentStage: stage,
+      presetId,
+      players,
+    })),
+    getMatch: vi.fn(),
+    restoreMatchById: vi.fn(),
+  },
+}));
+
+vi.mock('../MatchService.js', () => ({
+  matchService: {
+    saveMatch: vi.fn(),
+  },
+}));
+
+vi.mock('../PaymentService.js', () => ({
+  paymentService: {
+    refundTournamentEntries: vi.fn().mockResolvedValue(0),
+    processTournamentCompletion: vi.fn(),
+    getEntryPayment: vi.fn(),
+    verifyEntryPayment: vi.fn(),
+    linkPaymentToTournament: vi.fn(),
+  },
+}));
+
+function dbTournament(fields: Record<string, unknown> = {}) {
+  return {
+    id: 't1',
+    name: 'Weekly Cup',
+    format: 'bracket',
+    currency: 'stars',
+    entryFee: 100,
+    platformFee: 10,
+    prizeTable: [70, 30],
+    presetId: 'free_0',
+    matchSize: 2,
+    advancePerMatch: 1,
+    swissRounds: 3,
+    minPlayers: 2,
+    maxPlayers: 16,
+    status: 'running',
+    currentStage: 1,
+    registrationOpensAt: new Date('2026-01-01T00:00:00Z'),
+    registrationClosesAt: new Date('2026-01-02T00:00:00Z'),
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    startedAt: new Date('2026-01-02T00:00:00Z'),
+    finishedAt: null,
+    ...fields,
+  };
+}
+
+function dbEntry(playerId: string, seed: number, fields: Record<string, unknown> = {}) {
+  return {
+    playerId,
+    playerName: `Player ${playerId}`,
+    seed,
+    status: 'active',
+    points: 0,
+    lastScore: 0,
+    eliminatedStage: null,
+    place: null,
+    prize: null,
+    ...fields,
+  };
+}
+
+function dbStageMatch(id: string, scores: Record<string, number>, fields: Record<string, unknown> = {}) {
+  return {
+    id,
+    status: 'finished',
+    players: Object.entries(scores).map(([playerId, score]) => ({
+      playerId,
+      playerName: `Player ${playerId}`,
+      score,
+      leftEarly: false,
+    })),
+    ...fields,
+  };
+}
+
+function makeHandlers(): TournamentHandlers {
+  return {
+    stageMatchCreated: vi.fn(),
+    startMatch: vi.fn().mockResolvedValue(undefined),
+    tournamentUpdated: vi.fn(),
+  };
+}
+
+describe('TournamentService', () => {
+  let service: TournamentService;
+  let handlers: TournamentHandlers;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Interactive transactions run against the mocked client
+    vi.mocked(prisma.$transaction).mockImplementation(
+      (arg: any) => (typeof arg === 'function' ? arg(prisma) : Promise.resolve([])) as any
+    );
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([] as any);
+    vi.mocked(prisma.tournament.update).mockResolvedValue({} as any);
+    vi.mocked(prisma.tournamentEntry.update).mockResolvedValue({} as any);
+    vi.spyOn(roomPresetService, 'getPreset').mockReturnValue({
+      ...roomPresetService.getPreset('free_0')!,
+      maxPlayers: 4,
+    });
+    service = new TournamentService();
+    handlers = makeHandlers();
+    service.setHandlers(handlers);
+  });
+
+  describe('createTournament', () => {
+    it('should reject a match size above the preset max players', async () => {
+      await expect(
+        service.createTournament({
+          name: 'Cup',
+          format: 'bracket',
+          currency: 'stars',
+          entryFee: 100,
+          presetId: 'free_0',
+          matchSize: 8,
+          maxPlayers: 16,
+          registrationClosesAt: new Date(Date.now() + 60000),
+        })
+      ).rejects.toThrow('matchSize must be between 2 and 4');
+      expect(prisma.tournament.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject TON tournaments', async () => {
+      await expect(
+        service.createTournament({
+          name: 'Cup',
+          format: 'bracket',
+          currency: 'ton',
+          entryFee: 1,
+          presetId: 'free_0',
+          matchSize: 2,
+          maxPlayers: 16,
+          registrationClosesAt: new Date(Date.now() + 60000),
+        })
+      ).rejects.toThrow('Invalid currency. Must be one of: stars');
+      expect(prisma.tournament.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('register', () => {
+    function openRegistration(fields: Record<string, unknown> = {}) {
+      return {
+        status: 'registration',
+        registrationOpensAt: new Date(Date.now() - 60000),
+        registrationClosesAt: new Date(Date.now() + 60000),
+        ...fields,
+      };
+    }
+
+    beforeEach(() => {
+      vi.mocked(prisma.tournament.findUnique).mockResolvedValue(
+        dbTournament({
+          status: 'registration',
+          maxPlayers: 2,
+          registrationOpensAt: new Date(Date.now() - 60000),
+          registrationClosesAt: new Date(Date.now() + 60000),
+        }) as any
+      );
+      vi.mocked(prisma.tournamentEntry.findUnique).mockResolvedValue(null);
+      vi.mocked(paymentService.getEntryPayment).mockResolvedValue({ status: 'pending', currency: 'stars' } as any);
+      vi.mocked(paymentService.verifyEntryPayment).mockResolvedValue(true);
+      vi.mocked(paymentService.linkPaymentToTournament).mockResolvedValue(true);
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([openRegistration()] as any);
+      vi.mocked(prisma.tournamentEntry.create).mockImplementation(
+        async ({ data }: any) => dbEntry(data.playerId, data.seed) as any
+      );
+    });
+
+    it('should lock the tournament and assign the next seed in one transaction', async () => {
+      vi.mocked(prisma.tournamentEntry.count).mockResolvedValue(1);
+
+      const entry = await service.register('t1', 'p2', 'Player p2', 'pay1', 'sig');
+
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(prisma.tournamentEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ tournamentId: 't1', playerId: 'p2', paymentId: 'pay1', seed: 2 }),
+      });
+      expect(entry.seed).toBe(2);
+      // The payment is claimed in the registration transaction
+      expect(paymentService.linkPaymentToTournament).toHaveBeenCalledWith('pay1', 't1', prisma);
+    });
+
+    it('should reject a full tournament inside the transaction', async () => {
+      vi.mocked(prisma.tournamentEntry.count).mockResolvedValue(2);
+
+      await expect(service.register('t1', 'p3', 'Player p3', 'pay1', 'sig')).rejects.toThrow('Tournament is full');
+      expect(prisma.tournamentEntry.create).not.toHaveBeenCalled();
+      expect(paymentService.linkPaymentToTournament).not.toHaveBeenCalled();
+    });
+
+    it('should reject a registration when the tournament closed before the lock was taken', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([openRegistration({ status: 'running' })] as any);
+      vi.mocked(prisma.tournamentEntry.count).mockResolvedValue(0);
+
+      await expect(service.register('t1', 'p1', 'Player p1', 'pay1', 'sig')).rejects.toThrow('Registration is closed');
+      expect(prisma.tournamentEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a registration past the deadline inside the transaction', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        openRegistration({ registrationClosesAt: new Date(Date.now() - 1000) }),
+      ] as any);
+
+      await expect(service.register('t1', 'p1', 'Player p1', 'pay1', 'sig')).rejects.toThrow('Registration is closed');
+      expect(prisma.tournamentEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('should report a concurrent duplicate registration as already registered', async () => {
+      vi.mocked(prisma.tournamentEntry.count).mockResolvedValue(0);
+      vi.mocked(prisma.tournamentEntry.create).mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+      await expect(service.register('t1', 'p1', 'Player p1', 'pay1', 'sig')).rejects.toThrow('Already registered');
+    });
+
+    it('should reject a payment already spent by a concurrent registration', async () => {
+      vi.mocked(prisma.tournamentEntry.count).mockResolvedValue(0);
+      vi.mocked(paymentService.linkPaymentToTournament).mockResolvedValue(false);
+
+      await expect(service.register('t1', 'p1', 'Player p1', 'pay1', 'sig')).rejects.toThrow('Payment verification failed');
+      expect(prisma.tournamentEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPlayerStageMatch', () => {
+    it('should return the current stage match of the player with its check-in end', async () => {
+      const createdAt = new Date();
+      const match = { id: 'm1', tournamentId: 't1', status: 'waiting', createdAt, players: [{ id: 'p1' }, { id: 'p2' }] };
+      vi.mocked(prisma.match.findFirst).mockResolvedValue({ id: 'm1' } as any);
+      vi.mocked(matchmaker.getMatch).mockReturnValue(match as any);
+
+      const current = await service.getPlayerStageMatch('t1', 'p1');
+
+      expect(prisma.match.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tournamentId: 't1', status: { in: ['waiting', 'playing'] }, players: { some: { playerId: 'p1' } } },
+      }));
+      expect(current).toEqual({ match, startsAt: createdAt.getTime() + 60000 });
+    });
+
+    it('should restore a stage match that is not in memory', async () => {
+      const match = { id: 'm1', status: 'playing', createdAt: new Date(), players: [{ id: 'p1' }] };
+      vi.mocked(prisma.match.findFirst).mockResolvedValue({ id: 'm1' } as any);
+      vi.mocked(matchmaker.getMatch).mockReturnValue(undefined);
+      vi.mocked(matchmaker.restoreMatchById).mockResolvedValue(match as any);
+
+      const current = await service.getPlayerStageMatch('t1', 'p1');
+
+      expect(matchmaker.restoreMatchById).toHaveBeenCalledWith('m1', true);
+      expect(current?.match).toBe(match);
+    });
+
+    it('should return null for a player who left the stage match', async () => {
+      vi.mocked(prisma.match.findFirst).mockResolvedValue({ id: 'm1' } as any);
+      vi.mocked(matchmaker.getMatch).mockReturnValue({ id: 'm1', createdAt: new Date(), players: [{ id: 'p2' }] } as any);
+
+      expect(await service.getPlayerStageMatch('t1', 'p1')).toBeNull();
+    });
+  });
+
+  describe('checkTournaments', () => {
+    it('should cancel and refund a tournament with too few players', async () => {
+      const row = { ...dbTournament({ status: 'registration', currentStage: 0 }), entries: [dbEntry('p1', 1)] };
+      vi.mocked(prisma.tournament.findMany).mockResolvedValueOnce([row] as any).mockResolvedValueOnce([]);
+      vi.mocked(prisma.tournament.findUnique).mockResolvedValue(row as any);
+
+      await service.checkTournaments();
+
+      // Entries are read under the same row lock as registrations
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(vi.mocked(prisma.$queryRaw).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(prisma.tournament.findUnique).mock.invocationCallOrder[0]);
+      expect(prisma.tournament.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'cancelled' }) })
+      );
+      expect(paymentService.refundTournamentEntries).toHaveBeenCalledWith(expect.objectContaining({ id: 't1' }));
+      expect(handlers.tournamentUpdated).toHaveBeenCalledWith(expect.objectContaining({ status: 'cancelled' }));
+    });
+
+    it('should start the first stage when registration closes', async () => {
+      const row = {
+        ...dbTournament({ status: 'registration', currentStage: 0 }),
+        entries: [dbEntry('p1', 1), dbEntry('p2', 2), dbEntry('p3', 3)],
+      };
+      vi.mocked(prisma.tournament.findMany).mockResolvedValueOnce([row] as any).mockResolvedValueOnce([]);
+      vi.mocked(prisma.tournament.findUnique).mockResolvedValue(row as any);
+
+      await service.checkTournaments();
+      service.stop();
+
+      // 3 players, 2 per match: one match and a bye for the lowest seed
+      expect(matchmaker.createTournamentMatch).toHaveBeenCalledTimes(1);
+      expect(matchmaker.createTournamentMatch).toHaveBeenCalledWith(
+        't1',
+        1,
+        'free_0',
+        [expect.objectContaining({ id: 'p1' }), expect.objectContaining({ id: 'p2' })]
+      );
+      expect(handlers.stageMatchCreated).toHaveBeenCalledTimes(1);
+      expect(prisma.tournament.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { currentStage: 1 } })
+      );
+    });
+  });
+
+  describe('onMatchFinished', () => {
+    it('should wait until every match of the stage is finished', async () => {
+      vi.mocked(prisma.tournament.findUnique).mockResolvedValue({
+        ...dbTournament(),
+        entries: [dbEntry('p1', 1), dbEntry('p2', 2), dbEntry('p3', 3), dbEntry('p4', 4)],
+      } as any);
+      vi.mocked(prisma.match.findMany).mockResolvedValue([
+        dbStageMatch('m1', { p1: 10, p2: 20 }),
+        dbStageMatch('m2', { p3: 5, p4: 0 }, { status: 'playing' }),
+      ] as any);
+
+      await service.onMatchFinished({ id: 'm1', tournamentId: 't1' } as any);
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(matchmaker.createTournamentMatch).not.toHaveBeenCalled();
+    });
+
+    it('should advance the top players of each bracket match to the next stage', async () => {
+      vi.mocked(prisma.tournament.findUnique).mockResolvedValue({
+        ...dbTournament(),
+        entries: [dbEntry('p1', 1), dbEntry('p2', 2), dbEntry('p3', 3), dbEntry('p4', 4)],
+      } as any);
+      vi.mocked(prisma.match.findMany).mockResolvedValue([
+        dbStageMatch('m1', { p1: 10, p2: 20 }),
+        dbStageMatch('m2', { p3: 5, p4: 5 }),
+      ] as any);
+
+      await service.onMatchFinished({ id: 'm2', tournamentId: 't1' } as any);
+      service.stop();
+
+      // Tie in m2 goes to the higher seed
+      expect(matchmaker.createTournamentMatch).toHaveBeenCalledWith(
+        't1',
+        2,
+        'free_0',
+        [expect.objectContaining({ id: 'p2' }), expect.objectContaining({ id: 'p3' })]
+      );
+      expect(prisma.tournamentEntry.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { tournamentId_playerId: { tournamentId: 't1', playerId: 'p1' } },
+          data: expect.objectContaining({ status: 'eliminated', eliminatedStage: 1 }),
+        })
+      );
+    });
+
+    it('should not treat a stage with a bye as the final', async () => {
+      vi.mocked(prisma.tournament.findUnique).mockResolvedValue({
+        ...dbTournament(),
+        entries: [dbEntry('p1', 1), dbEntry('p2', 2), dbEntry('p3', 3)],
+      } as any);
+      vi.mocked(prisma.match.findMany).mockResolvedValue([dbStageMatch('m1', { p1: 10, p2: 20 })] as any);
+
+      await service.onMatchFinished({ id: 'm1', tournamentId: 't1' } as any);
+      service.stop();
+
+      expect(paymentService.processTournamentCompletion).not.toHaveBeenCalled();
+      expect(matchmaker.createTournamentMatch).toHaveBeenCalledWith(
+        't1',
+        2,
+        'free_0',
+        [expect.objectContaining({ id: 'p2' }), expect.objectContaining({ id: 'p3' })]
+      );
+    });
+
+    it('should pay out the prize pool by placement after the final', async () => {
+      vi.mocked(prisma.tournament.findUnique).mockResolvedValue({
+        ...dbTournament({ currentStage: 2 }),
+        entries: [
+          dbEntry('p1', 1, { status: 'eliminated', eliminatedStage: 1, lastScore: 10 }),
+          dbEntry('p2', 2),
+          dbEntry('p3', 3),
+          dbEntry('p4', 4, { status: 'eliminated', eliminatedStage: 1, lastScore: 5 }),
+        ],
+      } as any);
+      vi.mocked(prisma.match.findMany).mockResolvedValue([dbStageMatch('m3', { p2: 12, p3: 18 })] as any);
+
+      await service.onMatchFinished({ id: 'm3', tournamentId: 't1' } as any);
+
+      // Pool: 4 * 100 - 10% = 360, split 70/30
+      expect(paymentService.processTournamentCompletion).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 't1' }),
+        expect.arrayContaining([
+          { playerId: 'p3', playerName: 'Player p3', amount: 252 },
+          { playerId: 'p2', playerName: 'Player p2', amount: 108 },
+        ])
+      );
+      expect(handlers.tournamentUpdated).toHaveBeenCalledWith(expect.objectContaining({ status: 'finished' }));
+    });
+  });
+});
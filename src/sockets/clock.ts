@@ -0,0 +1,47 @@
+import { Server, Socket } from 'socket.io';
+import { clockSyncService } from '../services/ClockSyncService.js';
+
+const INITIAL_PINGS = 5; // Pings sent right after connection
+const INITIAL_PING_INTERVAL_MS = 500;
+const PING_INTERVAL_MS = 5000; // Periodic re-sync
+
+export function setupClockSyncHandlers(io: Server, socket: Socket) {
+  const sendPing = () => {
+    socket.emit('clock:ping', clockSyncService.createPing(socket.id));
+  };
+
+  // Burst of pings for a quick initial estimate, then periodic re-sync
+  let initialPings = 0;
+  const initialTimer = setInterval(() => {
+    sendPing();
+    initialPings++;
+    if (initialPings >= INITIAL_PINGS) {
+      clearInterval(initialTimer);
+    }
+  }, INITIAL_PING_INTERVAL_MS);
+  const periodicTimer = setInterval(sendPing, PING_INTERVAL_MS);
+
+  /**
+   * Client reply to clock:ping
+   * Data: { id, clientTime } - clientTime is client clock when ping was received
+   */
+  socket.on('clock:pong', (data: { id: number; clientTime: number }) => {
+    try {
+      if (!data || typeof data.id !== 'number' || typeof data.clientTime !== 'number') {
+        return;
+      }
+      const sample = clockSyncService.handlePong(socket.id, data.id, data.clientTime);
+      if (sample && process.env.DEBUG_CLOCK_SYNC === '1') {
+        console.log(`⏱️ Clock sample for socket ${socket.id}: offset ${sample.offset}ms, rtt ${sample.rtt}ms`);
+      }
+    } catch (error) {
+      console.error('Clock sync error:', error);
+    }
+  });
+
+  socket.on('disconnect', () => {
+    clearInterval(initialTimer);
+    clearInterval(periodicTimer);
+    clockSyncService.removeSocket(socket.id);
+  });
+}
@@ -9,12 +9,32 @@ import { escrowContractService } from '../services/EscrowContractService.js';
 import { walletService } from '../services/WalletService.js';
 import { matchIdToRoomId } from '../utils/roomId.js';
 import { Address, toNano, fromNano } from '@ton/core';
-import { ROOM_PRESETS } from '../constants/rooms.js';
+import { roomPresetService } from '../services/RoomPresetService.js';
+import { roundScheduler, ROUND_BREAK_MS } from '../services/RoundScheduler.js';
+import { RoundCommitmentError } from '../services/FairnessService.js';
+import { toPlayerView, toSpectatorView } from '../utils/matchView.js';
+import { spectatorService } from '../services/SpectatorService.js';
+import { clockSyncService } from '../services/ClockSyncService.js';
+import { RatingChange } from '../utils/rating.js';
+import { tournamentService } from '../services/TournamentService.js';
+import { achievementService } from '../services/AchievementService.js';
+import { CompletedQuest, questService } from '../services/QuestService.js';
+
+/**
+ * Wire persisted round scheduler deadlines to game handlers
+ */
+export function setupRoundScheduler(io: Server) {
+  roundScheduler.setHandlers({
+    startRound: (matchId) => startRoundForMatch(io, matchId),
+    endRound: (matchId) => endRoundForMatch(io, matchId),
+    finishMatch: (matchId) => finishMatchForPlayers(io, matchId),
+  });
+}
 
 /**
  * Start a round (called by server when match starts or after previous round)
  */
-export function startRoundForMatch(io: Server, matchId: string) {
+export async function startRoundForMatch(io: Server, matchId: string) {
   const match = matchmaker.getMatch(matchId);
   if (!match) {
     console.warn(`⚠️ Match ${matchId} not found when trying to start round`);
@@ -27,28 +47,40 @@ export function startRoundForMatch(io: Server, matchId: string) {
   }
 
   try {
-    const updatedMatch = gameService.startRound(match);
+    const updatedMatch = await gameService.startRound(match);
     console.log(`✅ Round ${updatedMatch.currentRound} started for match ${matchId}, roundStartTime: ${updatedMatch.roundStartTime}, roundEndTime: ${updatedMatch.roundEndTime}`);
     
     // Notify all players in the match room
     io.to(matchId).emit('round:started', {
-      match: updatedMatch,
+      match: toPlayerView(updatedMatch),
       roundNumber: updatedMatch.currentRound,
       startTime: updatedMatch.roundStartTime,
-      endTime: updatedMatch.roundEndTime, // milliseconds from start
+      commitment: updatedMatch.roundCommitment, // sha256(seed:endTime), seed revealed in round:ended
     });
 
     console.log(`📢 Sent round:started event to all players in match ${matchId}`);
 
-    // Schedule round end
-    if (updatedMatch.roundEndTime) {
-      setTimeout(async () => {
-        await endRoundForMatch(io, matchId);
-      }, updatedMatch.roundEndTime);
-      console.log(`⏰ Scheduled round end in ${updatedMatch.roundEndTime}ms`);
-    }
+    spectatorService.broadcast(io, matchId, 'round:started', {
+      match: toSpectatorView(updatedMatch),
+      roundNumber: updatedMatch.currentRound,
+      startTime: updatedMatch.roundStartTime,
+      commitment: updatedMatch.roundCommitment,
+    });
+
+    // Schedule round end (deadline is persisted with the match)
+    // Wait for compensated presses still in flight before scoring
+    const preset = roomPresetService.getPresetForMatch(updatedMatch);
+    roundScheduler.scheduleRoundEnd(updatedMatch, preset?.maxPressCompensationMs || 0).catch((error) => {
+      console.error(`❌ Failed to schedule round end for match ${matchId}:`, error);
+    });
   } catch (error) {
     console.error('❌ Start round error:', error);
+    // Nothing was published for the round yet - try again after a break
+    if (error instanceof RoundCommitmentError) {
+      await roundScheduler.scheduleRoundStart(matchId, ROUND_BREAK_MS).catch((scheduleError) => {
+        console.error(`❌ Failed to reschedule round start for match ${matchId}:`, scheduleError);
+      });
+    }
   }
 }
 
@@ -64,6 +96,7 @@ export async function endRoundForMatch(io: Server, matchId: string) {
 
   try {
     console.log(`🛑 Ending round ${match.currentRound} for match ${matchId}`);
+    const roundStartedAt = new Date(match.roundStartTime || Date.now());
     console.log(`📊 Players in match:`, match.players.map(p => ({ id: p.id, name: p.name, pressTime: p.pressTime, score: p.score })));
     
     const roundResult = gameService.endRound(match);
@@ -72,141 +105,224 @@ export async function endRoundForMatch(io: Server, matchId: string) {
     
     // Notify all players
     io.to(matchId).emit('round:ended', {
-      match,
+      match: toPlayerView(match),
       roundResult,
+      scoring: roundResult.scoring, // Scoring strategy used for this round
+      reveal: roundResult.fairness, // Seed and endTime matching the round:started commitment
     });
 
     console.log(`📢 Sent round:ended event to all players in match ${matchId}`);
 
-    // If game finished, update player stats, process payments, and emit finished event
-    if (match.status === 'finished' && !match.statsUpdated) {
-      // Use allPlayers if available (includes players who left), otherwise use current players
-      const playersToUpdate = match.allPlayers && match.allPlayers.length > 0 
-        ? match.allPlayers 
-        : match.players;
-      
-      // Determine winners based on final scores (server-side only)
-      const winners = determineWinners(playersToUpdate);
-      const winnerIds = new Set(winners.map((w) => w.id));
-
-      // Update stats for all players who participated (only once)
-      await Promise.all(
-        playersToUpdate.map(async (player) => {
-          const isWinner = winnerIds.has(player.id);
-          await playerStatsService.updateStats(
-            player.id,
-            player.name,
-            isWinner,
-            player.score || 0
-          );
-        })
-      );
+    spectatorService.broadcast(io, matchId, 'round:ended', {
+      match: toSpectatorView(match),
+      roundResult,
+      scoring: roundResult.scoring,
+      reveal: roundResult.fairness,
+    });
 
-      // Process payments for winners (only for paid rooms)
-      if (match.roomType !== 'free') {
-        try {
-          const paymentData = await paymentService.processMatchCompletion(match);
-          console.log(`💰 Payment data created for match ${matchId}:`, paymentData);
-
-          // For TON rooms, send payout to escrow contract
-          if (match.roomType === 'ton' && escrowContractService.isAdminWalletReady()) {
-            try {
-              // Get wallet addresses for winners
-              const winnerWallets = await Promise.all(
-                winners.map(async (winner) => {
-                  const wallet = await walletService.getWalletByPlayerId(winner.id);
-                  if (!wallet) {
-                    console.warn(`⚠️ No wallet found for winner ${winner.id} (${winner.name})`);
-                    return null;
-                  }
-                  return {
-                    playerId: winner.id,
-                    address: Address.parse(wallet.address),
-                    amount: paymentData.payout,
-                  };
-                })
-              );
-
-              // Filter out winners without wallets
-              const validWallets = winnerWallets.filter((w): w is NonNullable<typeof w> => w !== null);
-
-              if (validWallets.length === 0) {
-                console.warn(`⚠️ No valid wallets found for winners in match ${matchId}. Skipping contract payout.`);
-              } else {
-                // Get room state to calculate actual pot
-                const roomId = matchIdToRoomId(match.id);
-                const roomState = await escrowContractService.getRoom(roomId);
-
-                if (roomState) {
-                  // Calculate payout amounts
-                  // Contract takes 10% fee, so potAfterFee = potNano * 0.9
-                  const FEE_BPS = 1000n;
-                  const BPS_DENOM = 10000n;
-                  const feeNano = (roomState.potNano * FEE_BPS) / BPS_DENOM;
-                  const potAfterFee = roomState.potNano - feeNano;
-                  
-                  // Split equally among winners
-                  const payoutPerWinner = potAfterFee / BigInt(validWallets.length);
-                  
-                  // Create payout list
-                  const payouts = validWallets.map((w) => ({
-                    to: w.address,
-                    amountNano: payoutPerWinner,
-                  }));
-
-                  // Send payout to contract
-                  await escrowContractService.payout({
-                    roomId,
-                    payouts,
-                  });
-
-                  console.log(
-                    `✅ Sent payout to escrow contract for match ${matchId}: ${validWallets.length} winners, ${fromNano(payoutPerWinner)} TON each`
-                  );
-                } else {
-                  console.warn(`⚠️ Room ${roomId} not found in contract. Skipping payout.`);
+    // Persist scores and current round so the match can be recovered after restart
+    await matchService.saveRoundProgress(match);
+
+    // Persist round results for replays
+    await matchService.saveRoundResult(matchId, roundResult, roundStartedAt);
+
+    // Count the round towards round quests
+    emitCompletedQuests(io, await questService.recordRound(roundResult));
+
+    if (match.status === 'finished') {
+      await finishMatchForPlayers(io, matchId);
+    } else {
+      // Start next round after a short break
+      await roundScheduler.scheduleRoundStart(matchId, ROUND_BREAK_MS);
+    }
+  } catch (error) {
+    console.error('End round error:', error);
+  }
+}
+
+/**
+ * Notify players about quests they completed
+ */
+function emitCompletedQuests(io: Server, completed: CompletedQuest[]) {
+  for (const { playerId, quest } of completed) {
+    io.to(`player:${playerId}`).emit('quest:completed', { quest });
+  }
+}
+
+/**
+ * Finish a match: update player stats, process payments, and emit finished event
+ */
+export async function finishMatchForPlayers(io: Server, matchId: string) {
+  const match = matchmaker.getMatch(matchId);
+  if (!match) {
+    console.warn(`⚠️ Match ${matchId} not found when trying to finish`);
+    return;
+  }
+
+  if (match.status !== 'finished' || match.statsUpdated) {
+    return;
+  }
+
+  try {
+    // Use allPlayers if available (includes players who left), otherwise use current players
+    const playersToUpdate = match.allPlayers && match.allPlayers.length > 0 
+      ? match.allPlayers 
+      : match.players;
+    
+    // Determine winners based on final scores (server-side only)
+    const winners = determineWinners(playersToUpdate);
+    const winnerIds = new Set(winners.map((w) => w.id));
+
+    // Update stats for all players who participated (only once)
+    await Promise.all(
+      playersToUpdate.map(async (player) => {
+        const isWinner = winnerIds.has(player.id);
+        await playerStatsService.updateStats(
+          player.id,
+          player.name,
+          isWinner,
+          player.score || 0,
+          player.avatar
+        );
+      })
+    );
+
+    // Update skill ratings from final placements (players who left are placed last)
+    let ratingChanges: RatingChange[] = [];
+    try {
+      const stayedIds = new Set(match.players.map((p) => p.id));
+      const leftPlayerIds = new Set(playersToUpdate.filter((p) => !stayedIds.has(p.id)).map((p) => p.id));
+      ratingChanges = await playerStatsService.updateRatings(playersToUpdate, leftPlayerIds);
+    } catch (error) {
+      console.error(`❌ Error updating ratings for match ${matchId}:`, error);
+    }
+
+    // Process payments for winners (only for paid rooms)
+    let payout = 0;
+    if (match.roomType !== 'free') {
+      try {
+        const paymentData = await paymentService.processMatchCompletion(match);
+        payout = paymentData.payout;
+        console.log(`💰 Payment data created for match ${matchId}:`, paymentData);
+
+        // For TON rooms, send payout to escrow contract
+        if (match.roomType === 'ton' && escrowContractService.isAdminWalletReady()) {
+          try {
+            // Get wallet addresses for winners
+            const winnerWallets = await Promise.all(
+              winners.map(async (winner) => {
+                const wallet = await walletService.getWalletByPlayerId(winner.id);
+                if (!wallet) {
+                  console.warn(`⚠️ No wallet found for winner ${winner.id} (${winner.name})`);
+                  return null;
                 }
+                return {
+                  playerId: winner.id,
+                  address: Address.parse(wallet.address),
+                  amount: paymentData.payout,
+                };
+              })
+            );
+
+            // Filter out winners without wallets
+            const validWallets = winnerWallets.filter((w): w is NonNullable<typeof w> => w !== null);
+
+            if (validWallets.length === 0) {
+              console.warn(`⚠️ No valid wallets found for winners in match ${matchId}. Skipping contract payout.`);
+            } else {
+              // Get room state to calculate actual pot
+              const roomId = matchIdToRoomId(match.id);
+              const roomState = await escrowContractService.getRoom(roomId);
+
+              if (roomState) {
+                // Calculate payout amounts
+                // Contract takes 10% fee, so potAfterFee = potNano * 0.9
+                const FEE_BPS = 1000n;
+                const BPS_DENOM = 10000n;
+                const feeNano = (roomState.potNano * FEE_BPS) / BPS_DENOM;
+                const potAfterFee = roomState.potNano - feeNano;
+                
+                // Split equally among winners
+                const payoutPerWinner = potAfterFee / BigInt(validWallets.length);
+                
+                // Create payout list
+                const payouts = validWallets.map((w) => ({
+                  to: w.address,
+                  amountNano: payoutPerWinner,
+                }));
+
+                // Queue payout to contract (sent by the escrow outbox worker, once per room)
+                await escrowContractService.payout({
+                  roomId,
+                  payouts,
+                });
+
+                console.log(
+                  `✅ Queued payout to escrow contract for match ${matchId}: ${validWallets.length} winners, ${fromNano(payoutPerWinner)} TON each`
+                );
+              } else {
+                console.warn(`⚠️ Room ${roomId} not found in contract. Skipping payout.`);
               }
-            } catch (error) {
-              console.error(`❌ Error sending payout to escrow contract for match ${matchId}:`, error);
-              // Don't throw - payment data is already created in DB
             }
+          } catch (error) {
+            console.error(`❌ Error sending payout to escrow contract for match ${matchId}:`, error);
+            // Don't throw - payment data is already created in DB
           }
-        } catch (error) {
-          console.error(`❌ Error processing payments for match ${matchId}:`, error);
         }
+      } catch (error) {
+        console.error(`❌ Error processing payments for match ${matchId}:`, error);
       }
+    }
 
-      // Mark stats as updated to prevent duplicate updates
-      match.statsUpdated = true;
+    // Mark stats as updated to prevent duplicate updates
+    match.statsUpdated = true;
 
-      // Save match to database
-      try {
-        await matchService.finishMatch(match, winners);
-      } catch (error) {
-        console.error('Error saving finished match to database:', error);
-      }
+    // Save match to database
+    try {
+      await matchService.finishMatch(match, winners, payout);
+    } catch (error) {
+      console.error('Error saving finished match to database:', error);
+    }
+
+    // Send match finished event with allPlayers and winners included
+    // This ensures clients use server-determined winners, not client-side calculations
+    io.to(matchId).emit('match:finished', {
+      // Ensure allPlayers is included in the event (includes players who left)
+      match: toPlayerView({ ...match, allPlayers: playersToUpdate }),
+      // Send winners determined on server (authoritative)
+      winners: winners,
+      allPlayers: playersToUpdate,
+      ratingChanges,
+    });
+
+    spectatorService.broadcast(io, matchId, 'match:finished', {
+      match: toSpectatorView({ ...match, allPlayers: playersToUpdate }),
+      winners,
+      allPlayers: playersToUpdate,
+      ratingChanges,
+    });
+    spectatorService.clearMatch(io, matchId);
+
+    // Unlock achievements (after finishMatch, so match history includes this match)
+    const unlocked = await achievementService.evaluateMatch(match, playersToUpdate);
+    for (const [playerId, achievements] of unlocked) {
+      io.to(`player:${playerId}`).emit('achievement:unlocked', { matchId, achievements });
+    }
+
+    // Count the match towards match quests
+    emitCompletedQuests(io, await questService.recordMatch(match, playersToUpdate, winnerIds));
+
+    // Clear persisted round deadlines
+    await roundScheduler.clear(matchId);
 
-      // Send match finished event with allPlayers and winners included
-      // This ensures clients use server-determined winners, not client-side calculations
-      io.to(matchId).emit('match:finished', {
-        match: {
-          ...match,
-          // Ensure allPlayers is included in the event (includes players who left)
-          allPlayers: playersToUpdate,
-        },
-        // Send winners determined on server (authoritative)
-        winners: winners,
-        allPlayers: playersToUpdate,
+    // Advance the tournament once its whole stage is finished
+    if (match.tournamentId) {
+      await tournamentService.onMatchFinished(match).catch((error) => {
+        console.error(`❌ Error advancing tournament ${match.tournamentId} after match ${matchId}:`, error);
       });
-    } else {
-      // Start next round after 3 seconds
-      setTimeout(() => {
-        startRoundForMatch(io, matchId);
-      }, 3000);
     }
   } catch (error) {
-    console.error('End round error:', error);
+    console.error('Finish match error:', error);
   }
 }
 
@@ -214,7 +330,8 @@ export function setupGameHandlers(io: Server, socket: Socket) {
   /**
    * Handle button press in a round
    */
-  socket.on('round:press', () => {
+  socket.on('round:press', (data?: { clientTime?: number }) => {
+    const receivedAt = Date.now();
     console.log(`📥 Received round:press from socket ${socket.id}`);
     try {
       const playerId = matchmaker.getPlayerBySocket(socket.id);
@@ -243,15 +360,38 @@ export function setupGameHandlers(io: Server, socket: Socket) {
         return;
       }
 
-      // Record press
-      const updatedMatch = gameService.recordPress(match, playerId);
-      console.log(`✅ Press recorded for player ${playerId} in match ${match.id}, pressTime: ${updatedMatch.players.find(p => p.id === playerId)?.pressTime}`);
+      // Resolve press time from client timestamp (validated against measured clock offset and RTT)
+      const preset = roomPresetService.getPresetForMatch(match);
+      const press = clockSyncService.resolvePressTime(
+        socket.id,
+        data?.clientTime,
+        receivedAt,
+        preset?.maxPressCompensationMs || 0,
+        match.roundStartTime
+      );
+
+      // Record press (only the first press of a player in a round counts)
+      const alreadyPressed = match.players.find((p) => p.id === playerId)?.pressTime !== undefined;
+      const updatedMatch = gameService.recordPress(match, playerId, press.pressedAt);
+
+      // Persist every press event for replays
+      matchService.saveRoundPress({
+        matchId: match.id,
+        roundNumber: match.currentRound,
+        playerId,
+        pressTime: Math.max(1, press.pressedAt - (match.roundStartTime || press.pressedAt)),
+        compensationMs: press.compensationMs,
+        accepted: !alreadyPressed,
+        receivedAt: new Date(receivedAt),
+      });
+      console.log(`✅ Press recorded for player ${playerId} in match ${match.id}, pressTime: ${updatedMatch.players.find(p => p.id === playerId)?.pressTime}, compensation: ${press.compensationMs}ms${press.reason ? ` (${press.reason})` : ''}`);
       
       // Only notify the player who pressed (for optimistic UI update)
       // Other players should NOT know who pressed - this is private information
       socket.emit('round:playerPressed', {
-        match: updatedMatch,
+        match: toPlayerView(updatedMatch, playerId),
         playerId,
+        compensationMs: press.compensationMs,
       });
 
       console.log(`✅ Notified player ${playerId} about their own press (private)`);
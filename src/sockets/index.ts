@@ -1,8 +1,20 @@
 import { Server, Socket } from 'socket.io';
-import { setupMatchmakingHandlers } from './matchmaking.js';
-import { setupGameHandlers } from './game.js';
+import { setupMatchmakingHandlers, setupMatchQueue } from './matchmaking.js';
+import { setupGameHandlers, setupRoundScheduler } from './game.js';
+import { setupClockSyncHandlers } from './clock.js';
+import { setupSpectatorHandlers } from './spectate.js';
+import { setupTournamentHandlers, setupTournaments } from './tournament.js';
 
 export function setupSocketHandlers(io: Server) {
+  // Round deadlines fire game handlers for this server
+  setupRoundScheduler(io);
+
+  // Queue status updates and cancellation of matches that do not fill
+  setupMatchQueue(io);
+
+  // Tournament stage matches and standings updates
+  setupTournaments(io);
+
   io.on('connection', (socket: Socket) => {
     console.log('Client connected:', socket.id);
 
@@ -11,6 +23,15 @@ export function setupSocketHandlers(io: Server) {
 
     // Setup game handlers
     setupGameHandlers(io, socket);
+
+    // Setup clock sync (used for latency-compensated presses)
+    setupClockSyncHandlers(io, socket);
+
+    // Setup spectator handlers (watching live matches)
+    setupSpectatorHandlers(io, socket);
+
+    // Setup tournament handlers (following tournaments)
+    setupTournamentHandlers(io, socket);
   });
 }
 
@@ -4,17 +4,260 @@ import { paymentService } from '../services/PaymentService.js';
 import { matchService } from '../services/MatchService.js';
 import { joinIntentService } from '../services/JoinIntentService.js';
 import { prisma } from '../db/prisma.js';
-import { Player, RoomType } from '../types/game';
-import { parseTelegramUser, validateTelegramData } from '../utils/telegram.js';
-import { ROOM_PRESETS } from '../constants/rooms.js';
+import { Match, Player, RoomType } from '../types/game';
+import { parseTelegramUser, validateTelegramData, buildInviteLink } from '../utils/telegram.js';
+import { roomPresetService } from '../services/RoomPresetService.js';
+import { roundScheduler, FIRST_ROUND_DELAY_MS } from '../services/RoundScheduler.js';
+import { toPlayerView, toSpectatorView } from '../utils/matchView.js';
+import { createSessionToken, verifySessionToken } from '../utils/session.js';
+import { refundWorker } from '../workers/refundWorker.js';
+import { spectatorService } from '../services/SpectatorService.js';
+
+const DEFAULT_RECONNECT_GRACE_SEC = 30;
 
 interface JoinRoomData {
-  roomType: RoomType;
+  presetId?: string; // Room preset to join
+  roomType?: RoomType; // Legacy clients: default preset of this type is used
   initData?: string; // Telegram WebApp initData
   userId?: string; // Fallback for development
   userName?: string; // Fallback for development
   paymentId?: string; // Payment ID for paid rooms
   paymentSignature?: string; // Payment signature for verification
+  inviteCode?: string; // Join a private match by invite code
+}
+
+interface CreatePrivateMatchData extends JoinRoomData {
+  minPlayers?: number; // Players required before the creator can start early (default 2)
+}
+
+/**
+ * Identify player from Telegram initData (or development fallback)
+ * Emits error to the socket and returns null if initData is invalid
+ */
+export function identifyPlayer(
+  socket: Socket,
+  data: Pick<JoinRoomData, 'initData' | 'userId' | 'userName'>
+): { playerId: string; playerName: string; avatar?: string } | null {
+  const { initData, userId, userName } = data;
+
+  if (initData) {
+    // Validate Telegram initData if bot token is configured
+    const botToken = process.env.TELEGRAM_BOT_TOKEN;
+    if (botToken) {
+      const isValid = validateTelegramData(initData, botToken);
+      if (!isValid) {
+        socket.emit('error', { message: 'Invalid Telegram data signature' });
+        return null;
+      }
+    }
+
+    const telegramUser = parseTelegramUser(initData);
+    if (!telegramUser) {
+      socket.emit('error', { message: 'Invalid Telegram data' });
+      return null;
+    }
+    return {
+      playerId: telegramUser.id.toString(),
+      playerName: telegramUser.first_name || 'Player',
+      // Only Telegram-hosted https avatars are shown to other players
+      avatar: telegramUser.photo_url?.startsWith('https://') ? telegramUser.photo_url : undefined,
+    };
+  }
+
+  // Development fallback
+  return {
+    playerId: userId || socket.id,
+    playerName: userName || 'Player',
+  };
+}
+
+/**
+ * Verify Telegram Stars entry payment for the room entry fee
+ * Emits error to the socket and returns false if payment is missing or invalid
+ */
+async function verifyStarsEntry(socket: Socket, playerId: string, data: JoinRoomData, entryFee: number): Promise<boolean> {
+  const { paymentId, paymentSignature } = data;
+  if (!paymentId || !paymentSignature) {
+    socket.emit('error', { message: 'Payment required for paid rooms' });
+    return false;
+  }
+
+  const paymentVerified = await paymentService.verifyEntryPayment(
+    paymentId,
+    playerId,
+    paymentSignature,
+    entryFee
+  );
+
+  if (!paymentVerified) {
+    socket.emit('error', { message: 'Payment verification failed' });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Reconnect grace period (RECONNECT_GRACE_SEC, 0 removes players immediately on disconnect)
+ */
+function getReconnectGraceMs(): number {
+  const seconds = parseInt(process.env.RECONNECT_GRACE_SEC || '', 10);
+  return (Number.isNaN(seconds) ? DEFAULT_RECONNECT_GRACE_SEC : Math.max(0, seconds)) * 1000;
+}
+
+/**
+ * Remove a player who disconnected and did not resume in time
+ * Waiting TON matches refund the deposit
+ */
+async function removeDisconnectedPlayer(io: Server, playerId: string, matchId: string): Promise<void> {
+  const match = matchmaker.getMatch(matchId);
+  if (!match || !match.players.some((p) => p.id === playerId)) {
+    return;
+  }
+
+  // Create refund for TON rooms if match hasn't started yet
+  if (match.roomType === 'ton' && match.status === 'waiting') {
+    try {
+      const refundId = await joinIntentService.createRefundForPlayer(playerId, match.id, 'player_left');
+      if (refundId) {
+        console.log(`💰 Refund ${refundId} created for player ${playerId} disconnecting from TON match ${match.id}`);
+        refundWorker.wake();
+      }
+    } catch (error) {
+      console.error(`❌ Failed to create refund for disconnected player ${playerId}:`, error);
+      // Don't block disconnect - refund can be handled later
+    }
+  }
+
+  // Remove player from match
+  await matchmaker.removePlayer(playerId).catch(err => console.error('Error removing player:', err));
+
+  // Notify other players
+  const updatedMatch = matchmaker.getMatch(match.id);
+  if (updatedMatch) {
+    io.to(match.id).emit('match:playerLeft', {
+      match: toPlayerView(updatedMatch),
+      playerId,
+    });
+  }
+
+  console.log(`Player ${playerId} disconnected from match ${match.id}`);
+}
+
+/**
+ * match:countdown payload (endsAt is null when the countdown was reset)
+ */
+function countdownPayload(match: Match) {
+  const preset = roomPresetService.getPresetForMatch(match);
+  return {
+    matchId: match.id,
+    endsAt: match.countdownEndsAt ?? null,
+    players: match.players.length,
+    minPlayers: match.minPlayers ?? preset?.minPlayers,
+    maxPlayers: preset?.maxPlayers,
+  };
+}
+
+/**
+ * Notify players that a started match is playing and schedule the first round
+ * TON matches still locking their escrow room get match:locking instead (match:started follows the lock)
+ */
+async function announceStart(io: Server, match: Match): Promise<void> {
+  if (match.status === 'locking') {
+    io.to(match.id).emit('match:locking', { match: toPlayerView(match) });
+    return;
+  }
+
+  io.to(match.id).emit('match:started', { match: toPlayerView(match) });
+
+  // Start first round after a short delay (deadline is persisted)
+  await roundScheduler.scheduleRoundStart(match.id, FIRST_ROUND_DELAY_MS);
+}
+
+/**
+ * Start a waiting match: persist it, notify players and schedule the first round
+ * @param early - start before the match is full (creator start or countdown)
+ */
+export async function beginMatch(io: Server, matchId: string, early: boolean): Promise<Match | undefined> {
+  const startedMatch = await matchmaker.startMatch(matchId, early);
+  if (!startedMatch) {
+    return undefined;
+  }
+
+  try {
+    await matchService.saveMatch(startedMatch);
+  } catch (error) {
+    console.error('Failed to save started match to database:', error);
+  }
+
+  await announceStart(io, startedMatch);
+
+  return startedMatch;
+}
+
+/**
+ * Wire matchmaking queue events (status updates, cancelled matches, start countdown) to sockets
+ */
+export function setupMatchQueue(io: Server) {
+  matchmaker.setQueueHandlers({
+    queueStatus: (socketId, status) => {
+      io.to(socketId).emit('match:queueStatus', status);
+    },
+    matchCancelled: async (match, socketIds, reason) => {
+      // Refund TON deposits of everyone who joined (players who left a waiting match are already refunded)
+      if (match.roomType === 'ton') {
+        // Unpaid intents first, so a deposit marked PAID meanwhile is refunded below
+        try {
+          await joinIntentService.cancelMatchIntents(match.id);
+        } catch (error) {
+          console.error(`❌ Failed to cancel unpaid intents of cancelled match ${match.id}:`, error);
+        }
+
+        for (const player of match.allPlayers ?? match.players) {
+          try {
+            const refundId = await joinIntentService.createRefundForPlayer(player.id, match.id, 'match_cancelled');
+            if (refundId) {
+              console.log(`💰 Refund ${refundId} created for player ${player.id} (match ${match.id} cancelled)`);
+            }
+          } catch (error) {
+            console.error(`❌ Failed to create refund for player ${player.id} in cancelled match ${match.id}:`, error);
+          }
+        }
+        refundWorker.wake();
+      }
+
+      await matchService.cancelMatch(match);
+
+      io.to(match.id).emit('match:cancelled', { matchId: match.id, reason });
+      for (const socketId of socketIds) {
+        io.sockets.sockets.get(socketId)?.leave(match.id);
+      }
+      spectatorService.broadcast(io, match.id, 'match:cancelled', { matchId: match.id, reason });
+      spectatorService.clearMatch(io, match.id);
+    },
+    matchLocked: async (match) => {
+      try {
+        await matchService.saveMatch(match);
+      } catch (error) {
+        console.error('Failed to save locked match to database:', error);
+      }
+
+      await announceStart(io, match);
+    },
+    countdownChanged: (match) => {
+      io.to(match.id).emit('match:countdown', countdownPayload(match));
+    },
+    countdownExpired: async (matchId) => {
+      if (!matchmaker.canStartAfterCountdown(matchId)) {
+        return;
+      }
+
+      const startedMatch = await beginMatch(io, matchId, true);
+      if (startedMatch) {
+        console.log(`⏱️ Match ${matchId} started after countdown (${startedMatch.players.length} players)`);
+      }
+    },
+  });
 }
 
 export function setupMatchmakingHandlers(io: Server, socket: Socket) {
@@ -69,40 +312,45 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
    */
   socket.on('match:join', async (data: JoinRoomData) => {
     try {
-      const { roomType, initData, userId, userName, paymentId, paymentSignature } = data;
-
-      // Parse user from Telegram or use fallback
-      let playerId: string;
-      let playerName: string;
-
-      if (initData) {
-        // Validate Telegram initData if bot token is configured
-        const botToken = process.env.TELEGRAM_BOT_TOKEN;
-        if (botToken) {
-          const isValid = validateTelegramData(initData, botToken);
-          if (!isValid) {
-            socket.emit('error', { message: 'Invalid Telegram data signature' });
-            return;
-          }
-        }
-
-        const telegramUser = parseTelegramUser(initData);
-        if (!telegramUser) {
-          socket.emit('error', { message: 'Invalid Telegram data' });
+      const { presetId, inviteCode, paymentId } = data;
+
+      // Resolve room preset (private matches use the preset they were created from,
+      // legacy clients only send roomType)
+      let preset;
+      if (inviteCode) {
+        const privateMatch = await matchmaker.findPrivateMatch(inviteCode);
+        if (!privateMatch) {
+          socket.emit('error', { message: 'Invite code is invalid or expired' });
           return;
         }
-        playerId = telegramUser.id.toString();
-        playerName = telegramUser.first_name || 'Player';
+        preset = roomPresetService.getPresetForMatch(privateMatch);
       } else {
-        // Development fallback
-        playerId = userId || socket.id;
-        playerName = userName || 'Player';
+        preset = presetId
+          ? roomPresetService.getPreset(presetId)
+          : data.roomType
+            ? roomPresetService.getDefaultPreset(data.roomType)
+            : undefined;
+        if (preset && !preset.enabled) {
+          preset = undefined;
+        }
       }
+      if (!preset) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+      const roomType = preset.type;
+
+      // Parse user from Telegram or use fallback
+      const identity = identifyPlayer(socket, data);
+      if (!identity) {
+        return;
+      }
+      const { playerId, playerName, avatar } = identity;
 
       // Check if player is already in a match
       const existingMatch = matchmaker.getMatchByPlayerId(playerId);
       if (existingMatch) {
-        socket.emit('match:alreadyJoined', { match: existingMatch });
+        socket.emit('match:alreadyJoined', { match: toPlayerView(existingMatch, playerId) });
         return;
       }
 
@@ -145,20 +393,7 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
           console.log(`✅ Verified paid JoinIntent ${paidIntent.id} for player ${playerId}, matchId: ${matchIdFromIntent}`);
         } else if (roomType === 'stars') {
           // For Stars rooms, verify Telegram payment
-          if (!paymentId || !paymentSignature) {
-            socket.emit('error', { message: 'Payment required for paid rooms' });
-            return;
-          }
-
-          // Verify payment
-          const paymentVerified = await paymentService.verifyEntryPayment(
-            paymentId,
-            playerId,
-            paymentSignature
-          );
-
-          if (!paymentVerified) {
-            socket.emit('error', { message: 'Payment verification failed' });
+          if (!(await verifyStarsEntry(socket, playerId, data, preset.entryFee))) {
             return;
           }
         }
@@ -168,6 +403,7 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
       const player: Player = {
         id: playerId,
         name: playerName,
+        avatar,
         score: 0,
       };
 
@@ -207,9 +443,18 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
         // Ensure match is in matchmaker's activeMatches
         // Use matchmaker's methods to register
         matchmaker.addSocketToMatch(match.id, socket.id, playerId);
+      } else if (inviteCode) {
+        // Private free/Stars match by invite code
+        try {
+          match = await matchmaker.joinPrivateMatch(inviteCode, player);
+        } catch (error) {
+          socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to join private match' });
+          return;
+        }
+        matchmaker.addSocketToMatch(match.id, socket.id, playerId);
       } else {
         // For free/Stars rooms, create or find match normally
-        match = await matchmaker.findOrCreateMatch(roomType, player);
+        match = await matchmaker.findOrCreateMatch(preset.id, player);
         matchmaker.addSocketToMatch(match.id, socket.id, playerId);
       }
       matchmaker.addSocketToMatch(match.id, socket.id, playerId);
@@ -250,7 +495,7 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
           matchToNotify = startedMatch;
           matchJustStarted = true;
           
-          // Save match with 'playing' status to database
+          // Save match with 'playing' (or 'locking') status to database
           try {
             await matchService.saveMatch(startedMatch);
             console.log(`✅ Saved match ${startedMatch.id} to database with status: ${startedMatch.status}`);
@@ -261,37 +506,47 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
       }
 
       // Notify player with current match state (may be already started)
+      // The session token lets the player resume the match after a reconnect (match:resume)
       socket.emit('match:joined', {
-        match: matchToNotify,
+        match: toPlayerView(matchToNotify, playerId),
         playerId,
+        sessionToken: createSessionToken(playerId, match.id),
       });
 
       // Notify other players in the match with updated state
       socket.to(match.id).emit('match:playerJoined', {
-        match: matchToNotify,
+        match: toPlayerView(matchToNotify),
         newPlayer: player,
       });
 
+      // Waiting players get their queue position right away (then periodically)
+      if (matchToNotify.status === 'waiting') {
+        // Start the countdown once minPlayers have joined (a new countdown is broadcast
+        // to the whole match, a running one is only sent to the joining player)
+        const countdownRunning = !!matchToNotify.countdownEndsAt;
+        matchmaker.updateCountdown(match.id);
+        if (countdownRunning && matchToNotify.countdownEndsAt) {
+          socket.emit('match:countdown', countdownPayload(matchToNotify));
+        }
+
+        const queueStatus = matchmaker.getQueueStatus(match.id, playerId);
+        if (queueStatus) {
+          socket.emit('match:queueStatus', queueStatus);
+        }
+      }
+
       // If match just started, notify all players and start round
       if (matchJustStarted) {
-        // Match just started, notify all players
-        io.to(match.id).emit('match:started', { match: matchToNotify });
-        
-        // Start first round after 2 seconds
-        setTimeout(() => {
-          import('./game.js').then(({ startRoundForMatch }) => {
-            startRoundForMatch(io, match.id);
-          });
-        }, 2000);
+        await announceStart(io, matchToNotify);
       } else if (matchToNotify.status === 'playing') {
         // Match is already playing, check if round has started
         if (matchToNotify.roundStartTime) {
           // Round is already in progress, send round:started to new player
           socket.emit('round:started', {
-            match: matchToNotify,
+            match: toPlayerView(matchToNotify, playerId),
             roundNumber: matchToNotify.currentRound,
             startTime: matchToNotify.roundStartTime,
-            endTime: matchToNotify.roundEndTime,
+            commitment: matchToNotify.roundCommitment,
           });
           console.log(`Sent round:started to new player ${playerId} for ongoing round ${matchToNotify.currentRound}`);
         } else {
@@ -307,6 +562,127 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
     }
   });
 
+  /**
+   * Create a private match joinable only by invite code
+   * Private TON matches are created via join intent ({ private: true }), then joined with match:join
+   */
+  socket.on('match:createPrivate', async (data: CreatePrivateMatchData) => {
+    try {
+      const preset = data.presetId
+        ? roomPresetService.getPreset(data.presetId)
+        : data.roomType
+          ? roomPresetService.getDefaultPreset(data.roomType)
+          : undefined;
+      if (!preset || !preset.enabled) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+
+      if (preset.type === 'ton') {
+        socket.emit('error', { message: 'Private TON matches are created via join intent' });
+        return;
+      }
+
+      const identity = identifyPlayer(socket, data);
+      if (!identity) {
+        return;
+      }
+      const { playerId, playerName, avatar } = identity;
+
+      const existingMatch = matchmaker.getMatchByPlayerId(playerId);
+      if (existingMatch) {
+        socket.emit('match:alreadyJoined', { match: toPlayerView(existingMatch, playerId) });
+        return;
+      }
+
+      if (preset.type === 'stars' && !(await verifyStarsEntry(socket, playerId, data, preset.entryFee))) {
+        return;
+      }
+
+      const player: Player = {
+        id: playerId,
+        name: playerName,
+        avatar,
+        score: 0,
+      };
+
+      let match;
+      try {
+        match = await matchmaker.createPrivateMatch(preset.id, player, data.minPlayers);
+      } catch (error) {
+        socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to create private match' });
+        return;
+      }
+      matchmaker.addSocketToMatch(match.id, socket.id, playerId);
+
+      try {
+        await matchService.saveMatch(match);
+      } catch (error) {
+        console.error('Failed to save private match to database:', error);
+      }
+
+      if (preset.type === 'stars' && data.paymentId) {
+        try {
+          await paymentService.linkPaymentToMatch(data.paymentId, match.id);
+        } catch (error) {
+          console.error('Failed to link payment to match:', error);
+        }
+      }
+
+      socket.join(match.id);
+      socket.join(`player:${playerId}`);
+
+      socket.emit('match:privateCreated', {
+        match: toPlayerView(match, playerId),
+        playerId,
+        inviteCode: match.inviteCode,
+        inviteLink: match.inviteCode ? buildInviteLink(match.inviteCode) : null,
+        sessionToken: createSessionToken(playerId, match.id),
+      });
+
+      console.log(`Player ${playerName} (${playerId}) created private match ${match.id}`);
+    } catch (error) {
+      console.error('Create private match error:', error);
+      socket.emit('error', { message: 'Failed to create private match' });
+    }
+  });
+
+  /**
+   * Start private match early (creator only, once minPlayers have joined)
+   */
+  socket.on('match:start', async () => {
+    try {
+      const playerId = matchmaker.getPlayerBySocket(socket.id);
+      if (!playerId) {
+        socket.emit('error', { message: 'Player not found in any match' });
+        return;
+      }
+
+      const match = matchmaker.getMatchByPlayerId(playerId);
+      if (!match) {
+        socket.emit('error', { message: 'Match not found' });
+        return;
+      }
+
+      const check = matchmaker.canStartEarly(match.id, playerId);
+      if (!check.ok) {
+        socket.emit('error', { message: check.reason });
+        return;
+      }
+
+      const startedMatch = await beginMatch(io, match.id, true);
+      if (!startedMatch) {
+        socket.emit('error', { message: 'Failed to start match' });
+        return;
+      }
+
+      console.log(`🚀 Private match ${match.id} started early by creator ${playerId} (${startedMatch.players.length} players)`);
+    } catch (error) {
+      console.error('Match start error:', error);
+      socket.emit('error', { message: 'Failed to start match' });
+    }
+  });
+
   /**
    * Leave match
    */
@@ -330,9 +706,7 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
           const refundId = await joinIntentService.createRefundForPlayer(playerId, match.id, 'player_left');
           if (refundId) {
             console.log(`💰 Refund ${refundId} created for player ${playerId} leaving TON match ${match.id}`);
-            // TODO: Send refund transaction via blockchain worker
-            // For now, refund record is created and status is CREATED
-            // Actual transaction will be sent by a worker/service later
+            refundWorker.wake();
           }
         } catch (error) {
           console.error(`❌ Failed to create refund for player ${playerId}:`, error);
@@ -348,7 +722,7 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
       const updatedMatch = matchmaker.getMatch(match.id);
       if (updatedMatch) {
         socket.to(match.id).emit('match:playerLeft', {
-          match: updatedMatch,
+          match: toPlayerView(updatedMatch),
           playerId,
         });
       }
@@ -367,7 +741,12 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
     try {
       const match = matchmaker.getMatch(data.matchId);
       if (match) {
-        socket.emit('match:status', { match });
+        // Players of the match see their own press, anyone else gets the spectator view
+        const viewerId = matchmaker.getPlayerBySocket(socket.id);
+        const isPlayer = !!viewerId && match.players.some((p) => p.id === viewerId);
+        socket.emit('match:status', {
+          match: isPlayer ? toPlayerView(match, viewerId) : toSpectatorView(match),
+        });
       } else {
         socket.emit('error', { message: 'Match not found' });
       }
@@ -377,8 +756,72 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
     }
   });
 
+  /**
+   * Resume a match from a new socket with the session token from match:joined
+   */
+  socket.on('match:resume', async (data: { sessionToken?: string }) => {
+    try {
+      const session = data?.sessionToken ? verifySessionToken(data.sessionToken) : null;
+      if (!session) {
+        socket.emit('error', { message: 'Invalid or expired session' });
+        return;
+      }
+      const { playerId, matchId } = session;
+
+      // Match might not be in memory (e.g. after server restart)
+      if (!matchmaker.getMatch(matchId)) {
+        await matchmaker.restoreMatchById(matchId, true);
+      }
+
+      const match = matchmaker.resumePlayer(playerId, matchId, socket.id);
+      if (!match) {
+        socket.emit('error', { message: 'Session expired: you are no longer in this match' });
+        return;
+      }
+
+      socket.join(match.id);
+      socket.join(`player:${playerId}`);
+
+      socket.emit('match:resumed', {
+        match: toPlayerView(match, playerId),
+        playerId,
+        sessionToken: createSessionToken(playerId, match.id),
+      });
+      socket.to(match.id).emit('match:playerReconnected', {
+        match: toPlayerView(match),
+        playerId,
+      });
+
+      // Replay current round state
+      if (match.status === 'playing' && match.roundStartTime) {
+        socket.emit('round:started', {
+          match: toPlayerView(match, playerId),
+          roundNumber: match.currentRound,
+          startTime: match.roundStartTime,
+          commitment: match.roundCommitment,
+        });
+      } else if (match.status === 'locking') {
+        socket.emit('match:locking', { match: toPlayerView(match, playerId) });
+      } else if (match.status === 'waiting') {
+        if (match.countdownEndsAt) {
+          socket.emit('match:countdown', countdownPayload(match));
+        }
+        const queueStatus = matchmaker.getQueueStatus(match.id, playerId);
+        if (queueStatus) {
+          socket.emit('match:queueStatus', queueStatus);
+        }
+      }
+
+      console.log(`Player ${playerId} resumed match ${match.id}`);
+    } catch (error) {
+      console.error('Match resume error:', error);
+      socket.emit('error', { message: 'Failed to resume match' });
+    }
+  });
+
   /**
    * Handle disconnect
+   * Players stay in the match for a grace period and can resume with match:resume
    */
   socket.on('disconnect', async () => {
     try {
@@ -386,34 +829,34 @@ export function setupMatchmakingHandlers(io: Server, socket: Socket) {
       if (playerId) {
         const match = matchmaker.getMatchByPlayerId(playerId);
         if (match) {
-          // Create refund for TON rooms if match hasn't started yet
-          if (match.roomType === 'ton' && match.status === 'waiting') {
-            try {
-              const refundId = await joinIntentService.createRefundForPlayer(playerId, match.id, 'player_left');
-              if (refundId) {
-                console.log(`💰 Refund ${refundId} created for player ${playerId} disconnecting from TON match ${match.id}`);
-                // TODO: Send refund transaction via blockchain worker
-              }
-            } catch (error) {
-              console.error(`❌ Failed to create refund for disconnected player ${playerId}:`, error);
-              // Don't block disconnect - refund can be handled later
-            }
-          }
-
-          // Remove player from match
-          matchmaker.removePlayer(playerId).catch(err => console.error('Error removing player:', err));
+          const otherSocket = matchmaker.hasOtherSocket(match.id, playerId, socket.id);
           matchmaker.removeSocketFromMatch(match.id, socket.id);
 
-          // Notify other players
-          const updatedMatch = matchmaker.getMatch(match.id);
-          if (updatedMatch) {
-            socket.to(match.id).emit('match:playerLeft', {
-              match: updatedMatch,
+          // Player is still connected from another socket
+          if (otherSocket) {
+            return;
+          }
+
+          const graceMs = getReconnectGraceMs();
+          const graceEndsAt = graceMs > 0 && match.status !== 'finished'
+            ? matchmaker.markDisconnected(playerId, graceMs, () => {
+                removeDisconnectedPlayer(io, playerId, match.id).catch((error) => {
+                  console.error(`❌ Error removing disconnected player ${playerId}:`, error);
+                });
+              })
+            : undefined;
+
+          if (graceEndsAt) {
+            socket.to(match.id).emit('match:playerDisconnected', {
+              match: toPlayerView(match),
               playerId,
+              graceEndsAt,
             });
+            console.log(`🔌 Player ${playerId} disconnected from match ${match.id}, can resume for ${graceMs / 1000}s`);
+            return;
           }
 
-          console.log(`Player ${playerId} disconnected from match ${match.id}`);
+          await removeDisconnectedPlayer(io, playerId, match.id);
         }
       }
     } catch (error) {
@@ -0,0 +1,57 @@
+import { Server, Socket } from 'socket.io';
+import { matchmaker } from '../services/Matchmaker.js';
+import { spectatorService, spectatorRoom } from '../services/SpectatorService.js';
+import { toSpectatorView } from '../utils/matchView.js';
+
+export function setupSpectatorHandlers(io: Server, socket: Socket) {
+  /**
+   * Watch a live match
+   * The match snapshot, round and finish events arrive in the spectator view after the spectator delay
+   */
+  socket.on('match:spectate', (data: { matchId?: string }) => {
+    try {
+      const match = data?.matchId ? matchmaker.getMatch(data.matchId) : undefined;
+      if (!match || match.isPrivate) {
+        socket.emit('error', { message: 'Match not found' });
+        return;
+      }
+
+      if (match.status !== 'playing') {
+        socket.emit('error', { message: 'Match is not live' });
+        return;
+      }
+
+      const previousMatchId = spectatorService.addSpectator(match.id, socket.id);
+      if (previousMatchId && previousMatchId !== match.id) {
+        socket.leave(spectatorRoom(previousMatchId));
+      }
+      socket.join(spectatorRoom(match.id));
+
+      spectatorService.send(io, match.id, socket.id, 'match:spectating', {
+        match: toSpectatorView(match),
+        delayMs: spectatorService.getDelayMs(),
+        spectators: spectatorService.getSpectatorCount(match.id),
+      });
+
+      console.log(`👀 Socket ${socket.id} is spectating match ${match.id}`);
+    } catch (error) {
+      console.error('Match spectate error:', error);
+      socket.emit('error', { message: 'Failed to spectate match' });
+    }
+  });
+
+  /**
+   * Stop watching
+   */
+  socket.on('match:unspectate', () => {
+    const matchId = spectatorService.removeSpectator(socket.id);
+    if (matchId) {
+      socket.leave(spectatorRoom(matchId));
+      socket.emit('match:unspectated', { matchId });
+    }
+  });
+
+  socket.on('disconnect', () => {
+    spectatorService.removeSpectator(socket.id);
+  });
+}
@@ -0,0 +1,97 @@
+import { Server, Socket } from 'socket.io';
+import { Match } from '../types/game';
+import { tournamentService } from '../services/TournamentService.js';
+import { toPlayerView } from '../utils/matchView.js';
+import { createSessionToken } from '../utils/session.js';
+import { beginMatch, identifyPlayer } from './matchmaking.js';
+
+/**
+ * Socket.IO room of a tournament's subscribers
+ */
+function tournamentRoom(tournamentId: string): string {
+  return `tournament:${tournamentId}`;
+}
+
+/**
+ * tournament:match payload for one seated player (with a session token for match:resume)
+ */
+function stageMatchEvent(tournamentId: string, match: Match, playerId: string, startsAt: number) {
+  return {
+    tournamentId,
+    stage: match.tournamentStage,
+    match: toPlayerView(match, playerId),
+    sessionToken: createSessionToken(playerId, match.id),
+    startsAt,
+  };
+}
+
+/**
+ * Wire tournament events (stage matches, standings changes) to sockets
+ */
+export function setupTournaments(io: Server) {
+  tournamentService.setHandlers({
+    stageMatchCreated: (tournament, match, startsAt) => {
+      // Seated players attach to their stage match with match:resume
+      for (const player of match.players) {
+        io.to(`player:${player.id}`).emit('tournament:match', stageMatchEvent(tournament.id, match, player.id, startsAt));
+      }
+    },
+    startMatch: async (matchId) => {
+      const startedMatch = await beginMatch(io, matchId, true);
+      if (startedMatch) {
+        console.log(`🏆 Tournament match ${matchId} started (${startedMatch.players.length} players)`);
+      }
+    },
+    tournamentUpdated: (tournament) => {
+      io.to(tournamentRoom(tournament.id)).emit('tournament:updated', { tournament });
+    },
+  });
+}
+
+export function setupTournamentHandlers(io: Server, socket: Socket) {
+  /**
+   * Follow a tournament (stage changes, results)
+   * Identified players also get their stage matches (tournament:match), including the current one
+   */
+  socket.on('tournament:subscribe', async (data: { tournamentId?: string; initData?: string; userId?: string; userName?: string }) => {
+    if (!data?.tournamentId) {
+      socket.emit('error', { message: 'Must provide tournamentId' });
+      return;
+    }
+
+    const identity = data.initData || data.userId ? identifyPlayer(socket, data) : null;
+    if ((data.initData || data.userId) && !identity) {
+      return;
+    }
+
+    socket.join(tournamentRoom(data.tournamentId));
+    if (identity) {
+      socket.join(`player:${identity.playerId}`);
+    }
+
+    socket.emit('tournament:subscribed', { tournamentId: data.tournamentId });
+    console.log(`📡 Socket ${socket.id} subscribed to tournament ${data.tournamentId}`);
+
+    if (!identity) {
+      return;
+    }
+    // A player who missed tournament:match (reconnected or subscribed later) gets it again with a fresh token
+    try {
+      const current = await tournamentService.getPlayerStageMatch(data.tournamentId, identity.playerId);
+      if (current) {
+        socket.emit('tournament:match', stageMatchEvent(data.tournamentId, current.match, identity.playerId, current.startsAt));
+      }
+    } catch (error) {
+      console.error(`❌ Error getting stage match of player ${identity.playerId}:`, error);
+    }
+  });
+
+  /**
+   * Stop following a tournament
+   */
+  socket.on('tournament:unsubscribe', (data: { tournamentId?: string }) => {
+    if (data?.tournamentId) {
+      socket.leave(tournamentRoom(data.tournamentId));
+    }
+  });
+}
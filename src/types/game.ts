@@ -15,14 +15,28 @@ export interface Player {
   name: string;
   avatar?: string;
   score: number;
+  rating?: number; // skill rating (loaded for rating-based matchmaking)
   pressTime?: number; // press time in milliseconds from round start
   position?: number; // position in current round
+  disconnected?: boolean; // lost connection, kept in the match during the reconnect grace period
 }
 
 export interface RoundResult {
   roundNumber: number;
   players: Player[];
   endTime: number; // round end time in milliseconds
+  scoring?: ScoringConfig; // scoring rules used for this round
+  fairness?: RoundReveal; // commit-reveal proof for endTime
+}
+
+// Commit-reveal proof that a round end time was fixed before the round started
+// commitment = sha256(`${seed}:${endTime}`), endTime is derived from seed (see utils/fairness.ts)
+export interface RoundReveal {
+  commitment: string; // published at round start
+  seed: string; // revealed at round end
+  endTime: number; // round end time in milliseconds
+  minEndTime: number; // range endTime was drawn from (ms)
+  maxEndTime: number;
 }
 
 export interface GameState {
@@ -46,8 +60,9 @@ export interface GameResult {
 // Match-related types for backend
 export interface Match {
   id: string;
+  presetId: string; // room preset the match was created from
   roomType: RoomType;
-  status: 'waiting' | 'playing' | 'finished';
+  status: 'waiting' | 'locking' | 'playing' | 'finished' | 'cancelled'; // locking - TON match waits for its escrow room lock
   players: Player[]; // Current active players
   allPlayers?: Player[]; // All players who participated (including those who left)
   currentRound: number;
@@ -57,15 +72,138 @@ export interface Match {
   finishedAt?: Date;
   roundStartTime?: number; // current round start time (timestamp)
   roundEndTime?: number; // current round end time (milliseconds from round start)
+  roundCommitment?: string; // current round end time commitment (public)
   statsUpdated?: boolean; // Flag to prevent duplicate stats updates
+  isPrivate?: boolean; // Private match, joinable only by invite code
+  inviteCode?: string; // Invite code of a private match
+  creatorId?: string; // Player who created the private match (can start it early)
+  minPlayers?: number; // Players required to start before the match is full
+  countdownEndsAt?: number; // Start countdown deadline (public matches with minPlayers joined)
+  tournamentId?: string; // Tournament the match is a stage match of
+  tournamentStage?: number; // Tournament stage (1-based)
+  lockOperationId?: string; // Escrow outbox operation locking the room (TON matches)
+  lockedAt?: Date; // When the escrow room lock was confirmed
+}
+
+// Round scoring rules (see utils/scoring.ts for implementations)
+export type ScoringStrategyId = 'closest' | 'linear_decay' | 'winner_takes_all' | 'late_penalty';
+
+export interface ScoringConfig {
+  strategy: ScoringStrategyId;
+  params?: Record<string, number>; // strategy-specific parameters
 }
 
+// How waiting matches are picked for a joining player
+// fifo - first waiting match, rating - match with similar rating (window widens with waiting time)
+export type MatchmakingMode = 'fifo' | 'rating';
+
 export interface RoomPreset {
   id: string;
   type: RoomType;
   entryFee: number;
   maxPlayers: number;
+  minPlayers: number; // countdown to start begins once this many players joined
+  startCountdownSec: number; // countdown length (0 = start only when full)
   rounds: number;
   platformFee: number;
+  scoring: ScoringConfig;
+  maxPressCompensationMs: number; // max latency compensation for presses (0 disables)
+  enabled: boolean; // disabled presets are hidden from the catalogue, running matches keep them
+  matchmaking: MatchmakingMode;
+}
+
+
+// Tournaments: stage matches are spawned by the server, placements pay out a prize pool
+// bracket - top N of each stage match advance, swiss - everyone plays every stage, points add up
+export type TournamentFormat = 'bracket' | 'swiss';
+
+export type TournamentStatus = 'registration' | 'running' | 'finished' | 'cancelled';
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  currency: 'stars' | 'ton';
+  entryFee: number;
+  platformFee: number; // in percent, taken from the prize pool
+  prizeTable: number[]; // percent of the prize pool by place (index 0 = 1st place)
+  presetId: string; // room preset with the game rules of stage matches
+  matchSize: number; // players per stage match
+  advancePerMatch: number; // bracket: players advancing from each stage match
+  swissRounds: number; // swiss: number of stages
+  minPlayers: number; // cancelled (entries refunded) if fewer registered when registration closes
+  maxPlayers: number;
+  status: TournamentStatus;
+  currentStage: number;
+  registrationOpensAt: Date;
+  registrationClosesAt: Date;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
 }
 
+export interface TournamentEntry {
+  playerId: string;
+  playerName: string;
+  seed: number; // registration order (breaks ties at the advancement cut)
+  status: 'active' | 'eliminated';
+  points: number; // swiss: sum of stage match scores
+  lastScore: number; // score in the last stage match played
+  eliminatedStage?: number; // bracket: stage the player was knocked out in
+  place?: number; // final placement (shared on ties)
+  prize?: number;
+}
+
+// Achievements: rules are evaluated for every player when a match finishes (see utils/achievements.ts)
+// Counters (matches_played, wins) include the finished match and can be limited to a room type
+export type AchievementRule =
+  | { type: 'press_within'; ms: number } // pressed at most ms before a round end
+  | { type: 'win_streak'; count: number } // won count matches in a row
+  | { type: 'matches_played'; count: number; roomType?: RoomType }
+  | { type: 'wins'; count: number; roomType?: RoomType }
+  | { type: 'match_score'; score: number }; // total score of one match
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  rule: AchievementRule;
+}
+
+export interface UnlockedAchievement extends AchievementDefinition {
+  matchId?: string; // Match that unlocked it
+  unlockedAt: Date;
+}
+
+// Quests: progress is counted per period (daily resets at 00:00 UTC, weekly on Monday 00:00 UTC)
+// Round goals count rounds, match goals count finished matches (see utils/quests.ts)
+export type QuestPeriod = 'daily' | 'weekly';
+
+export type QuestGoal =
+  | { type: 'play_matches'; roomType?: RoomType }
+  | { type: 'win_matches'; roomType?: RoomType }
+  | { type: 'score_rounds' } // rounds with points
+  | { type: 'score_every_round' }; // matches with points in every round
+
+// bonus - free-room bonus currency, stars - Stars credit (paid out like match payouts)
+export interface QuestReward {
+  type: 'bonus' | 'stars';
+  amount: number;
+}
+
+export interface QuestDefinition {
+  id: string;
+  name: string;
+  description: string;
+  period: QuestPeriod;
+  goal: QuestGoal;
+  target: number;
+  reward: QuestReward;
+}
+
+export interface QuestProgress extends QuestDefinition {
+  periodStart: Date;
+  periodEnd: Date;
+  progress: number; // Capped at target
+  completedAt?: Date;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { AchievementContext, findUnlocked, isRuleMet, maxStreakRequired } from '../achievements.js';
+import { ACHIEVEMENTS } from '../../constants/achievements.js';
+
+function context(fields: Partial<AchievementContext> = {}): AchievementContext {
+  return {
+    presses: [],
+    matchScore: 0,
+    currentStreak: 0,
+    total: { played: 1, wins: 0 },
+    byRoomType: { free: { played: 1, wins: 0 } },
+    ...fields,
+  };
+}
+
+describe('achievements', () => {
+  describe('isRuleMet', () => {
+    it('should only count in-time presses close to the round end', () => {
+      const rule = { type: 'press_within' as const, ms: 50 };
+
+      expect(isRuleMet(rule, context({ presses: [{ endTime: 8000, pressTime: 7960 }] }))).toBe(true);
+      expect(isRuleMet(rule, context({ presses: [{ endTime: 8000, pressTime: 7900 }] }))).toBe(false);
+      expect(isRuleMet(rule, context({ presses: [{ endTime: 8000, pressTime: 8010 }] }))).toBe(false);
+      expect(isRuleMet(rule, context({ presses: [{ endTime: 8000 }] }))).toBe(false);
+    });
+
+    it('should limit counters to the room type of the rule', () => {
+      const ctx = context({
+        total: { played: 120, wins: 40 },
+        byRoomType: { free: { played: 30, wins: 10 }, ton: { played: 90, wins: 30 } },
+      });
+
+      expect(isRuleMet({ type: 'matches_played', count: 100 }, ctx)).toBe(true);
+      expect(isRuleMet({ type: 'matches_played', count: 100, roomType: 'ton' }, ctx)).toBe(false);
+      expect(isRuleMet({ type: 'wins', count: 30, roomType: 'ton' }, ctx)).toBe(true);
+      expect(isRuleMet({ type: 'wins', count: 1, roomType: 'stars' }, ctx)).toBe(false);
+    });
+
+    it('should check win streak and match score', () => {
+      expect(isRuleMet({ type: 'win_streak', count: 5 }, context({ currentStreak: 5 }))).toBe(true);
+      expect(isRuleMet({ type: 'win_streak', count: 5 }, context({ currentStreak: 4 }))).toBe(false);
+      expect(isRuleMet({ type: 'match_score', score: 30 }, context({ matchScore: 30 }))).toBe(true);
+    });
+  });
+
+  describe('findUnlocked', () => {
+    it('should skip achievements the player already has', () => {
+      const ctx = context({ total: { played: 1, wins: 1 }, byRoomType: { free: { played: 1, wins: 1 } } });
+
+      const unlocked = findUnlocked(ACHIEVEMENTS, new Set(['first_match']), ctx);
+
+      expect(unlocked.map((definition) => definition.id)).toEqual(['first_win']);
+    });
+  });
+
+  describe('maxStreakRequired', () => {
+    it('should return the longest streak of the catalogue', () => {
+      expect(maxStreakRequired(ACHIEVEMENTS)).toBe(5);
+      expect(maxStreakRequired([])).toBe(0);
+    });
+  });
+
+  it('should have unique achievement ids', () => {
+    const ids = ACHIEVEMENTS.map((definition) => definition.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
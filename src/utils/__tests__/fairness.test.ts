@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRoundCommitment,
+  computeCommitment,
+  deriveEndTime,
+  verifyRoundReveal,
+} from '../fairness.js';
+
+describe('fairness', () => {
+  describe('createRoundCommitment', () => {
+    it('should derive endTime within range', () => {
+      for (let i = 0; i < 50; i++) {
+        const round = createRoundCommitment(5, 15);
+        expect(round.endTime).toBeGreaterThanOrEqual(5000);
+        expect(round.endTime).toBeLessThanOrEqual(15000);
+        expect(round.seed).toMatch(/^[0-9a-f]{64}$/);
+      }
+    });
+
+    it('should commit to seed and endTime', () => {
+      const round = createRoundCommitment();
+      expect(round.commitment).toBe(computeCommitment(round.seed, round.endTime));
+      expect(round.endTime).toBe(deriveEndTime(round.seed, round.minEndTime, round.maxEndTime));
+    });
+  });
+
+  describe('verifyRoundReveal', () => {
+    it('should verify a valid reveal', () => {
+      expect(verifyRoundReveal(createRoundCommitment())).toBe(true);
+    });
+
+    it('should reject a tampered endTime', () => {
+      const round = createRoundCommitment();
+      expect(verifyRoundReveal({ ...round, endTime: round.endTime + 1 })).toBe(false);
+    });
+
+    it('should reject an endTime not derived from seed', () => {
+      const round = createRoundCommitment();
+      const endTime = round.endTime === round.maxEndTime ? round.minEndTime : round.endTime + 1;
+      const forged = { ...round, endTime, commitment: computeCommitment(round.seed, endTime) };
+      expect(verifyRoundReveal(forged)).toBe(false);
+    });
+
+    it('should reject a different seed', () => {
+      const round = createRoundCommitment();
+      const other = createRoundCommitment();
+      expect(verifyRoundReveal({ ...round, seed: other.seed })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { toPlayerView, toSpectatorView, toAdminView } from '../matchView.js';
+import { Match } from '../../types/game';
+
+function makeMatch(): Match {
+  const players = [
+    { id: 'p1', name: 'Alice', score: 9, pressTime: 4000 },
+    { id: 'p2', name: 'Bob', score: 8, pressTime: 3000 },
+  ];
+  return {
+    id: 'match_1',
+    presetId: 'free_0',
+    roomType: 'free',
+    status: 'playing',
+    players,
+    allPlayers: players.map((p) => ({ ...p })),
+    currentRound: 2,
+    roundResults: [],
+    createdAt: new Date(),
+    roundStartTime: Date.now(),
+    roundEndTime: 7000,
+    roundCommitment: 'abc',
+    statsUpdated: false,
+  };
+}
+
+describe('matchView', () => {
+  it('should strip hidden round end time from player view', () => {
+    const view = toPlayerView(makeMatch(), 'p1');
+    expect(view).not.toHaveProperty('roundEndTime');
+    expect(view).not.toHaveProperty('statsUpdated');
+    expect(view.roundCommitment).toBe('abc');
+  });
+
+  it('should only show the viewer own press during a round', () => {
+    const view = toPlayerView(makeMatch(), 'p1');
+    expect(view.players[0].pressTime).toBe(4000);
+    expect(view.players[1]).not.toHaveProperty('pressTime');
+    expect(view.allPlayers?.[1]).not.toHaveProperty('pressTime');
+  });
+
+  it('should hide all presses from broadcast and spectator views', () => {
+    expect(toPlayerView(makeMatch()).players.every((p) => p.pressTime === undefined)).toBe(true);
+    expect(toSpectatorView(makeMatch()).players.every((p) => p.pressTime === undefined)).toBe(true);
+  });
+
+  it('should show presses once the round has ended', () => {
+    const match = { ...makeMatch(), roundStartTime: undefined, roundEndTime: undefined };
+    expect(toSpectatorView(match).players[1].pressTime).toBe(3000);
+  });
+
+  it('should keep secret fields in admin view without sharing references', () => {
+    const match = makeMatch();
+    const view = toAdminView(match);
+    expect(view.roundEndTime).toBe(7000);
+    view.players[0].score = 0;
+    expect(match.players[0].score).toBe(9);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { favouriteRoomType, summarizePresses, winStreaks } from '../profile.js';
+
+describe('profile', () => {
+  describe('summarizePresses', () => {
+    it('should split rounds into in-time, late and missed presses', () => {
+      const stats = summarizePresses([
+        { endTime: 8000, pressTime: 7980, position: 1 },
+        { endTime: 8000, pressTime: 7800, position: 2 },
+        { endTime: 6000, pressTime: 5900, position: 1 },
+        { endTime: 6000, pressTime: 6100, position: null },
+        { endTime: 7000, pressTime: null, position: null },
+      ]);
+
+      expect(stats.rounds).toBe(5);
+      expect(stats.pressed).toBe(3);
+      expect(stats.late).toBe(1);
+      expect(stats.missed).toBe(1);
+      expect(stats.averageDeltaMs).toBe(107); // (20 + 200 + 100) / 3
+      expect(stats.perfectPresses).toBe(1);
+      expect(stats.positions).toEqual({ 1: 2, 2: 1 });
+    });
+
+    it('should have no average without in-time presses', () => {
+      const stats = summarizePresses([{ endTime: 8000, pressTime: 0, position: null }]);
+
+      expect(stats.missed).toBe(1);
+      expect(stats.averageDeltaMs).toBeNull();
+    });
+  });
+
+  describe('winStreaks', () => {
+    it('should return current and longest win streaks', () => {
+      expect(winStreaks([true, true, true, false, true, true])).toEqual({ current: 2, longest: 3 });
+      expect(winStreaks([true, false])).toEqual({ current: 0, longest: 1 });
+      expect(winStreaks([])).toEqual({ current: 0, longest: 0 });
+    });
+  });
+
+  describe('favouriteRoomType', () => {
+    it('should pick the most played room type', () => {
+      expect(favouriteRoomType(['free', 'stars', 'stars', 'ton'])).toBe('stars');
+      expect(favouriteRoomType([])).toBeNull();
+    });
+
+    it('should break ties by the room type played most recently', () => {
+      expect(favouriteRoomType(['free', 'stars', 'stars', 'free'])).toBe('free');
+      expect(favouriteRoomType(['ton', 'free', 'ton', 'free', 'stars'])).toBe('free');
+    });
+  });
+});
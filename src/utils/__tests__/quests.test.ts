@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { matchProgress, periodEnd, periodStart, roundProgress } from '../quests.js';
+import { Match } from '../../types/game';
+
+function match(fields: Partial<Match> = {}): Match {
+  return {
+    id: 'match_1',
+    presetId: 'stars_0',
+    roomType: 'stars',
+    status: 'finished',
+    players: [],
+    currentRound: 2,
+    roundResults: [
+      { roundNumber: 1, endTime: 8000, players: [{ id: 'p1', name: 'Alice', score: 10 }, { id: 'p2', name: 'Bob', score: 0 }] },
+      { roundNumber: 2, endTime: 7000, players: [{ id: 'p1', name: 'Alice', score: 5 }, { id: 'p2', name: 'Bob', score: 9 }] },
+    ],
+    createdAt: new Date(),
+    ...fields,
+  };
+}
+
+describe('quests', () => {
+  describe('periodStart', () => {
+    it('should start daily periods at UTC midnight', () => {
+      expect(periodStart('daily', new Date('2026-10-18T21:30:00Z'))).toEqual(new Date('2026-10-18T00:00:00Z'));
+    });
+
+    it('should start weekly periods on Monday', () => {
+      // 2026-10-18 is a Sunday
+      expect(periodStart('weekly', new Date('2026-10-18T21:30:00Z'))).toEqual(new Date('2026-10-12T00:00:00Z'));
+      expect(periodStart('weekly', new Date('2026-10-12T00:00:00Z'))).toEqual(new Date('2026-10-12T00:00:00Z'));
+    });
+
+    it('should end periods after a day or a week', () => {
+      const start = new Date('2026-10-12T00:00:00Z');
+      expect(periodEnd('daily', start)).toEqual(new Date('2026-10-13T00:00:00Z'));
+      expect(periodEnd('weekly', start)).toEqual(new Date('2026-10-19T00:00:00Z'));
+    });
+  });
+
+  describe('roundProgress', () => {
+    it('should count rounds with points for score_rounds only', () => {
+      expect(roundProgress({ type: 'score_rounds' }, { id: 'p1', name: 'Alice', score: 3 })).toBe(1);
+      expect(roundProgress({ type: 'score_rounds' }, { id: 'p1', name: 'Alice', score: 0 })).toBe(0);
+      expect(roundProgress({ type: 'play_matches' }, { id: 'p1', name: 'Alice', score: 3 })).toBe(0);
+    });
+  });
+
+  describe('matchProgress', () => {
+    it('should count played and won matches of the goal room type', () => {
+      expect(matchProgress({ type: 'play_matches' }, match(), 'p1', false)).toBe(1);
+      expect(matchProgress({ type: 'play_matches', roomType: 'ton' }, match(), 'p1', false)).toBe(0);
+      expect(matchProgress({ type: 'win_matches', roomType: 'stars' }, match(), 'p1', true)).toBe(1);
+      expect(matchProgress({ type: 'win_matches', roomType: 'stars' }, match(), 'p1', false)).toBe(0);
+    });
+
+    it('should count matches with points in every round', () => {
+      expect(matchProgress({ type: 'score_every_round' }, match(), 'p1', false)).toBe(1);
+      expect(matchProgress({ type: 'score_every_round' }, match(), 'p2', false)).toBe(0);
+    });
+
+    it('should not count score_every_round with missing round results', () => {
+      expect(matchProgress({ type: 'score_every_round' }, match({ currentRound: 3 }), 'p1', false)).toBe(0);
+    });
+  });
+});
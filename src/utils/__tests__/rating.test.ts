@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RATING,
+  K_ESTABLISHED,
+  K_PROVISIONAL,
+  calculateRatingChanges,
+  expectedScore,
+  kFactor,
+  placementsFromScores,
+  ratingWindow,
+} from '../rating.js';
+
+describe('rating', () => {
+  describe('expectedScore', () => {
+    it('should be 0.5 for equal ratings', () => {
+      expect(expectedScore(1200, 1200)).toBe(0.5);
+    });
+
+    it('should favour the higher rated player', () => {
+      expect(expectedScore(1600, 1200)).toBeCloseTo(0.909, 3);
+      expect(expectedScore(1200, 1600)).toBeCloseTo(0.091, 3);
+    });
+  });
+
+  describe('kFactor', () => {
+    it('should use provisional K-factor for new players', () => {
+      expect(kFactor(0)).toBe(K_PROVISIONAL);
+      expect(kFactor(50)).toBe(K_ESTABLISHED);
+    });
+  });
+
+  describe('calculateRatingChanges', () => {
+    it('should behave like 1v1 Elo for two players', () => {
+      const changes = calculateRatingChanges([
+        { playerId: 'a', rating: DEFAULT_RATING, ratedGames: 30, placement: 1 },
+        { playerId: 'b', rating: DEFAULT_RATING, ratedGames: 30, placement: 2 },
+      ]);
+
+      expect(changes).toEqual([
+        { playerId: 'a', oldRating: 1200, newRating: 1210, delta: 10 },
+        { playerId: 'b', oldRating: 1200, newRating: 1190, delta: -10 },
+      ]);
+    });
+
+    it('should order deltas by placement in multi-player matches', () => {
+      const changes = calculateRatingChanges([
+        { playerId: 'a', rating: 1200, ratedGames: 30, placement: 1 },
+        { playerId: 'b', rating: 1200, ratedGames: 30, placement: 2 },
+        { playerId: 'c', rating: 1200, ratedGames: 30, placement: 3 },
+        { playerId: 'd', rating: 1200, ratedGames: 30, placement: 4 },
+      ]);
+      const deltas = changes.map((c) => c.delta);
+
+      expect(deltas[0]).toBeGreaterThan(deltas[1]);
+      expect(deltas[1]).toBeGreaterThan(deltas[2]);
+      expect(deltas[2]).toBeGreaterThan(deltas[3]);
+      expect(deltas.reduce((sum, d) => sum + d, 0)).toBe(0);
+    });
+
+    it('should not change ratings of tied equal players', () => {
+      const changes = calculateRatingChanges([
+        { playerId: 'a', rating: 1300, ratedGames: 30, placement: 1 },
+        { playerId: 'b', rating: 1300, ratedGames: 30, placement: 1 },
+      ]);
+
+      expect(changes.map((c) => c.delta)).toEqual([0, 0]);
+    });
+
+    it('should not change rating of a single player', () => {
+      const changes = calculateRatingChanges([{ playerId: 'a', rating: 1200, ratedGames: 0, placement: 1 }]);
+
+      expect(changes[0].delta).toBe(0);
+    });
+  });
+
+  describe('placementsFromScores', () => {
+    it('should use competition ranking for ties', () => {
+      const placements = placementsFromScores([
+        { id: 'a', score: 10 },
+        { id: 'b', score: 30 },
+        { id: 'c', score: 30 },
+        { id: 'd', score: 5 },
+      ]);
+
+      expect(Object.fromEntries(placements)).toEqual({ b: 1, c: 1, a: 3, d: 4 });
+    });
+
+    it('should place players who left last regardless of score', () => {
+      const placements = placementsFromScores(
+        [
+          { id: 'a', score: 10 },
+          { id: 'b', score: 100 },
+          { id: 'c', score: 50 },
+        ],
+        new Set(['b', 'c'])
+      );
+
+      expect(Object.fromEntries(placements)).toEqual({ a: 1, b: 2, c: 2 });
+    });
+  });
+
+  describe('ratingWindow', () => {
+    it('should widen with waiting time', () => {
+      expect(ratingWindow(0, 100, 10)).toBe(100);
+      expect(ratingWindow(30_000, 100, 10)).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { findDiscrepancies } from '../reconciliation.js';
+
+const ENTRY = 1_000_000_000n; // 1 TON
+
+describe('reconciliation', () => {
+  describe('findDiscrepancies', () => {
+    it('should find nothing when the room matches the recorded deposits', () => {
+      const room = { status: 0, depositedCount: 2, potNano: 2n * ENTRY };
+
+      expect(findDiscrepancies(room, { matchStatus: 'waiting', deposits: 2, entryNano: ENTRY })).toEqual([]);
+    });
+
+    it('should flag a missing room only when deposits are recorded', () => {
+      expect(findDiscrepancies(null, { matchStatus: 'waiting', deposits: 0, entryNano: ENTRY })).toEqual([]);
+      expect(findDiscrepancies(null, { matchStatus: 'waiting', deposits: 1, entryNano: ENTRY })[0].type).toBe('room_missing');
+    });
+
+    it('should flag untracked and missing deposits', () => {
+      const room = { status: 0, depositedCount: 3, potNano: 3n * ENTRY };
+
+      const untracked = findDiscrepancies(room, { matchStatus: 'waiting', deposits: 2, entryNano: ENTRY });
+      const missing = findDiscrepancies(room, { matchStatus: 'waiting', deposits: 4, entryNano: ENTRY });
+
+      expect(untracked).toEqual([expect.objectContaining({ type: 'untracked_deposits', expected: '2', actual: '3' })]);
+      expect(missing).toEqual([expect.objectContaining({ type: 'missing_deposits', expected: '4', actual: '3' })]);
+    });
+
+    it('should flag a pot that differs from deposits x entry fee', () => {
+      const room = { status: 0, depositedCount: 2, potNano: ENTRY };
+
+      expect(findDiscrepancies(room, { matchStatus: 'waiting', deposits: 2, entryNano: ENTRY })).toEqual([
+        expect.objectContaining({ type: 'pot_mismatch', expected: (2n * ENTRY).toString(), actual: ENTRY.toString() }),
+      ]);
+    });
+
+    it('should not compare the pot of a finished match', () => {
+      const room = { status: 2, depositedCount: 2, potNano: 0n };
+
+      expect(findDiscrepancies(room, { matchStatus: 'finished', deposits: 2, entryNano: ENTRY })).toEqual([]);
+    });
+
+    it('should flag playing matches with unlocked rooms and open matches with closed rooms', () => {
+      const recorded = { deposits: 2, entryNano: ENTRY };
+      const unlocked = { status: 0, depositedCount: 2, potNano: 2n * ENTRY };
+      const cancelled = { status: 3, depositedCount: 2, potNano: 2n * ENTRY };
+
+      expect(findDiscrepancies(unlocked, { ...recorded, matchStatus: 'playing' })[0].type).toBe('room_not_locked');
+      expect(findDiscrepancies(unlocked, { ...recorded, matchStatus: 'waiting' })).toEqual([]);
+      expect(findDiscrepancies(unlocked, { ...recorded, matchStatus: 'locking' })).toEqual([]);
+      expect(findDiscrepancies(cancelled, { ...recorded, matchStatus: 'waiting' })[0]).toEqual(
+        expect.objectContaining({ type: 'room_closed', actual: 'cancelled' })
+      );
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { scoreRound, resolveScoring, getScoringStrategy } from '../scoring.js';
+import { calculateRoundScores } from '../gameLogic.js';
+import { Player } from '../../types/game';
+
+const END_TIME = 10000;
+
+function makePlayers(): Player[] {
+  return [
+    { id: 'p1', name: 'Alice', score: 0, pressTime: 9000 }, // delta 1000
+    { id: 'p2', name: 'Bob', score: 0, pressTime: 9900 }, // delta 100
+    { id: 'p3', name: 'Carol', score: 0, pressTime: 10500 }, // late
+    { id: 'p4', name: 'Dave', score: 0 }, // did not press
+  ];
+}
+
+function byId(players: Player[], id: string): Player {
+  const player = players.find((p) => p.id === id);
+  if (!player) throw new Error(`Player ${id} not found`);
+  return player;
+}
+
+describe('scoring', () => {
+  describe('closest', () => {
+    it('should rank presses by distance to end time', () => {
+      const result = scoreRound(makePlayers(), END_TIME, { strategy: 'closest' });
+
+      expect(byId(result, 'p2')).toMatchObject({ position: 1, score: 9 });
+      expect(byId(result, 'p1')).toMatchObject({ position: 2, score: 8 });
+      expect(byId(result, 'p3')).toMatchObject({ position: undefined, score: 0 });
+      expect(byId(result, 'p4')).toMatchObject({ position: undefined, score: 0 });
+    });
+
+    it('should match legacy calculateRoundScores', () => {
+      const players = makePlayers();
+      expect(calculateRoundScores(players, END_TIME)).toEqual(
+        scoreRound(players, END_TIME, { strategy: 'closest', params: { maxScore: 10, minScore: 1 } })
+      );
+    });
+
+    it('should never go below minScore', () => {
+      const players: Player[] = Array.from({ length: 12 }, (_, i) => ({
+        id: `p${i}`,
+        name: `Player ${i}`,
+        score: 0,
+        pressTime: 1000 + i,
+      }));
+      const result = scoreRound(players, END_TIME, { strategy: 'closest' });
+      expect(Math.min(...result.map((p) => p.score))).toBe(1);
+    });
+  });
+
+  describe('linear_decay', () => {
+    it('should decay score linearly with delta', () => {
+      const result = scoreRound(makePlayers(), END_TIME, {
+        strategy: 'linear_decay',
+        params: { maxScore: 10, minScore: 0, windowMs: 2000 },
+      });
+
+      expect(byId(result, 'p2').score).toBe(10); // 1 - 100/2000 = 0.95 -> 9.5 -> 10
+      expect(byId(result, 'p1').score).toBe(5); // 1 - 1000/2000 = 0.5
+      expect(byId(result, 'p3').score).toBe(0);
+    });
+  });
+
+  describe('winner_takes_all', () => {
+    it('should only score the closest press', () => {
+      const result = scoreRound(makePlayers(), END_TIME, { strategy: 'winner_takes_all' });
+
+      expect(byId(result, 'p2')).toMatchObject({ position: 1, score: 10 });
+      expect(byId(result, 'p1')).toMatchObject({ position: 2, score: 0 });
+    });
+
+    it('should score all players tied for the closest press', () => {
+      const players = makePlayers();
+      byId(players, 'p1').pressTime = 9900;
+      const result = scoreRound(players, END_TIME, { strategy: 'winner_takes_all', params: { points: 5 } });
+
+      expect(byId(result, 'p1').score).toBe(5);
+      expect(byId(result, 'p2').score).toBe(5);
+    });
+  });
+
+  describe('late_penalty', () => {
+    it('should penalise late presses but not missing presses', () => {
+      const result = scoreRound(makePlayers(), END_TIME, {
+        strategy: 'late_penalty',
+        params: { penalty: 4 },
+      });
+
+      expect(byId(result, 'p2').score).toBe(9);
+      expect(byId(result, 'p3').score).toBe(-4);
+      expect(byId(result, 'p4').score).toBe(0);
+    });
+  });
+
+  describe('resolveScoring', () => {
+    it('should merge preset params over strategy defaults', () => {
+      const { params } = resolveScoring({ strategy: 'closest', params: { maxScore: 5 } });
+      expect(params).toEqual({ maxScore: 5, minScore: 1 });
+    });
+
+    it('should throw for unknown strategy', () => {
+      expect(() => getScoringStrategy('unknown' as any)).toThrow('Unknown scoring strategy');
+    });
+  });
+});
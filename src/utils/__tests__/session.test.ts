@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { createSessionToken, verifySessionToken } from '../session.js';
+
+const SECRET = 'test-secret';
+
+describe('session', () => {
+  describe('verifySessionToken', () => {
+    it('should verify a valid token', () => {
+      const token = createSessionToken('p1', 'match_1', 1000, SECRET);
+
+      expect(verifySessionToken(token, 2000, SECRET)).toMatchObject({ playerId: 'p1', matchId: 'match_1' });
+    });
+
+    it('should reject tampered tokens', () => {
+      const token = createSessionToken('p1', 'match_1', 1000, SECRET);
+      const [, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ playerId: 'p2', matchId: 'match_1', expiresAt: Number.MAX_SAFE_INTEGER })).toString('base64url');
+
+      expect(verifySessionToken(`${forged}.${signature}`, 2000, SECRET)).toBeNull();
+      expect(verifySessionToken(token, 2000, 'other-secret')).toBeNull();
+      expect(verifySessionToken('garbage', 2000, SECRET)).toBeNull();
+    });
+
+    it('should reject expired tokens', () => {
+      const token = createSessionToken('p1', 'match_1', 1000, SECRET);
+      const { expiresAt } = verifySessionToken(token, 1000, SECRET)!;
+
+      expect(verifySessionToken(token, expiresAt, SECRET)).toBeNull();
+    });
+  });
+});
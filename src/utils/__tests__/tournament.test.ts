@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { advancingCount, distributePrizes, rankStandings, splitIntoGroups } from '../tournament.js';
+import { determineTopPlayers } from '../gameLogic.js';
+import { TournamentEntry } from '../../types/game';
+
+function entry(playerId: string, seed: number, fields: Partial<TournamentEntry> = {}): TournamentEntry {
+  return { playerId, playerName: playerId, seed, status: 'active', points: 0, lastScore: 0, ...fields };
+}
+
+describe('tournament', () => {
+  describe('splitIntoGroups', () => {
+    it('should split players into balanced groups of at most matchSize', () => {
+      const ids = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'];
+
+      expect(splitIntoGroups(ids, 4)).toEqual([['a', 'b', 'c'], ['d', 'e', 'f'], ['g', 'h', 'i']]);
+      expect(splitIntoGroups(ids.slice(0, 5), 4)).toEqual([['a', 'b', 'c'], ['d', 'e']]);
+      expect(splitIntoGroups(ids.slice(0, 4), 4)).toEqual([['a', 'b', 'c', 'd']]);
+    });
+
+    it('should return no groups for no players', () => {
+      expect(splitIntoGroups([], 4)).toEqual([]);
+    });
+  });
+
+  describe('advancingCount', () => {
+    it('should knock at least one player out of every match', () => {
+      expect(advancingCount(4, 2)).toBe(2);
+      expect(advancingCount(2, 2)).toBe(1);
+      expect(advancingCount(3, 5)).toBe(2);
+    });
+  });
+
+  describe('determineTopPlayers', () => {
+    it('should take the top players by score, ties going to the earlier seat', () => {
+      const players = [
+        { id: 'a', name: 'A', score: 10 },
+        { id: 'b', name: 'B', score: 20 },
+        { id: 'c', name: 'C', score: 10 },
+        { id: 'd', name: 'D', score: 5 },
+      ];
+
+      expect(determineTopPlayers(players, 2).map((p) => p.id)).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('rankStandings', () => {
+    it('should place bracket players by elimination stage, then last score', () => {
+      const standings = rankStandings(
+        [
+          entry('a', 1, { status: 'eliminated', eliminatedStage: 1, lastScore: 12 }),
+          entry('b', 2, { lastScore: 20 }),
+          entry('c', 3, { lastScore: 25 }),
+          entry('d', 4, { status: 'eliminated', eliminatedStage: 1, lastScore: 8 }),
+        ],
+        'bracket'
+      );
+
+      expect(standings).toEqual([
+        { playerId: 'c', place: 1 },
+        { playerId: 'b', place: 2 },
+        { playerId: 'a', place: 3 },
+        { playerId: 'd', place: 4 },
+      ]);
+    });
+
+    it('should place swiss players by points and share places on ties', () => {
+      const standings = rankStandings(
+        [entry('a', 1, { points: 30 }), entry('b', 2, { points: 45 }), entry('c', 3, { points: 30 }), entry('d', 4, { points: 10 })],
+        'swiss'
+      );
+
+      expect(standings).toEqual([
+        { playerId: 'b', place: 1 },
+        { playerId: 'a', place: 2 },
+        { playerId: 'c', place: 2 },
+        { playerId: 'd', place: 4 },
+      ]);
+    });
+  });
+
+  describe('distributePrizes', () => {
+    it('should split the pool by placement table', () => {
+      const prizes = distributePrizes(
+        1000,
+        [50, 30, 20],
+        [
+          { playerId: 'a', place: 1 },
+          { playerId: 'b', place: 2 },
+          { playerId: 'c', place: 3 },
+          { playerId: 'd', place: 4 },
+        ]
+      );
+
+      expect(Object.fromEntries(prizes)).toEqual({ a: 500, b: 300, c: 200 });
+    });
+
+    it('should split prizes of shared places', () => {
+      const prizes = distributePrizes(
+        1000,
+        [50, 30, 20],
+        [
+          { playerId: 'a', place: 1 },
+          { playerId: 'b', place: 2 },
+          { playerId: 'c', place: 2 },
+          { playerId: 'd', place: 4 },
+        ]
+      );
+
+      expect(Object.fromEntries(prizes)).toEqual({ a: 500, b: 250, c: 250 });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { AchievementDefinition, AchievementRule, RoomType } from '../types/game';
+
+/**
+ * Achievement rule evaluation
+ * Rules are checked against one player's view of a finished match plus their match history
+ */
+
+export interface MatchCounters {
+  played: number;
+  wins: number;
+}
+
+export interface AchievementContext {
+  presses: Array<{ endTime: number; pressTime?: number }>; // Player's rounds of the finished match
+  matchScore: number;
+  currentStreak: number; // Won matches in a row, including the finished match
+  total: MatchCounters; // Finished matches, including the finished match
+  byRoomType: Partial<Record<RoomType, MatchCounters>>;
+}
+
+/**
+ * Check if a rule is met
+ */
+export function isRuleMet(rule: AchievementRule, context: AchievementContext): boolean {
+  switch (rule.type) {
+    case 'press_within':
+      return context.presses.some(
+        (press) => !!press.pressTime && press.pressTime <= press.endTime && press.endTime - press.pressTime <= rule.ms
+      );
+    case 'win_streak':
+      return context.currentStreak >= rule.count;
+    case 'matches_played':
+      return counters(context, rule.roomType).played >= rule.count;
+    case 'wins':
+      return counters(context, rule.roomType).wins >= rule.count;
+    case 'match_score':
+      return context.matchScore >= rule.score;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Achievements of the catalogue newly met in this context
+ * @param unlockedIds - achievements the player already has
+ */
+export function findUnlocked(
+  definitions: AchievementDefinition[],
+  unlockedIds: Set<string>,
+  context: AchievementContext
+): AchievementDefinition[] {
+  return definitions.filter((definition) => !unlockedIds.has(definition.id) && isRuleMet(definition.rule, context));
+}
+
+/**
+ * Longest win streak any rule asks for (how much match history is needed)
+ */
+export function maxStreakRequired(definitions: AchievementDefinition[]): number {
+  return definitions.reduce(
+    (max, definition) => (definition.rule.type === 'win_streak' ? Math.max(max, definition.rule.count) : max),
+    0
+  );
+}
+
+function counters(context: AchievementContext, roomType?: RoomType): MatchCounters {
+  if (!roomType) {
+    return context.total;
+  }
+  return context.byRoomType[roomType] || { played: 0, wins: 0 };
+}
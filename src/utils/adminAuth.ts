@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Express middleware for admin endpoints
+ * Requires x-admin-key header matching ADMIN_API_KEY.
+ * Admin API is disabled when ADMIN_API_KEY is not configured.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(503).json({ error: 'Admin API is not configured' });
+    return;
+  }
+
+  const providedKey = req.header('x-admin-key');
+  if (!providedKey || !safeEqual(providedKey, adminKey)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { RoundReveal } from '../types/game';
+
+/**
+ * Provably fair round end times (commit-reveal)
+ *
+ * At round start the server picks a random seed, derives endTime from it and
+ * publishes commitment = sha256(`${seed}:${endTime}`). At round end the seed is
+ * revealed, so anyone can recompute endTime and the commitment.
+ */
+
+/**
+ * Derive round end time from seed
+ * endTime = minEndTime + (first 4 bytes of sha256(seed) as uint32) mod (maxEndTime - minEndTime + 1)
+ * @param seed - hex seed
+ * @param minEndTime - minimum end time in milliseconds
+ * @param maxEndTime - maximum end time in milliseconds
+ * @returns round end time in milliseconds
+ */
+export function deriveEndTime(seed: string, minEndTime: number, maxEndTime: number): number {
+  const digest = crypto.createHash('sha256').update(seed).digest();
+  const value = digest.readUInt32BE(0);
+  return minEndTime + (value % (maxEndTime - minEndTime + 1));
+}
+
+/**
+ * Compute commitment for seed and end time
+ */
+export function computeCommitment(seed: string, endTime: number): string {
+  return crypto.createHash('sha256').update(`${seed}:${endTime}`).digest('hex');
+}
+
+/**
+ * Create a new round commitment
+ * @param minSeconds - minimum time in seconds
+ * @param maxSeconds - maximum time in seconds
+ */
+export function createRoundCommitment(minSeconds: number = 5, maxSeconds: number = 15): RoundReveal {
+  const minEndTime = Math.floor(minSeconds * 1000);
+  const maxEndTime = Math.floor(maxSeconds * 1000);
+  const seed = crypto.randomBytes(32).toString('hex');
+  const endTime = deriveEndTime(seed, minEndTime, maxEndTime);
+
+  return {
+    commitment: computeCommitment(seed, endTime),
+    seed,
+    endTime,
+    minEndTime,
+    maxEndTime,
+  };
+}
+
+/**
+ * Verify revealed round against its commitment
+ * Checks both the commitment hash and that endTime was derived from the seed
+ */
+export function verifyRoundReveal(reveal: RoundReveal): boolean {
+  if (computeCommitment(reveal.seed, reveal.endTime) !== reveal.commitment) {
+    return false;
+  }
+  return deriveEndTime(reveal.seed, reveal.minEndTime, reveal.maxEndTime) === reveal.endTime;
+}
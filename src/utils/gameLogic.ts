@@ -1,7 +1,9 @@
-import { Player, RoundResult } from '../types/game';
+import { Player } from '../types/game';
+import { scoreRound } from './scoring.js';
 
 /**
- * Calculate scores for players in a round
+ * Calculate scores for players in a round using the default "closest" rules
+ * (closest press before the end wins, score = max(1, 10 - position))
  * @param players - array of players with their pressTime
  * @param endTime - round end time in milliseconds from round start
  * @returns array of players with assigned scores and positions
@@ -10,58 +12,7 @@ export function calculateRoundScores(
   players: Player[],
   endTime: number
 ): Player[] {
-  // Filter players who pressed before round end
-  const validPlayers = players
-    .filter((player) => {
-      if (!player.pressTime) return false;
-      return player.pressTime <= endTime;
-    })
-    .map((player) => ({
-      ...player,
-      delta: endTime - (player.pressTime || 0), // distance to end
-    }));
-
-  // Sort by delta (smaller = closer to end)
-  validPlayers.sort((a, b) => a.delta - b.delta);
-
-  // Assign scores
-  const scoredPlayers = validPlayers.map((player, index) => {
-    const position = index + 1;
-    const score = Math.max(1, 10 - position);
-    return {
-      ...player,
-      score,
-      position,
-    };
-  });
-
-  // Players who didn't press or pressed too late - get 0
-  const invalidPlayers = players
-    .filter((player) => {
-      if (!player.pressTime) return true;
-      return player.pressTime > endTime;
-    })
-    .map((player) => ({
-      ...player,
-      score: 0,
-      position: undefined,
-    }));
-
-  // Combine and return all players
-  const allPlayers = [...scoredPlayers, ...invalidPlayers];
-
-  return allPlayers.map((player) => {
-    const existingPlayer = players.find((p) => p.id === player.id);
-    if (existingPlayer) {
-      return {
-        ...existingPlayer,
-        score: player.score, // Score only for this round
-        position: player.position,
-        pressTime: player.pressTime,
-      };
-    }
-    return player;
-  });
+  return scoreRound(players, endTime, { strategy: 'closest' });
 }
 
 /**
@@ -87,6 +38,21 @@ export function determineWinners(players: Player[]): Player[] {
   return players.filter((p) => (p.score || 0) === maxScore);
 }
 
+/**
+ * Determine the top players of a game (tournament advancement)
+ * Ties at the cut go to the player listed first (seat order)
+ * @param players - array of players with final scores
+ * @param count - number of players to take
+ * @returns top players, best first
+ */
+export function determineTopPlayers(players: Player[], count: number): Player[] {
+  return players
+    .map((player, seat) => ({ player, seat }))
+    .sort((a, b) => (b.player.score || 0) - (a.player.score || 0) || a.seat - b.seat)
+    .slice(0, Math.max(0, count))
+    .map(({ player }) => player);
+}
+
 /**
  * Calculate payout for winners
  * @param totalBank - total bank (entryFee * number of players)
@@ -0,0 +1,77 @@
+import { Match, Player } from '../types/game';
+
+/**
+ * Match as sent to clients: secret and internal fields stripped
+ */
+export type MatchView = Omit<Match, 'roundEndTime' | 'statsUpdated'>;
+
+export type MatchAudience = 'player' | 'spectator' | 'admin';
+
+/**
+ * Hide press details of a player while the round is in progress
+ * Other players must not know who pressed (and when) before the round ends
+ */
+function hideRoundPress(player: Player): Player {
+  const { pressTime, position, ...rest } = player;
+  return rest;
+}
+
+function stripSecrets(match: Match, canSeePress: (player: Player) => boolean): MatchView {
+  const { roundEndTime, statsUpdated, ...publicMatch } = match;
+  const roundInProgress = !!match.roundStartTime;
+
+  const mapPlayers = (players: Player[]) =>
+    players.map((player) =>
+      roundInProgress && !canSeePress(player) ? hideRoundPress(player) : { ...player }
+    );
+
+  return {
+    ...publicMatch,
+    players: mapPlayers(match.players),
+    allPlayers: match.allPlayers ? mapPlayers(match.allPlayers) : undefined,
+  };
+}
+
+/**
+ * Player view: no hidden round end time, and only the viewer's own press
+ * is visible while the round is in progress
+ * @param viewerId - player receiving the view (omit for broadcasts to the match room)
+ */
+export function toPlayerView(match: Match, viewerId?: string): MatchView {
+  return stripSecrets(match, (player) => viewerId !== undefined && player.id === viewerId);
+}
+
+/**
+ * Spectator view: no hidden round end time, no presses until the round ends
+ * and no invite code of private matches
+ */
+export function toSpectatorView(match: Match): MatchView {
+  const { inviteCode, ...view } = stripSecrets(match, () => false);
+  return view;
+}
+
+/**
+ * Admin view: full match state, including secret fields
+ */
+export function toAdminView(match: Match): Match {
+  return {
+    ...match,
+    players: match.players.map((player) => ({ ...player })),
+    allPlayers: match.allPlayers?.map((player) => ({ ...player })),
+  };
+}
+
+/**
+ * Serialize match for the given audience
+ */
+export function serializeMatch(match: Match, audience: MatchAudience, viewerId?: string): MatchView | Match {
+  switch (audience) {
+    case 'admin':
+      return toAdminView(match);
+    case 'spectator':
+      return toSpectatorView(match);
+    case 'player':
+    default:
+      return toPlayerView(match, viewerId);
+  }
+}
@@ -0,0 +1,103 @@
+import { RoomType } from '../types/game';
+
+/**
+ * Derived player profile statistics
+ * Computed from persisted round results and finished matches (see PlayerProfileService)
+ */
+
+export const PERFECT_PRESS_MS = 50; // Press at most this far before the round end counts as perfect
+
+export interface RoundPress {
+  endTime: number; // Round end time in ms from round start
+  pressTime: number | null; // Player's press (null if the player did not press)
+  position: number | null; // Round position (null if missed or too late)
+}
+
+export interface PressStats {
+  rounds: number;
+  pressed: number; // Pressed before the round end
+  late: number; // Pressed after the round end
+  missed: number; // Did not press
+  averageDeltaMs: number | null; // Average time between press and round end (in-time presses)
+  perfectPresses: number;
+  positions: Record<number, number>; // Round position -> rounds
+}
+
+export interface WinStreaks {
+  current: number;
+  longest: number;
+}
+
+/**
+ * Summarize a player's presses over all rounds played
+ * A press at 0 ms counts as no press, like in round scoring
+ */
+export function summarizePresses(rounds: RoundPress[]): PressStats {
+  const stats: PressStats = {
+    rounds: rounds.length,
+    pressed: 0,
+    late: 0,
+    missed: 0,
+    averageDeltaMs: null,
+    perfectPresses: 0,
+    positions: {},
+  };
+
+  let totalDelta = 0;
+  for (const round of rounds) {
+    if (!round.pressTime) {
+      stats.missed++;
+      continue;
+    }
+    if (round.pressTime > round.endTime) {
+      stats.late++;
+      continue;
+    }
+
+    const delta = round.endTime - round.pressTime;
+    stats.pressed++;
+    totalDelta += delta;
+    if (delta <= PERFECT_PRESS_MS) {
+      stats.perfectPresses++;
+    }
+    if (round.position) {
+      stats.positions[round.position] = (stats.positions[round.position] || 0) + 1;
+    }
+  }
+
+  if (stats.pressed > 0) {
+    stats.averageDeltaMs = Math.round(totalDelta / stats.pressed);
+  }
+  return stats;
+}
+
+/**
+ * Current and longest runs of won matches
+ * @param results - isWinner of finished matches, oldest first
+ */
+export function winStreaks(results: boolean[]): WinStreaks {
+  let current = 0;
+  let longest = 0;
+  for (const won of results) {
+    current = won ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return { current, longest };
+}
+
+/**
+ * Most played room type (ties go to the type played most recently)
+ * @param roomTypes - room types of finished matches, oldest first
+ */
+export function favouriteRoomType(roomTypes: RoomType[]): RoomType | null {
+  const counts = new Map<RoomType, number>();
+  let favourite: RoomType | null = null;
+  for (const roomType of roomTypes) {
+    const count = (counts.get(roomType) || 0) + 1;
+    counts.set(roomType, count);
+    if (!favourite || count >= counts.get(favourite)!) {
+      favourite = roomType;
+    }
+  }
+  return favourite;
+}
@@ -0,0 +1,65 @@
+import { Match, Player, QuestGoal, QuestPeriod, RoundResult } from '../types/game';
+
+/**
+ * Quest periods and progress increments
+ * Periods are aligned to UTC so every server instance agrees on resets
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the quest period containing now
+ */
+export function periodStart(period: QuestPeriod, now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === 'weekly') {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setTime(start.getTime() - daysSinceMonday * DAY_MS);
+  }
+  return start;
+}
+
+/**
+ * End of the quest period starting at start (exclusive)
+ */
+export function periodEnd(period: QuestPeriod, start: Date): Date {
+  return new Date(start.getTime() + (period === 'weekly' ? 7 : 1) * DAY_MS);
+}
+
+/**
+ * Progress a finished round adds to a round goal (0 for match goals)
+ * @param player - the player's entry of the round result
+ */
+export function roundProgress(goal: QuestGoal, player: Player): number {
+  if (goal.type === 'score_rounds') {
+    return (player.score || 0) > 0 ? 1 : 0;
+  }
+  return 0;
+}
+
+/**
+ * Progress a finished match adds to a match goal (0 for round goals)
+ */
+export function matchProgress(goal: QuestGoal, match: Match, playerId: string, isWinner: boolean): number {
+  switch (goal.type) {
+    case 'play_matches':
+      return !goal.roomType || goal.roomType === match.roomType ? 1 : 0;
+    case 'win_matches':
+      return isWinner && (!goal.roomType || goal.roomType === match.roomType) ? 1 : 0;
+    case 'score_every_round':
+      return scoredEveryRound(match, playerId) ? 1 : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Matches restored after a restart miss earlier round results and never count
+ */
+function scoredEveryRound(match: Match, playerId: string): boolean {
+  const rounds: RoundResult[] = match.roundResults;
+  const roundNumbers = new Set(rounds.map((round) => round.roundNumber));
+  return roundNumbers.size > 0 && roundNumbers.size === match.currentRound && rounds.every((round) =>
+    round.players.some((player) => player.id === playerId && (player.score || 0) > 0)
+  );
+}
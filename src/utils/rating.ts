@@ -0,0 +1,110 @@
+/**
+ * Multi-player Elo rating
+ *
+ * A match with N players is treated as N * (N - 1) / 2 pairwise games decided by
+ * final placement. Each player's rating changes by K / (N - 1) * sum(actual - expected)
+ * over all opponents, so a match moves a rating about as much as one 1v1 game.
+ */
+
+export const DEFAULT_RATING = 1200;
+export const PROVISIONAL_GAMES = 20; // Rated games before the rating is considered established
+export const K_PROVISIONAL = 40; // Faster convergence for new players
+export const K_ESTABLISHED = 20;
+
+export interface RatingEntry {
+  playerId: string;
+  rating: number;
+  ratedGames: number;
+  placement: number; // 1 = best, equal placements are ties
+}
+
+export interface RatingChange {
+  playerId: string;
+  oldRating: number;
+  newRating: number;
+  delta: number;
+}
+
+/**
+ * Expected score of a player against an opponent (probability of placing higher)
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * K-factor for a player
+ */
+export function kFactor(ratedGames: number): number {
+  return ratedGames < PROVISIONAL_GAMES ? K_PROVISIONAL : K_ESTABLISHED;
+}
+
+/**
+ * Calculate rating changes for all players of a finished match
+ */
+export function calculateRatingChanges(entries: RatingEntry[]): RatingChange[] {
+  if (entries.length < 2) {
+    return entries.map((entry) => ({
+      playerId: entry.playerId,
+      oldRating: entry.rating,
+      newRating: entry.rating,
+      delta: 0,
+    }));
+  }
+
+  const opponents = entries.length - 1;
+
+  return entries.map((entry) => {
+    let sum = 0;
+    for (const opponent of entries) {
+      if (opponent.playerId === entry.playerId) continue;
+
+      const actual = entry.placement < opponent.placement ? 1 : entry.placement === opponent.placement ? 0.5 : 0;
+      sum += actual - expectedScore(entry.rating, opponent.rating);
+    }
+
+    const delta = Math.round((kFactor(entry.ratedGames) / opponents) * sum);
+    return {
+      playerId: entry.playerId,
+      oldRating: entry.rating,
+      newRating: entry.rating + delta,
+      delta,
+    };
+  });
+}
+
+/**
+ * Final placements from scores (competition ranking: 1, 2, 2, 4)
+ * Players who left early are placed last regardless of score
+ */
+export function placementsFromScores(
+  players: { id: string; score: number }[],
+  leftPlayerIds: Set<string> = new Set()
+): Map<string, number> {
+  const sorted = [...players].sort((a, b) => {
+    const leftA = leftPlayerIds.has(a.id) ? 1 : 0;
+    const leftB = leftPlayerIds.has(b.id) ? 1 : 0;
+    if (leftA !== leftB) return leftA - leftB;
+    return (b.score || 0) - (a.score || 0);
+  });
+
+  const placements = new Map<string, number>();
+  sorted.forEach((player, index) => {
+    const previous = sorted[index - 1];
+    const tied =
+      previous &&
+      leftPlayerIds.has(previous.id) === leftPlayerIds.has(player.id) &&
+      (leftPlayerIds.has(player.id) || (previous.score || 0) === (player.score || 0));
+    placements.set(player.id, tied ? placements.get(previous.id)! : index + 1);
+  });
+
+  return placements;
+}
+
+/**
+ * Rating window for skill-based matchmaking
+ * Starts narrow and widens the longer a match has been waiting, so nobody waits forever
+ */
+export function ratingWindow(waitedMs: number, baseWindow: number, growthPerSecond: number): number {
+  return baseWindow + Math.max(0, waitedMs / 1000) * growthPerSecond;
+}
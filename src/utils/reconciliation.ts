@@ -0,0 +1,93 @@
+/**
+ * Escrow reconciliation checks
+ * Compare the contract's room state with deposits recorded in the database (see EscrowReconciliationService)
+ */
+
+import { roomStatusName } from './roomId.js';
+
+export type DiscrepancyType =
+  | 'room_missing' // Deposits recorded, but the contract has no room
+  | 'untracked_deposits' // Contract holds more deposits than recorded (deposits missed by the blockchain worker)
+  | 'missing_deposits' // Recorded deposits the contract does not hold
+  | 'pot_mismatch' // Pot differs from deposits x entry fee
+  | 'room_not_locked' // Match is playing, but the room still accepts deposits and refunds
+  | 'room_closed'; // Match is open, but the room is finished or cancelled
+
+export interface Discrepancy {
+  type: DiscrepancyType;
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface ContractRoom {
+  status: number; // 0=OPEN, 1=LOCKED, 2=FINISHED, 3=CANCELED
+  depositedCount: number;
+  potNano: bigint;
+}
+
+export interface RecordedDeposits {
+  matchStatus: string;
+  deposits: number; // PAID intents plus refunds not yet confirmed on-chain
+  entryNano: bigint; // Match entry fee
+}
+
+/**
+ * Find discrepancies between a contract room and the deposits recorded for its match
+ * @param room - contract room state (null if the room does not exist)
+ */
+export function findDiscrepancies(room: ContractRoom | null, recorded: RecordedDeposits): Discrepancy[] {
+  if (!room) {
+    return recorded.deposits > 0
+      ? [{ type: 'room_missing', message: 'Room not found in escrow contract', expected: String(recorded.deposits), actual: '0' }]
+      : [];
+  }
+
+  const discrepancies: Discrepancy[] = [];
+
+  if (room.depositedCount > recorded.deposits) {
+    discrepancies.push({
+      type: 'untracked_deposits',
+      message: `Contract holds ${room.depositedCount - recorded.deposits} deposit(s) not recorded in the database`,
+      expected: String(recorded.deposits),
+      actual: String(room.depositedCount),
+    });
+  } else if (room.depositedCount < recorded.deposits) {
+    discrepancies.push({
+      type: 'missing_deposits',
+      message: `${recorded.deposits - room.depositedCount} recorded deposit(s) not held by the contract`,
+      expected: String(recorded.deposits),
+      actual: String(room.depositedCount),
+    });
+  }
+
+  // The pot of a finished match has been paid out
+  const expectedPot = BigInt(room.depositedCount) * recorded.entryNano;
+  if (recorded.entryNano > 0n && recorded.matchStatus !== 'finished' && room.potNano !== expectedPot) {
+    discrepancies.push({
+      type: 'pot_mismatch',
+      message: 'Pot differs from deposits x entry fee',
+      expected: expectedPot.toString(),
+      actual: room.potNano.toString(),
+    });
+  }
+
+  if (recorded.matchStatus === 'playing' && room.status === 0) {
+    discrepancies.push({
+      type: 'room_not_locked',
+      message: 'Match is playing but the room is not locked',
+      expected: 'locked',
+      actual: roomStatusName(room.status),
+    });
+  }
+
+  if (['waiting', 'locking', 'playing'].includes(recorded.matchStatus) && room.status >= 2) {
+    discrepancies.push({
+      type: 'room_closed',
+      message: `Match is ${recorded.matchStatus} but the room is ${roomStatusName(room.status) ?? room.status}`,
+      actual: roomStatusName(room.status) ?? String(room.status),
+    });
+  }
+
+  return discrepancies;
+}
@@ -5,6 +5,13 @@
 
 const MASK_16 = 0xffffn;
 
+/**
+ * Escrow contract room status names, indexed by status code (0=OPEN, 1=LOCKED, 2=FINISHED, 3=CANCELED)
+ */
+export const ROOM_STATUS_NAMES = ['open', 'locked', 'finished', 'cancelled'] as const;
+
+export type RoomStatusName = (typeof ROOM_STATUS_NAMES)[number];
+
 /**
  * Hash string to 16-bit value using FNV-1a algorithm
  * @param str Input string
@@ -66,3 +73,10 @@ export function roomIdFromString(roomIdStr: string): bigint {
   return BigInt(roomIdStr);
 }
 
+/**
+ * Name of a contract room status code
+ * @returns undefined for unknown codes
+ */
+export function roomStatusName(status: number): RoomStatusName | undefined {
+  return ROOM_STATUS_NAMES[status];
+}
@@ -0,0 +1,183 @@
+import { Player, ScoringConfig, ScoringStrategyId } from '../types/game';
+
+/**
+ * Round scoring strategy
+ * Receives players with their pressTime and returns the same players
+ * with score (for this round only) and position assigned
+ */
+export interface ScoringStrategy {
+  id: ScoringStrategyId;
+  defaultParams: Record<string, number>;
+  scoreRound(players: Player[], endTime: number, params: Record<string, number>): Player[];
+}
+
+interface RankedPress {
+  player: Player;
+  delta: number; // distance to end time in milliseconds
+  position: number;
+}
+
+/**
+ * Rank players who pressed before the round end (closest to end first)
+ */
+function rankPresses(players: Player[], endTime: number): RankedPress[] {
+  return players
+    .filter((player) => !!player.pressTime && player.pressTime <= endTime)
+    .map((player) => ({
+      player,
+      delta: endTime - (player.pressTime || 0),
+    }))
+    .sort((a, b) => a.delta - b.delta)
+    .map((press, index) => ({ ...press, position: index + 1 }));
+}
+
+/**
+ * Build round result: ranked players first, then players who did not press
+ * or pressed too late (no position)
+ * @param scoreRanked - score for a player who pressed in time
+ * @param scoreMissed - score for a player who did not press or pressed too late
+ */
+function buildRoundPlayers(
+  players: Player[],
+  endTime: number,
+  scoreRanked: (press: RankedPress, ranked: RankedPress[]) => number,
+  scoreMissed: (player: Player) => number = () => 0
+): Player[] {
+  const ranked = rankPresses(players, endTime);
+  const rankedIds = new Set(ranked.map((press) => press.player.id));
+
+  const rankedPlayers = ranked.map((press) => ({
+    ...press.player,
+    score: scoreRanked(press, ranked),
+    position: press.position,
+  }));
+
+  const missedPlayers = players
+    .filter((player) => !rankedIds.has(player.id))
+    .map((player) => ({
+      ...player,
+      score: scoreMissed(player),
+      position: undefined,
+    }));
+
+  return [...rankedPlayers, ...missedPlayers];
+}
+
+/**
+ * Closest press before the hidden end wins, score = max(minScore, maxScore - position)
+ */
+const closestStrategy: ScoringStrategy = {
+  id: 'closest',
+  defaultParams: { maxScore: 10, minScore: 1 },
+  scoreRound(players, endTime, params) {
+    return buildRoundPlayers(players, endTime, (press) =>
+      Math.max(params.minScore, params.maxScore - press.position)
+    );
+  },
+};
+
+/**
+ * Score decays linearly with the distance to the end time:
+ * maxScore at delta = 0, minScore once delta reaches windowMs
+ */
+const linearDecayStrategy: ScoringStrategy = {
+  id: 'linear_decay',
+  defaultParams: { maxScore: 10, minScore: 1, windowMs: 5000 },
+  scoreRound(players, endTime, params) {
+    return buildRoundPlayers(players, endTime, (press) => {
+      const ratio = Math.max(0, 1 - press.delta / params.windowMs);
+      return Math.max(params.minScore, Math.round(params.maxScore * ratio));
+    });
+  },
+};
+
+/**
+ * Only the closest press (and anyone tied with it) scores in a round
+ */
+const winnerTakesAllStrategy: ScoringStrategy = {
+  id: 'winner_takes_all',
+  defaultParams: { points: 10 },
+  scoreRound(players, endTime, params) {
+    return buildRoundPlayers(players, endTime, (press, ranked) =>
+      press.delta === ranked[0].delta ? params.points : 0
+    );
+  },
+};
+
+/**
+ * Same as closest, but pressing after the hidden end costs points
+ */
+const latePenaltyStrategy: ScoringStrategy = {
+  id: 'late_penalty',
+  defaultParams: { maxScore: 10, minScore: 1, penalty: 3 },
+  scoreRound(players, endTime, params) {
+    return buildRoundPlayers(
+      players,
+      endTime,
+      (press) => Math.max(params.minScore, params.maxScore - press.position),
+      (player) => (player.pressTime && player.pressTime > endTime ? -params.penalty : 0)
+    );
+  },
+};
+
+const SCORING_STRATEGIES: Record<ScoringStrategyId, ScoringStrategy> = {
+  closest: closestStrategy,
+  linear_decay: linearDecayStrategy,
+  winner_takes_all: winnerTakesAllStrategy,
+  late_penalty: latePenaltyStrategy,
+};
+
+/**
+ * Get scoring strategy by ID
+ */
+export function getScoringStrategy(id: ScoringStrategyId): ScoringStrategy {
+  const strategy = SCORING_STRATEGIES[id];
+  if (!strategy) {
+    throw new Error(`Unknown scoring strategy: ${id}`);
+  }
+  return strategy;
+}
+
+/**
+ * Check if a string is a known scoring strategy ID
+ */
+export function isScoringStrategyId(id: string): id is ScoringStrategyId {
+  return Object.prototype.hasOwnProperty.call(SCORING_STRATEGIES, id);
+}
+
+/**
+ * Resolve scoring config into a strategy and its effective parameters
+ * (preset params override strategy defaults)
+ */
+export function resolveScoring(config: ScoringConfig): {
+  strategy: ScoringStrategy;
+  params: Record<string, number>;
+} {
+  const strategy = getScoringStrategy(config.strategy);
+  return {
+    strategy,
+    params: { ...strategy.defaultParams, ...(config.params || {}) },
+  };
+}
+
+/**
+ * Score a round using the given scoring config
+ */
+export function scoreRound(players: Player[], endTime: number, config: ScoringConfig): Player[] {
+  const { strategy, params } = resolveScoring(config);
+  const roundPlayers = strategy.scoreRound(players, endTime, params);
+
+  // Keep the original player data, only overwrite round fields
+  return roundPlayers.map((player) => {
+    const existingPlayer = players.find((p) => p.id === player.id);
+    if (existingPlayer) {
+      return {
+        ...existingPlayer,
+        score: player.score, // Score only for this round
+        position: player.position,
+        pressTime: player.pressTime,
+      };
+    }
+    return player;
+  });
+}
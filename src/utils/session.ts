@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+
+const SESSION_TOKEN_TTL_MS = 6 * 60 * 60 * 1000; // Longer than any match
+
+/**
+ * Resumable match session (signed into the session token)
+ */
+export interface SessionPayload {
+  playerId: string;
+  matchId: string;
+  expiresAt: number;
+}
+
+let sessionSecret: string | null = null;
+
+/**
+ * Secret for session tokens (SESSION_SECRET, read on first use so .env is loaded)
+ */
+function getSessionSecret(): string {
+  if (!sessionSecret) {
+    sessionSecret = process.env.SESSION_SECRET || crypto.randomBytes(32).toString('hex');
+    if (!process.env.SESSION_SECRET) {
+      console.warn('⚠️ SESSION_SECRET not set, using random key (sessions do not survive restarts)');
+    }
+  }
+  return sessionSecret;
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Create a session token that lets a player resume a match from a new socket
+ * Format: base64url(JSON payload).base64url(HMAC-SHA256)
+ */
+export function createSessionToken(
+  playerId: string,
+  matchId: string,
+  now: number = Date.now(),
+  secret: string = getSessionSecret()
+): string {
+  const payload: SessionPayload = { playerId, matchId, expiresAt: now + SESSION_TOKEN_TTL_MS };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data, secret)}`;
+}
+
+/**
+ * Verify a session token
+ * @returns session payload, or null if the token is malformed, tampered with or expired
+ */
+export function verifySessionToken(
+  token: string,
+  now: number = Date.now(),
+  secret: string = getSessionSecret()
+): SessionPayload | null {
+  if (typeof token !== 'string') return null;
+
+  const [data, signature, ...rest] = token.split('.');
+  if (!data || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(data, secret));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as SessionPayload;
+    if (typeof payload.playerId !== 'string' || typeof payload.matchId !== 'string') return null;
+    if (typeof payload.expiresAt !== 'number' || payload.expiresAt <= now) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -59,3 +59,19 @@ export function parseTelegramUser(initData: string): {
   }
 }
 
+
+/**
+ * Build Telegram deep link that opens the Mini App with a private match invite
+ * Frontend reads start_param `invite_{code}` from initDataUnsafe
+ * Requires TELEGRAM_BOT_USERNAME (and TELEGRAM_MINI_APP_NAME for a named Mini App)
+ */
+export function buildInviteLink(inviteCode: string): string | null {
+  const botUsername = process.env.TELEGRAM_BOT_USERNAME;
+  if (!botUsername) return null;
+
+  const appName = process.env.TELEGRAM_MINI_APP_NAME;
+  const startParam = `invite_${inviteCode}`;
+  return appName
+    ? `https://t.me/${botUsername}/${appName}?startapp=${startParam}`
+    : `https://t.me/${botUsername}?startapp=${startParam}`;
+}
@@ -0,0 +1,105 @@
+import { TournamentEntry, TournamentFormat } from '../types/game';
+
+/**
+ * Tournament stage planning and placements
+ *
+ * Every stage splits the players into stage matches of at most matchSize players
+ * (group sizes differ by at most one). In a bracket the top N of each stage match
+ * advance until everyone left fits into a single final match; in swiss everyone
+ * plays every stage and stage scores add up to points.
+ */
+
+export interface Standing {
+  playerId: string;
+  place: number; // 1 = best, equal places are ties
+}
+
+/**
+ * Split players into stage match groups of at most matchSize players
+ * With matchSize 2 and an odd number of players the last group has one player (a bye)
+ * @param playerIds - players in seed order (swiss: sorted by points)
+ * @returns groups, filled in order so neighbours in the list meet each other
+ */
+export function splitIntoGroups(playerIds: string[], matchSize: number): string[][] {
+  if (playerIds.length === 0) return [];
+
+  const groupCount = Math.ceil(playerIds.length / matchSize);
+  const baseSize = Math.floor(playerIds.length / groupCount);
+  const largerGroups = playerIds.length % groupCount;
+
+  const groups: string[][] = [];
+  let offset = 0;
+  for (let i = 0; i < groupCount; i++) {
+    const size = baseSize + (i < largerGroups ? 1 : 0);
+    groups.push(playerIds.slice(offset, offset + size));
+    offset += size;
+  }
+  return groups;
+}
+
+/**
+ * Players advancing from a bracket stage match
+ * At least one player is knocked out of every match, so the bracket always shrinks
+ */
+export function advancingCount(groupSize: number, advancePerMatch: number): number {
+  return Math.max(1, Math.min(advancePerMatch, groupSize - 1));
+}
+
+/**
+ * Final standings of a tournament
+ * bracket - later elimination places higher, then the score of the last stage match
+ * swiss - total points
+ * Equal keys share a place (1, 2, 2, 4)
+ */
+export function rankStandings(entries: TournamentEntry[], format: TournamentFormat): Standing[] {
+  const key = (entry: TournamentEntry): number[] =>
+    format === 'bracket'
+      ? [entry.eliminatedStage ?? Number.MAX_SAFE_INTEGER, entry.lastScore]
+      : [entry.points];
+
+  const compare = (a: number[], b: number[]): number => {
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return b[i] - a[i];
+    }
+    return 0;
+  };
+
+  const sorted = [...entries].sort((a, b) => compare(key(a), key(b)) || a.seed - b.seed);
+
+  return sorted.map((entry, index) => {
+    let place = index + 1;
+    while (place > 1 && compare(key(sorted[place - 2]), key(entry)) === 0) {
+      place--;
+    }
+    return { playerId: entry.playerId, place };
+  });
+}
+
+/**
+ * Split a prize pool by placement table
+ * Players sharing a place split the prizes of the places they occupy
+ * @param prizeTable - percent of the pool by place (index 0 = 1st place)
+ * @returns playerId -> prize (players without a prize are omitted)
+ */
+export function distributePrizes(pool: number, prizeTable: number[], standings: Standing[]): Map<string, number> {
+  const prizes = new Map<string, number>();
+
+  const byPlace = new Map<number, string[]>();
+  for (const standing of standings) {
+    byPlace.set(standing.place, [...(byPlace.get(standing.place) || []), standing.playerId]);
+  }
+
+  for (const [place, playerIds] of byPlace) {
+    const percent = prizeTable
+      .slice(place - 1, place - 1 + playerIds.length)
+      .reduce((sum, p) => sum + p, 0);
+    if (percent <= 0) continue;
+
+    const prize = (pool * percent) / 100 / playerIds.length;
+    for (const playerId of playerIds) {
+      prizes.set(playerId, prize);
+    }
+  }
+
+  return prizes;
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { beginCell } from '@ton/core';
+import { EscrowOutboxWorker } from '../escrowOutboxWorker.js';
+import { escrowContractService } from '../../services/EscrowContractService.js';
+import { prisma } from '../../db/prisma.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    escrowOperation: {
+      count: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../services/EscrowContractService.js', () => ({
+  escrowContractService: {
+    isAdminWalletReady: vi.fn(),
+    getAdminSeqno: vi.fn(),
+    sendTransfer: vi.fn(),
+  },
+}));
+
+const BODY = beginCell().storeUint(0x4c4f434b, 32).endCell().toBoc().toString('base64');
+
+function operationRow(overrides: Record<string, any> = {}) {
+  return {
+    id: 'op_1',
+    opType: 'lock',
+    roomId: '42',
+    body: BODY,
+    value: { toString: () => '0.05' },
+    status: 'PENDING',
+    seqno: null,
+    attempts: 0,
+    lastError: null,
+    validUntil: null,
+    ...overrides,
+  };
+}
+
+describe('EscrowOutboxWorker', () => {
+  let worker: EscrowOutboxWorker;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    worker = new EscrowOutboxWorker();
+
+    vi.mocked(escrowContractService.isAdminWalletReady).mockReturnValue(true);
+    vi.mocked(escrowContractService.getAdminSeqno).mockResolvedValue(7);
+    vi.mocked(escrowContractService.sendTransfer).mockResolvedValue();
+    vi.mocked(prisma.escrowOperation.count).mockResolvedValue(1);
+    vi.mocked(prisma.escrowOperation.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.escrowOperation.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.escrowOperation.updateMany).mockResolvedValue({ count: 1 } as any);
+  });
+
+  it('should not read the seqno with an empty outbox', async () => {
+    vi.mocked(prisma.escrowOperation.count).mockResolvedValue(0);
+
+    await worker.processOutbox();
+
+    expect(escrowContractService.getAdminSeqno).not.toHaveBeenCalled();
+  });
+
+  it('should record the seqno before sending the next operation', async () => {
+    vi.mocked(prisma.escrowOperation.findFirst).mockResolvedValue(operationRow() as any);
+
+    await worker.processOutbox();
+
+    expect(prisma.escrowOperation.updateMany).toHaveBeenCalledWith({
+      where: { id: 'op_1', status: 'PENDING' },
+      data: expect.objectContaining({ status: 'SENT', seqno: 7, attempts: { increment: 1 } }),
+    });
+    expect(escrowContractService.sendTransfer).toHaveBeenCalledWith(expect.objectContaining({
+      seqno: 7,
+      value: 50000000n,
+    }));
+    expect(vi.mocked(prisma.escrowOperation.updateMany).mock.invocationCallOrder[0])
+      .toBeLessThan(vi.mocked(escrowContractService.sendTransfer).mock.invocationCallOrder[0]);
+  });
+
+  it('should confirm a sent operation once the wallet seqno moved past it', async () => {
+    vi.mocked(prisma.escrowOperation.findMany).mockResolvedValue([
+      operationRow({ status: 'SENT', seqno: 6, validUntil: new Date() }),
+    ] as any);
+
+    await worker.processOutbox();
+
+    expect(prisma.escrowOperation.update).toHaveBeenCalledWith({
+      where: { id: 'op_1' },
+      data: expect.objectContaining({ status: 'CONFIRMED' }),
+    });
+  });
+
+  it('should not send anything while a transfer is in flight', async () => {
+    vi.mocked(prisma.escrowOperation.findMany).mockResolvedValue([
+      operationRow({ status: 'SENT', seqno: 7, validUntil: new Date(Date.now() + 30000) }),
+    ] as any);
+    vi.mocked(prisma.escrowOperation.findFirst).mockResolvedValue(operationRow({ id: 'op_2' }) as any);
+
+    await worker.processOutbox();
+
+    expect(prisma.escrowOperation.update).not.toHaveBeenCalled();
+    expect(escrowContractService.sendTransfer).not.toHaveBeenCalled();
+  });
+
+  it('should queue an expired transfer again and resend it with the same seqno', async () => {
+    vi.mocked(prisma.escrowOperation.findMany).mockResolvedValue([
+      operationRow({ status: 'SENT', seqno: 7, attempts: 1, validUntil: new Date(Date.now() - 60000) }),
+    ] as any);
+    vi.mocked(prisma.escrowOperation.findFirst).mockResolvedValue(operationRow({ attempts: 1 }) as any);
+
+    await worker.processOutbox();
+
+    expect(prisma.escrowOperation.update).toHaveBeenCalledWith({
+      where: { id: 'op_1' },
+      data: { status: 'PENDING', seqno: null, validUntil: null, lastError: 'Transfer expired' },
+    });
+    expect(escrowContractService.sendTransfer).toHaveBeenCalledWith(expect.objectContaining({ seqno: 7 }));
+  });
+
+  it('should mark an operation FAILED after the last expired attempt', async () => {
+    vi.mocked(prisma.escrowOperation.findMany).mockResolvedValue([
+      operationRow({ status: 'SENT', seqno: 7, attempts: 5, validUntil: new Date(Date.now() - 60000) }),
+    ] as any);
+
+    await worker.processOutbox();
+
+    expect(prisma.escrowOperation.update).toHaveBeenCalledWith({
+      where: { id: 'op_1' },
+      data: expect.objectContaining({ status: 'FAILED' }),
+    });
+  });
+
+  it('should keep the operation SENT when sending throws', async () => {
+    vi.mocked(prisma.escrowOperation.findFirst).mockResolvedValue(operationRow() as any);
+    vi.mocked(escrowContractService.sendTransfer).mockRejectedValue(new Error('Network error'));
+
+    await worker.processOutbox();
+
+    expect(prisma.escrowOperation.update).toHaveBeenCalledWith({
+      where: { id: 'op_1' },
+      data: { lastError: 'Network error' },
+    });
+  });
+});
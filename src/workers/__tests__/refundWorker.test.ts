@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RefundWorker, refundRetryDelayMs } from '../refundWorker.js';
+import { escrowContractService } from '../../services/EscrowContractService.js';
+import { tonBlockchainService } from '../../services/TonBlockchainService.js';
+import { prisma } from '../../db/prisma.js';
+
+// Mock dependencies
+vi.mock('../../db/prisma.js', () => ({
+  prisma: {
+    refund: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../services/EscrowContractService.js', () => ({
+  escrowContractService: {
+    isAdminWalletReady: vi.fn(),
+    refund: vi.fn(),
+    getOperation: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/EscrowService.js', () => ({
+  escrowService: {
+    getEscrowAddress: vi.fn(() => 'EQ_escrow'),
+  },
+}));
+
+vi.mock('../../services/TonBlockchainService.js', () => ({
+  tonBlockchainService: {
+    findRefundTransfers: vi.fn(),
+  },
+}));
+
+const PLAYER_ADDRESS = 'EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c';
+
+function refundRow(overrides: Record<string, any> = {}) {
+  return {
+    id: 'refund_1',
+    amount: { toString: () => '1.5' },
+    toAddress: PLAYER_ADDRESS,
+    status: 'CREATED',
+    attempts: 0,
+    createdAt: new Date(),
+    sentAt: null,
+    joinIntent: { playerId: 'p1', roomId: 'match_1768688464413_60rnyirpq', onChainRoomId: '42' },
+    ...overrides,
+  };
+}
+
+function confirmedOperation(sentAt: Date) {
+  return { status: 'CONFIRMED', roomId: 42n, sentAt, confirmedAt: sentAt } as any;
+}
+
+function transfer(txHash: string, amount: string) {
+  return { txHash, lt: '1', toAddress: PLAYER_ADDRESS, amount, blockTime: Math.floor(Date.now() / 1000) };
+}
+
+describe('RefundWorker', () => {
+  let worker: RefundWorker;
+  let emit: ReturnType<typeof vi.fn>;
+  let to: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    worker = new RefundWorker();
+    emit = vi.fn();
+    to = vi.fn(() => ({ emit }));
+    (worker as any).io = { to };
+
+    vi.mocked(escrowContractService.isAdminWalletReady).mockReturnValue(true);
+    vi.mocked(tonBlockchainService.findRefundTransfers).mockResolvedValue([]);
+    vi.mocked(prisma.refund.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.refund.updateMany).mockResolvedValue({ count: 1 } as any);
+    vi.mocked(escrowContractService.getOperation).mockResolvedValue(null);
+  });
+
+  it('should send CREATED refunds and notify the player', async () => {
+    vi.mocked(prisma.refund.findMany)
+      .mockResolvedValueOnce([]) // SENT
+      .mockResolvedValueOnce([refundRow()] as any); // CREATED
+    vi.mocked(escrowContractService.refund).mockResolvedValue('refund_42_7');
+
+    await worker.processRefunds();
+
+    expect(escrowContractService.refund).toHaveBeenCalledWith(expect.objectContaining({ roomId: 42n, key: 'refund:refund_1' }));
+    expect(prisma.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: 'refund_1', status: 'CREATED' },
+      data: expect.objectContaining({ status: 'SENT', attempts: { increment: 1 } }),
+    });
+    expect(prisma.refund.update).toHaveBeenCalledWith({ where: { id: 'refund_1' }, data: { escrowOperationId: 'refund_42_7' } });
+    expect(to).toHaveBeenCalledWith('player:p1');
+    expect(emit).toHaveBeenCalledWith('refund:status', expect.objectContaining({
+      refundId: 'refund_1',
+      matchId: 'match_1768688464413_60rnyirpq',
+      status: 'SENT',
+      amount: '1.5',
+      txHash: null, // The operation ID is never exposed as a transaction hash
+      attempts: 1,
+    }));
+  });
+
+  it('should not send refunds without the admin wallet', async () => {
+    vi.mocked(escrowContractService.isAdminWalletReady).mockReturnValue(false);
+    vi.mocked(prisma.refund.findMany).mockResolvedValueOnce([]);
+
+    await worker.processRefunds();
+
+    expect(prisma.refund.findMany).toHaveBeenCalledTimes(1); // SENT only
+    expect(escrowContractService.refund).not.toHaveBeenCalled();
+  });
+
+  it('should schedule a retry with backoff when sending fails', async () => {
+    vi.mocked(prisma.refund.findMany)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([refundRow()] as any);
+    vi.mocked(escrowContractService.refund).mockRejectedValue(new Error('Transaction timeout'));
+
+    const before = Date.now();
+    await worker.processRefunds();
+
+    const data = vi.mocked(prisma.refund.update).mock.calls[0][0].data;
+    expect(data.status).toBe('CREATED');
+    expect(data.lastError).toBe('Transaction timeout');
+    expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + refundRetryDelayMs(1));
+    expect(emit).toHaveBeenCalledWith('refund:status', expect.objectContaining({ status: 'CREATED', error: 'Transaction timeout' }));
+  });
+
+  it('should mark the refund FAILED after the last attempt', async () => {
+    vi.mocked(prisma.refund.findMany)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([refundRow({ attempts: 4 })] as any);
+    vi.mocked(escrowContractService.refund).mockRejectedValue(new Error('Transaction timeout'));
+
+    await worker.processRefunds();
+
+    expect(prisma.refund.update).toHaveBeenCalledWith({
+      where: { id: 'refund_1' },
+      data: { status: 'FAILED', nextAttemptAt: null, lastError: 'Transaction timeout' },
+    });
+    expect(emit).toHaveBeenCalledWith('refund:status', expect.objectContaining({ status: 'FAILED', attempts: 5 }));
+  });
+
+  it('should confirm SENT refunds once the refund transfer is observed', async () => {
+    const sentAt = new Date();
+    vi.mocked(prisma.refund.findMany)
+      .mockResolvedValueOnce([refundRow({ status: 'SENT', attempts: 1, sentAt, escrowOperationId: 'op_1' })] as any)
+      .mockResolvedValueOnce([]);
+    vi.mocked(escrowContractService.getOperation).mockResolvedValue(confirmedOperation(sentAt));
+    vi.mocked(tonBlockchainService.findRefundTransfers).mockResolvedValue([transfer('abc', '1500000000')]);
+
+    await worker.processRefunds();
+
+    expect(escrowContractService.getOperation).toHaveBeenCalledWith('op_1');
+    expect(tonBlockchainService.findRefundTransfers).toHaveBeenCalledWith('EQ_escrow', {
+      roomId: 42n,
+      player: PLAYER_ADDRESS,
+      since: new Date(sentAt.getTime() - 60000),
+    });
+    expect(prisma.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: 'refund_1', status: 'SENT' },
+      data: expect.objectContaining({ status: 'CONFIRMED', txHash: 'abc' }),
+    });
+    expect(emit).toHaveBeenCalledWith('refund:status', expect.objectContaining({ status: 'CONFIRMED', txHash: 'abc' }));
+  });
+
+  it('should not confirm with transfers below the refund amount or used by another refund', async () => {
+    const sentAt = new Date();
+    vi.mocked(prisma.refund.findMany)
+      .mockResolvedValueOnce([refundRow({ status: 'SENT', attempts: 1, sentAt, escrowOperationId: 'op_1' })] as any)
+      .mockResolvedValueOnce([]);
+    vi.mocked(escrowContractService.getOperation).mockResolvedValue(confirmedOperation(sentAt));
+    vi.mocked(tonBlockchainService.findRefundTransfers).mockResolvedValue([
+      transfer('small', '500000000'),
+      transfer('used', '1500000000'),
+    ]);
+    vi.mocked(prisma.refund.findFirst).mockResolvedValueOnce({ id: 'refund_0' } as any);
+
+    await worker.processRefunds();
+
+    expect(prisma.refund.findFirst).toHaveBeenCalledWith({
+      where: { txHash: 'used', id: { not: 'refund_1' } },
+      select: { id: true },
+    });
+    expect(prisma.refund.updateMany).not.toHaveBeenCalled();
+    expect(prisma.refund.update).not.toHaveBeenCalled();
+  });
+
+  it('should mark SENT refunds FAILED without resending when not observed in time', async () => {
+    const sentAt = new Date(Date.now() - 11 * 60 * 1000);
+    vi.mocked(prisma.refund.findMany)
+      .mockResolvedValueOnce([refundRow({ status: 'SENT', attempts: 1, sentAt, escrowOperationId: 'op_1' })] as any)
+      .mockResolvedValueOnce([]);
+    vi.mocked(escrowContractService.getOperation).mockResolvedValue(confirmedOperation(sentAt));
+
+    await worker.processRefunds();
+
+    expect(prisma.refund.update).toHaveBeenCalledWith({
+      where: { id: 'refund_1' },
+      data: { status: 'FAILED', nextAttemptAt: null, lastError: 'Refund transfer not observed on-chain' },
+    });
+    expect(escrowContractService.refund).not.toHaveBeenCalled();
+  });
+
+  it('should wait while the escrow operation is queued', async () => {
+    const sentAt = new Date(Date.now() - 11 * 60 * 1000);
+    vi.mocked(prisma.refund.findMany)
+      .mockResolvedValueOnce([refundRow({ status: 'SENT', attempts: 1, sentAt, escrowOperationId: 'op_1' })] as any)
+      .mockResolvedValueOnce([]);
+    vi.mocked(escrowContractService.getOperation).mockResolvedValue({ status: 'SENT' } as any);
+
+    await worker.processRefunds();
+
+    expect(escrowContractService.getOperation).toHaveBeenCalledWith('op_1');
+    expect(tonBlockchainService.findRefundTransfers).not.toHaveBeenCalled();
+    expect(prisma.refund.update).not.toHaveBeenCalled();
+  });
+
+  it('should retry right away when the escrow operation failed', async () => {
+    vi.mocked(prisma.refund.findMany)
+      .mockResolvedValueOnce([refundRow({ status: 'SENT', attempts: 1, sentAt: new Date(), escrowOperationId: 'op_1' })] as any)
+      .mockResolvedValueOnce([]);
+    vi.mocked(escrowContractService.getOperation).mockResolvedValue({ status: 'FAILED', lastError: 'Transfer expired' } as any);
+
+    await worker.processRefunds();
+
+    expect(prisma.refund.update).toHaveBeenCalledWith({
+      where: { id: 'refund_1' },
+      data: expect.objectContaining({ status: 'CREATED', lastError: 'Transfer expired' }),
+    });
+  });
+
+  it('should re-queue a retried refund under the same key', async () => {
+    vi.mocked(prisma.refund.findMany)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([refundRow({ attempts: 2 })] as any);
+    vi.mocked(escrowContractService.refund).mockResolvedValue('op_1');
+
+    await worker.processRefunds();
+
+    expect(escrowContractService.refund).toHaveBeenCalledWith(expect.objectContaining({ key: 'refund:refund_1' }));
+    expect(emit).toHaveBeenCalledWith('refund:status', expect.objectContaining({ status: 'SENT', attempts: 3 }));
+  });
+
+  it('should double the retry delay up to the cap', () => {
+    expect(refundRetryDelayMs(1)).toBe(30000);
+    expect(refundRetryDelayMs(2)).toBe(60000);
+    expect(refundRetryDelayMs(3)).toBe(120000);
+    expect(refundRetryDelayMs(20)).toBe(30 * 60 * 1000);
+  });
+});
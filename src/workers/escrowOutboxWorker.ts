@@ -0,0 +1,195 @@
+import { Cell, toNano } from '@ton/core';
+import type { EscrowOperation } from '../../generated/prisma/client.js';
+import { escrowContractService } from '../services/EscrowContractService.js';
+import { prisma } from '../db/prisma.js';
+
+const CHECK_INTERVAL_MS = 3000; // Outbox check (seqno is only read while operations are queued)
+const TRANSFER_TTL_SEC = 60; // Signed transfers are valid for 60 seconds
+const EXPIRY_GRACE_MS = 30000; // Block time vs server time slack before treating a transfer as expired
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Escrow outbox worker: the only sender of admin wallet transfers
+ * Sends queued escrow operations one at a time, in queue order. An operation is marked SENT with
+ * the wallet seqno and valid-until time before its transfer is sent; it is CONFIRMED once the
+ * wallet seqno moves past it, and queued again only after its transfer has expired unaccepted.
+ * The same check runs on start, so operations in flight during a restart are neither lost nor sent twice.
+ * Assumes a single server instance uses the admin wallet.
+ */
+export class EscrowOutboxWorker {
+  private intervalId: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start the escrow outbox worker
+   */
+  start() {
+    if (this.intervalId) {
+      console.log('⚠️ Escrow outbox worker already running');
+      return;
+    }
+
+    console.log('📮 Starting escrow outbox worker...');
+
+    // Run immediately on start (settles operations sent before a restart)
+    this.wake();
+
+    this.intervalId = setInterval(() => this.wake(), CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the escrow outbox worker
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('🛑 Escrow outbox worker stopped');
+    }
+  }
+
+  private wake() {
+    this.processOutbox().catch((error) => {
+      console.error('❌ Error processing escrow outbox:', error);
+    });
+  }
+
+  /**
+   * Settle the operation in flight, then send the next queued one
+   */
+  async processOutbox(): Promise<void> {
+    if (this.running || !escrowContractService.isAdminWalletReady()) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const queued = await prisma.escrowOperation.count({
+        where: { status: { in: ['PENDING', 'SENT'] } },
+      });
+      if (queued === 0) {
+        return;
+      }
+
+      const seqno = await escrowContractService.getAdminSeqno();
+      if (!(await this.settleSent(seqno))) {
+        return; // A transfer is still in flight
+      }
+      await this.sendNext(seqno);
+    } catch (error: any) {
+      // Check if it's a connection error
+      if (error?.code === 'ECONNREFUSED' || error?.code === 'P1001') {
+        console.warn('⚠️ Database not available. Skipping escrow outbox check.');
+        return;
+      }
+      throw error;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Settle SENT operations against the current wallet seqno
+   * @returns true if nothing is in flight and the next operation can be sent
+   */
+  private async settleSent(seqno: number): Promise<boolean> {
+    const sent = await prisma.escrowOperation.findMany({
+      where: { status: 'SENT' },
+      orderBy: { seqno: 'asc' },
+    });
+
+    for (const operation of sent) {
+      if (operation.seqno !== null && seqno > operation.seqno) {
+        // The wallet accepted the transfer signed with this seqno
+        await prisma.escrowOperation.update({
+          where: { id: operation.id },
+          data: { status: 'CONFIRMED', confirmedAt: new Date() },
+        });
+        console.log(`✅ Escrow operation ${operation.id} (${operation.opType}, room ${operation.roomId}) confirmed`);
+        continue;
+      }
+
+      const validUntil = operation.validUntil ? operation.validUntil.getTime() : 0;
+      if (Date.now() < validUntil + EXPIRY_GRACE_MS) {
+        return false;
+      }
+
+      // Expired without being accepted: safe to send again with a new transfer
+      await this.failAttempt(operation, operation.lastError || 'Transfer expired');
+    }
+
+    return true;
+  }
+
+  /**
+   * Mark the oldest PENDING operation as SENT with the given seqno, then send its transfer
+   */
+  private async sendNext(seqno: number): Promise<void> {
+    const operation = await prisma.escrowOperation.findFirst({
+      where: { status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!operation) {
+      return;
+    }
+
+    // Record the transfer before sending it, so a crash in between is settled on restart
+    const validUntil = Math.floor(Date.now() / 1000) + TRANSFER_TTL_SEC;
+    const claimed = await prisma.escrowOperation.updateMany({
+      where: { id: operation.id, status: 'PENDING' },
+      data: {
+        status: 'SENT',
+        seqno,
+        validUntil: new Date(validUntil * 1000),
+        sentAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    try {
+      await escrowContractService.sendTransfer({
+        seqno,
+        body: Cell.fromBase64(operation.body),
+        value: toNano(operation.value.toString()),
+        validUntil,
+      });
+      console.log(`📤 Sent escrow operation ${operation.id} (${operation.opType}, room ${operation.roomId}, seqno ${seqno})`);
+    } catch (error) {
+      // Keep SENT: the transfer may have reached the wallet; it is settled by seqno or expiry
+      const message = error instanceof Error ? error.message : String(error);
+      await prisma.escrowOperation.update({
+        where: { id: operation.id },
+        data: { lastError: message },
+      });
+      console.error(`❌ Error sending escrow operation ${operation.id}:`, error);
+    }
+  }
+
+  /**
+   * Queue the operation again, or mark it FAILED once out of attempts
+   */
+  private async failAttempt(operation: EscrowOperation, error: string): Promise<void> {
+    const failed = operation.attempts >= MAX_ATTEMPTS;
+    await prisma.escrowOperation.update({
+      where: { id: operation.id },
+      data: {
+        status: failed ? 'FAILED' : 'PENDING',
+        seqno: null,
+        validUntil: null,
+        lastError: error,
+      },
+    });
+
+    if (failed) {
+      console.error(`❌ Escrow operation ${operation.id} (${operation.opType}, room ${operation.roomId}) failed after ${operation.attempts} attempt(s): ${error}`);
+    } else {
+      console.warn(`⚠️ Escrow operation ${operation.id} attempt ${operation.attempts} expired (${error}), queued again`);
+    }
+  }
+}
+
+// Singleton instance
+export const escrowOutboxWorker = new EscrowOutboxWorker();
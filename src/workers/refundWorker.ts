@@ -0,0 +1,319 @@
+import { Server } from 'socket.io';
+import { Address, toNano } from '@ton/core';
+import type { Prisma } from '../../generated/prisma/client.js';
+import { escrowContractService } from '../services/EscrowContractService.js';
+import { escrowService } from '../services/EscrowService.js';
+import { tonBlockchainService } from '../services/TonBlockchainService.js';
+import { matchIdToRoomId, roomIdFromString } from '../utils/roomId.js';
+import { prisma } from '../db/prisma.js';
+
+const CHECK_INTERVAL_MS = 20000; // Send and confirm refunds every 20 seconds
+const BATCH_SIZE = 10; // Refunds queued per check
+const RETRY_BASE_MS = 30000; // First retry after 30 seconds, doubled on every attempt
+const RETRY_MAX_MS = 30 * 60 * 1000;
+const CONFIRM_TIMEOUT_MS = 10 * 60 * 1000; // Refunds sent by the wallet but not observed on-chain in time are FAILED
+const CLOCK_SKEW_MS = 60000; // Block time vs server time slack when looking for the transfer
+const AMOUNT_TOLERANCE_TON = '0.01'; // Forward fees the contract may deduct from the refunded deposit
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+type RefundWithIntent = Prisma.RefundGetPayload<{
+  include: { joinIntent: { select: { playerId: true; roomId: true; onChainRoomId: true } } };
+}>;
+
+export type RefundStatus = 'CREATED' | 'SENT' | 'CONFIRMED' | 'FAILED';
+
+export interface RefundStatusEvent {
+  refundId: string;
+  matchId: string | null;
+  status: RefundStatus;
+  amount: string; // TON
+  txHash: string | null; // On-chain transaction hash, once CONFIRMED
+  attempts: number;
+  nextAttemptAt?: Date; // CREATED: when the refund is retried
+  error?: string;
+}
+
+/**
+ * Max send attempts before a refund is marked FAILED (REFUND_MAX_ATTEMPTS env)
+ */
+function getMaxAttempts(): number {
+  const attempts = parseInt(process.env.REFUND_MAX_ATTEMPTS || '', 10);
+  return Number.isNaN(attempts) ? DEFAULT_MAX_ATTEMPTS : Math.max(1, attempts);
+}
+
+/**
+ * Delay before the next send attempt (exponential backoff)
+ * @param attempts - attempts made so far (>= 1)
+ */
+export function refundRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Refund worker for sending refunds through the escrow contract
+ * CREATED refunds are queued in the escrow outbox (status SENT), then confirmed by observing the escrow's
+ * transfer to the player made for this refund (CONFIRMED); failed escrow operations are retried with backoff
+ * until REFUND_MAX_ATTEMPTS is reached (FAILED)
+ */
+export class RefundWorker {
+  private intervalId: NodeJS.Timeout | null = null;
+  private io: Server | null = null;
+  private running = false;
+
+  /**
+   * Start the refund worker
+   */
+  start(io: Server) {
+    this.io = io;
+
+    if (this.intervalId) {
+      console.log('⚠️ Refund worker already running');
+      return;
+    }
+
+    console.log('💸 Starting refund worker...');
+
+    // Run immediately on start (picks up refunds left from before a restart)
+    this.wake();
+
+    this.intervalId = setInterval(() => this.wake(), CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the refund worker
+   */
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('🛑 Refund worker stopped');
+    }
+  }
+
+  /**
+   * Process refunds now instead of waiting for the next check (e.g. right after one was created)
+   * Skipped while a check is running; the next check picks new refunds up
+   */
+  wake() {
+    this.processRefunds().catch((error) => {
+      console.error('❌ Error processing refunds:', error);
+    });
+  }
+
+  /**
+   * Confirm SENT refunds, then send due CREATED refunds
+   */
+  async processRefunds(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      await this.confirmSentRefunds();
+      await this.sendCreatedRefunds();
+    } catch (error: any) {
+      // Check if it's a connection error
+      if (error?.code === 'ECONNREFUSED' || error?.code === 'P1001') {
+        console.warn('⚠️ Database not available. Skipping refund check.');
+        return;
+      }
+      throw error;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Send due CREATED refunds through the escrow contract
+   */
+  private async sendCreatedRefunds(): Promise<void> {
+    if (!escrowContractService.isAdminWalletReady()) {
+      return; // Refunds wait until the admin wallet is configured
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: {
+        status: 'CREATED',
+        OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: new Date() } }],
+      },
+      include: { joinIntent: { select: { playerId: true, roomId: true, onChainRoomId: true } } },
+      orderBy: { createdAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const refund of refunds) {
+      try {
+        await this.sendRefund(refund);
+      } catch (error) {
+        console.error(`❌ Error sending refund ${refund.id}:`, error);
+      }
+    }
+  }
+
+  private async sendRefund(refund: RefundWithIntent): Promise<void> {
+    const { onChainRoomId, roomId } = refund.joinIntent;
+    if (!onChainRoomId && !roomId) {
+      await this.markFailed(refund, refund.attempts, 'Join intent has no room');
+      return;
+    }
+
+    // Claim the refund so overlapping checks never send it twice
+    const sentAt = new Date();
+    const claimed = await prisma.refund.updateMany({
+      where: { id: refund.id, status: 'CREATED' },
+      data: { status: 'SENT', sentAt, attempts: { increment: 1 }, lastError: null },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+    const attempts = refund.attempts + 1;
+
+    // Queued in the escrow outbox under one key per refund, so a retry re-queues the failed operation
+    // instead of sending a second refund
+    let escrowOperationId: string;
+    try {
+      escrowOperationId = await escrowContractService.refund({
+        roomId: onChainRoomId ? roomIdFromString(onChainRoomId) : matchIdToRoomId(roomId),
+        player: Address.parse(refund.toAddress),
+        key: `refund:${refund.id}`,
+      });
+    } catch (error) {
+      await this.failAttempt(refund, attempts, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { escrowOperationId },
+    });
+
+    console.log(`📤 Refund ${refund.id} sent (attempt ${attempts})`);
+    this.emitStatus(refund, { status: 'SENT', txHash: null, attempts });
+  }
+
+  /**
+   * Confirm SENT refunds whose transfer shows up on-chain; retry those whose escrow operation failed
+   */
+  private async confirmSentRefunds(): Promise<void> {
+    const refunds = await prisma.refund.findMany({
+      where: { status: 'SENT' },
+      include: { joinIntent: { select: { playerId: true, roomId: true, onChainRoomId: true } } },
+      orderBy: { sentAt: 'asc' },
+    });
+
+    for (const refund of refunds) {
+      try {
+        await this.confirmRefund(refund);
+      } catch (error) {
+        console.error(`❌ Error confirming refund ${refund.id}:`, error);
+      }
+    }
+  }
+
+  private async confirmRefund(refund: RefundWithIntent): Promise<void> {
+    const operation = refund.escrowOperationId
+      ? await escrowContractService.getOperation(refund.escrowOperationId)
+      : null;
+    if (!operation || operation.status === 'FAILED') {
+      // Re-queueing with the same key never sends a refund twice
+      await this.failAttempt(refund, refund.attempts, operation?.lastError || 'Escrow operation failed');
+      return;
+    }
+    if (operation.status !== 'CONFIRMED') {
+      return; // Still waiting in the escrow outbox
+    }
+
+    // The wallet sent the refund message; the contract's transfer follows it
+    const sentAt = operation.sentAt || operation.confirmedAt || refund.sentAt || refund.createdAt;
+    const transfers = await tonBlockchainService.findRefundTransfers(escrowService.getEscrowAddress(), {
+      roomId: operation.roomId,
+      player: refund.toAddress,
+      since: new Date(sentAt.getTime() - CLOCK_SKEW_MS),
+    });
+
+    const minAmount = toNano(refund.amount.toString()) - toNano(AMOUNT_TOLERANCE_TON);
+    for (const transfer of transfers) {
+      if (BigInt(transfer.amount) < minAmount) {
+        continue;
+      }
+      // The same player may be refunded from the room more than once (rejoined after leaving)
+      const used = await prisma.refund.findFirst({
+        where: { txHash: transfer.txHash, id: { not: refund.id } },
+        select: { id: true },
+      });
+      if (!used) {
+        await this.markConfirmed(refund, transfer.txHash);
+        return;
+      }
+    }
+
+    // The message left the wallet, so resending could refund twice: leave it for manual review
+    const acceptedAt = operation.confirmedAt || sentAt;
+    if (Date.now() - acceptedAt.getTime() > CONFIRM_TIMEOUT_MS) {
+      await this.markFailed(refund, refund.attempts, 'Refund transfer not observed on-chain');
+    }
+  }
+
+  private async markConfirmed(refund: RefundWithIntent, txHash: string): Promise<void> {
+    const updated = await prisma.refund.updateMany({
+      where: { id: refund.id, status: 'SENT' },
+      data: { status: 'CONFIRMED', txHash, confirmedAt: new Date(), nextAttemptAt: null },
+    });
+    if (updated.count === 0) {
+      return;
+    }
+
+    console.log(`✅ Refund ${refund.id} confirmed (tx ${txHash})`);
+    this.emitStatus(refund, { status: 'CONFIRMED', txHash, attempts: refund.attempts });
+  }
+
+  /**
+   * Schedule a retry, or mark the refund FAILED once out of attempts
+   */
+  private async failAttempt(refund: RefundWithIntent, attempts: number, error: string): Promise<void> {
+    if (attempts >= getMaxAttempts()) {
+      await this.markFailed(refund, attempts, error);
+      return;
+    }
+
+    const nextAttemptAt = new Date(Date.now() + refundRetryDelayMs(attempts));
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: 'CREATED', nextAttemptAt, lastError: error },
+    });
+
+    console.warn(`⚠️ Refund ${refund.id} attempt ${attempts} failed (${error}), retrying at ${nextAttemptAt.toISOString()}`);
+    this.emitStatus(refund, { status: 'CREATED', txHash: null, attempts, nextAttemptAt, error });
+  }
+
+  private async markFailed(refund: RefundWithIntent, attempts: number, error: string): Promise<void> {
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: 'FAILED', nextAttemptAt: null, lastError: error },
+    });
+
+    console.error(`❌ Refund ${refund.id} failed after ${attempts} attempt(s): ${error}`);
+    this.emitStatus(refund, { status: 'FAILED', txHash: null, attempts, error });
+  }
+
+  /**
+   * Push the refund status to the player's room
+   */
+  private emitStatus(refund: RefundWithIntent, update: Omit<RefundStatusEvent, 'refundId' | 'matchId' | 'amount'>) {
+    if (!this.io) {
+      return;
+    }
+
+    const event: RefundStatusEvent = {
+      refundId: refund.id,
+      matchId: refund.joinIntent.roomId || null,
+      amount: refund.amount.toString(),
+      ...update,
+    };
+    this.io.to(`player:${refund.joinIntent.playerId}`).emit('refund:status', event);
+  }
+}
+
+// Singleton instance
+export const refundWorker = new RefundWorker();